@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import type { LatLngTuple, LatLngBoundsExpression } from 'leaflet';
 import MapComponent from './components/MapComponent';
 import LocationForm from './components/LocationForm';
@@ -6,57 +6,140 @@ import LocationsList from './components/LocationsList';
 import MapSearchControl from './components/MapSearchControl';
 import LanguageSwitcher from './components/LanguageSwitcher';
 import TourGuide from './components/TourGuide';
+import ImportReportDialog from './components/ImportReportDialog';
+import ExportMenu from './components/ExportMenu';
+import CsvImportWizard, { type CsvImportMode } from './components/CsvImportWizard';
+import CountryLookupDialog from './components/CountryLookupDialog';
+import TourSwitcher from './components/TourSwitcher';
+import TransferLocationDialog, { type TransferMode } from './components/TransferLocationDialog';
+import TourPlayer from './components/TourPlayer';
+import SaveStatusIndicator from './components/SaveStatusIndicator';
 import { useLanguage } from './contexts/LanguageContext';
-import type { Location, Question, Place } from './types';
+import type { Location, LocalizedContent, Question, Place, RoutingProfile, Tour, TourMetadata, MarkerIconName, MarkerColorName, QuizMapOverlay } from './types';
 import { getURLParams, hasRequiredParams } from './utils/urlParams';
+import { downloadFile } from './utils/fileUtils';
+import { isGeoJSON, locationsToGeoJSON, geoJSONToLocations } from './utils/geojson';
+import { locationsToKml, kmlToLocations } from './utils/kml';
+import { locationsToGpx, gpxToLocations } from './utils/gpx';
+import { detectInterchangeFormat, type InterchangeImportResult } from './utils/interchange';
+import { createTour, transferLocation, updateTourLocations } from './utils/tours';
+import { localizeTour, tourContentLanguages } from './utils/contentLanguages';
+import { useHistory, type HistoryLabel } from './hooks/useHistory';
+import { useRoute } from './hooks/useRoute';
+import { useAutosave } from './hooks/useAutosave';
+import { geocoder } from './services/geocoding';
+import { isAbortError } from './utils/abort';
+import { saveArtifact } from './services/artifacts';
+import {
+  parseArtifact,
+  isReportValid,
+  resolveReport,
+  serializeArtifact,
+  type ReportResolver,
+  type ValidationReport,
+} from './utils/artifactSchema';
 
-const validateLocationsData = (data: any): Location[] | null => {
-  if (!Array.isArray(data)) {
-    return null;
-  }
-  const validLocations = data.filter(
-    (loc: any): loc is Location =>
-      loc &&
-      typeof loc.id === 'string' &&
-      typeof loc.title === 'string' &&
-      typeof loc.country === 'string' &&
-      typeof loc.description === 'string' &&
-      typeof loc.image === 'string' &&
-      (loc.video === null || typeof loc.video === 'string') &&
-      (loc.audio === null || typeof loc.audio === 'string') &&
-      Array.isArray(loc.coordinates) &&
-      loc.coordinates.length === 2 &&
-      typeof loc.coordinates[0] === 'number' &&
-      typeof loc.coordinates[1] === 'number' &&
-      (loc.questions === undefined || (
-        Array.isArray(loc.questions) &&
-        loc.questions.every((q: any) => 
-          q &&
-          typeof q.id === 'string' &&
-          typeof q.text === 'string' &&
-          ['short_answer', 'true_false', 'multiple_choice'].includes(q.type) &&
-          typeof q.answer === 'string' &&
-          (q.options === undefined || (Array.isArray(q.options) && q.options.every((opt: any) => typeof opt === 'string')))
-        )
-      )) &&
-      (loc.block_navigation === undefined || typeof loc.block_navigation === 'boolean')
-  );
+interface PendingImport {
+  report: ValidationReport;
+  source: 'file' | 'artifact';
+}
 
-  // Ensure all items in the original array were valid by comparing lengths
-  if (validLocations.length !== data.length) {
-    return null;
+// The draft keeps its original storage key; parseArtifact upgrades older payloads.
+// False when the browser refuses, usually because its storage is full.
+const storeArtifact = (updatedTours: Tour[]): boolean => {
+  try {
+    localStorage.setItem('locations', serializeArtifact(updatedTours));
+    return true;
+  } catch (error) {
+    console.error('Failed to store the draft in localStorage:', error);
+    return false;
   }
-
-  return validLocations;
 };
 
+// The builder always has a tour to add locations to.
+const toursOrDefault = (tours: Tour[]): Tour[] => tours.length > 0 ? tours : [createTour()];
+
+// While previewing, clicking the map shouldn't start a new location.
+const ignoreMapClick = () => {};
 
 const App: React.FC = () => {
-  const [locations, setLocations] = useState<Location[]>([]);
-  const { t, language } = useLanguage();
+  const { t, language, dir } = useLanguage();
+  // Set while the draft can't be stored, so the author is told once, not on every change.
+  const draftStorageFailedRef = useRef(false);
+  const storeDraft = (updatedTours: Tour[]) => {
+    const stored = storeArtifact(updatedTours);
+    if (!stored && !draftStorageFailedRef.current) {
+      alert(t('alert_draftStorageFailed'));
+    }
+    draftStorageFailedRef.current = !stored;
+  };
+  const {
+    present: tours,
+    commit,
+    undo,
+    redo,
+    reset: resetTours,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useHistory<Tour[]>(toursOrDefault([]), { onChange: storeDraft });
+  const [activeTourId, setActiveTourId] = useState<string | null>(() => localStorage.getItem('activeTourId'));
+  // Falls back to the first tour when undo/redo removed the active one.
+  const activeTour = tours.find(tour => tour.id === activeTourId) ?? tours[0];
+  const locations = activeTour.locations;
+  // Chosen separately from the builder's language; a language the active tour
+  // isn't translated into shows its own language instead.
+  const [selectedContentLanguage, setSelectedContentLanguage] = useState<string | null>(null);
+  const contentLanguage = selectedContentLanguage && tourContentLanguages(activeTour).includes(selectedContentLanguage)
+    ? selectedContentLanguage
+    : activeTour.language;
+  const localizedTour = useMemo(() => localizeTour(activeTour, contentLanguage), [activeTour, contentLanguage]);
   const [isTourOpen, setIsTourOpen] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isLoadingArtifact, setIsLoadingArtifact] = useState(false);
+  const [isMoveMode, setIsMoveMode] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  // Set while a "find it on the map" question waits for a map click, from its
+  // author placing the target or a learner answering. It gets clicks first.
+  const [mapPick, setMapPick] = useState<{ onPick: (coords: LatLngTuple) => void } | null>(null);
+  const [quizOverlay, setQuizOverlay] = useState<QuizMapOverlay | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [csvImportText, setCsvImportText] = useState<string | null>(null);
+  const [countryLookup, setCountryLookup] = useState<{ done: number; total: number } | null>(null);
+  const countryLookupRef = useRef<AbortController | null>(null);
+  const [transferringLocation, setTransferringLocation] = useState<Location | null>(null);
+  const { route, status: routeStatus, waypointsKey: routeWaypoints } = useRoute(locations.map(loc => loc.coordinates), activeTour.routingProfile);
+  // Autosave starts once the studio's copy of the artifact is on screen, so a
+  // failed load can never overwrite it.
+  const [isArtifactLoaded, setIsArtifactLoaded] = useState(false);
+  // The studio's report, kept when its review is cancelled so it can be
+  // reopened; nothing is saved to the studio until it is resolved.
+  const [pausedArtifactReport, setPausedArtifactReport] = useState<ValidationReport | null>(null);
+  const { status: saveStatus, markSaved, saveNow } = useAutosave(
+    tours,
+    (toursToSave, signal) => saveArtifact(getURLParams(), serializeArtifact(toursToSave), { signal }),
+    { enabled: isArtifactLoaded && !pendingImport }
+  );
+
+  useEffect(() => {
+    localStorage.setItem('activeTourId', activeTour.id);
+  }, [activeTour.id]);
+
+  // Applies a change to the active tour's locations as one undoable step.
+  const commitLocations = useCallback((label: HistoryLabel, updater: (prev: Location[]) => Location[]) => {
+    commit(label, prevTours => updateTourLocations(prevTours, activeTour.id, updater));
+  }, [commit, activeTour.id]);
+
+  const loadTours = (loadedTours: Tour[], persist: boolean): Tour[] => {
+    const nextTours = toursOrDefault(loadedTours);
+    resetTours(nextTours);
+    setActiveTourId(prev => nextTours.some(tour => tour.id === prev) ? prev : nextTours[0].id);
+    if (persist) {
+      storeDraft(nextTours);
+    }
+    return nextTours;
+  };
 
   // Fetch artifact data from API if URL params exist
   useEffect(() => {
@@ -82,16 +165,22 @@ const App: React.FC = () => {
               if (data.artifact_data) {
                 try {
                   const parsedData = JSON.parse(data.artifact_data);
-                  const validatedLocations = validateLocationsData(parsedData);
-                  if (validatedLocations) {
-                    setLocations(validatedLocations);
-                    updateStoredLocations(validatedLocations);
+                  const report = parseArtifact(parsedData);
+                  if (isReportValid(report)) {
+                    markSaved(loadTours(resolveReport(report, 'drop'), true));
+                    setIsArtifactLoaded(true);
+                  } else {
+                    setPendingImport({ report, source: 'artifact' });
                   }
                 } catch (parseError) {
                   console.error('Failed to parse artifact_data:', parseError);
                 }
               }
               // If artifact_data is explicitly null, don't load from localStorage
+              if (!data.artifact_data) {
+                markSaved(tours);
+                setIsArtifactLoaded(true);
+              }
               return;
             }
           }
@@ -107,12 +196,16 @@ const App: React.FC = () => {
         const storedLocations = localStorage.getItem('locations');
         if (storedLocations) {
           const parsedData = JSON.parse(storedLocations);
-          const validatedLocations = validateLocationsData(parsedData);
-          if (validatedLocations) {
-            setLocations(validatedLocations);
-          } else {
-            console.warn('Invalid location data in localStorage, clearing it.');
+          const report = parseArtifact(parsedData);
+          if (report.documentErrors.length > 0) {
+            console.warn('Invalid location data in localStorage, clearing it.', report.documentErrors);
             localStorage.removeItem('locations');
+          } else if (isReportValid(report)) {
+            loadTours(resolveReport(report, 'drop'), false);
+          } else {
+            // Keep whatever can be salvaged rather than discarding the whole draft.
+            console.warn('Repairing invalid location data in localStorage.', report.entries);
+            loadTours(resolveReport(report, 'fix'), true);
           }
         }
       } catch (e) {
@@ -133,17 +226,12 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const updateStoredLocations = (updatedLocations: Location[]) => {
-    localStorage.setItem('locations', JSON.stringify(updatedLocations));
-  };
-
   const insert = useCallback(async (newLocation: Location) => {
-    setLocations(prevLocations => {
-      const updatedLocations = [...prevLocations, newLocation];
-      updateStoredLocations(updatedLocations);
-      return updatedLocations;
-    });
-  }, []);
+    commitLocations(
+      { key: 'history_added', params: { title: newLocation.title } },
+      prevLocations => [...prevLocations, newLocation]
+    );
+  }, [commitLocations]);
   
   const [selectedCoords, setSelectedCoords] = useState<LatLngTuple | null>(null);
   const [selectedCountry, setSelectedCountry] = useState<string | null>(null);
@@ -153,22 +241,25 @@ const App: React.FC = () => {
   const [isSearching, setIsSearching] = useState(false);
   const [isGeocoding, setIsGeocoding] = useState(false);
   const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+  const [selectedLocationId, setSelectedLocationId] = useState<string | null>(null);
   const formRef = useRef<HTMLDivElement>(null);
 
 
+  const reverseGeocodeRef = useRef<AbortController | null>(null);
+
   const handleMapClick = useCallback(async (coords: LatLngTuple) => {
+    // A newer click supersedes any lookup still waiting for a response.
+    reverseGeocodeRef.current?.abort();
+    const controller = new AbortController();
+    reverseGeocodeRef.current = controller;
+
     setIsGeocoding(true);
     setSelectedCoords(coords);
     setSelectedCountry(null); // Reset while fetching
     try {
-      const response = await fetch(`https://nominatim.openstreetmap.org/reverse?format=jsonv2&lat=${coords[0]}&lon=${coords[1]}`, {
-        headers: {
-          'Accept-Language': language,
-        }
-      });
-      const data = await response.json();
-      if (data && data.address && data.address.country) {
-        setSelectedCountry(data.address.country);
+      const place = await geocoder.reverse(coords, { language, signal: controller.signal });
+      if (place && place.country) {
+        setSelectedCountry(place.country);
       } else {
         alert(t('alert_noCountry'));
         if (!editingLocation) {
@@ -176,16 +267,42 @@ const App: React.FC = () => {
         }
       }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Reverse geocoding failed:", error);
       alert(t('alert_countryError'));
       if (!editingLocation) {
         setSelectedCoords(null);
       }
     } finally {
-      setIsGeocoding(false);
+      if (reverseGeocodeRef.current === controller) {
+        reverseGeocodeRef.current = null;
+        setIsGeocoding(false);
+      }
     }
   }, [editingLocation, language, t]);
 
+  const handleMoveLocation = useCallback(async (id: string, coords: LatLngTuple): Promise<boolean> => {
+    const location = locations.find(loc => loc.id === id);
+    if (!location) return false;
+
+    try {
+      const place = await geocoder.reverse(coords, { language });
+      if (!place || !place.country) {
+        alert(t('alert_noCountry'));
+        return false;
+      }
+      commitLocations(
+        { key: 'history_moved', params: { title: location.title } },
+        prev => prev.map(loc => loc.id === id ? { ...loc, coordinates: coords, country: place.country! } : loc)
+      );
+      return true;
+    } catch (error) {
+      console.error("Reverse geocoding failed:", error);
+      alert(t('alert_countryError'));
+      return false;
+    }
+  }, [locations, language, t, commitLocations]);
+
   const handleSaveLocation = async (formData: {
     title: string;
     description: string;
@@ -194,11 +311,16 @@ const App: React.FC = () => {
     audio: string;
     questions: Question[];
     block_navigation: boolean;
+    markerIcon: MarkerIconName | '';
+    markerColor: MarkerColorName | '';
+    passMark: number | undefined;
+    translations: { [language: string]: LocalizedContent };
   }) => {
     if (!selectedCoords || !selectedCountry) {
       alert(t('formAlert'));
       return;
     }
+    const hasTranslations = Object.keys(formData.translations).length > 0;
       
     if (editingLocation) {
       // Update
@@ -213,12 +335,15 @@ const App: React.FC = () => {
         country: selectedCountry,
         questions: formData.questions,
         block_navigation: formData.block_navigation,
+        markerIcon: formData.markerIcon || undefined,
+        markerColor: formData.markerColor || undefined,
+        passMark: formData.passMark,
+        translations: hasTranslations ? formData.translations : undefined,
       };
-      setLocations(prev => {
-        const updated = prev.map(loc => loc.id === editingLocation.id ? updatedLocation : loc);
-        updateStoredLocations(updated);
-        return updated;
-      });
+      commitLocations(
+        { key: 'history_edited', params: { title: updatedLocation.title } },
+        prev => prev.map(loc => loc.id === editingLocation.id ? updatedLocation : loc)
+      );
     } else {
       // Create
       const newLocation: Location = {
@@ -232,6 +357,10 @@ const App: React.FC = () => {
         coordinates: selectedCoords,
         questions: formData.questions,
         block_navigation: formData.block_navigation,
+        markerIcon: formData.markerIcon || undefined,
+        markerColor: formData.markerColor || undefined,
+        passMark: formData.passMark,
+        translations: hasTranslations ? formData.translations : undefined,
       };
       await insert(newLocation);
     }
@@ -245,14 +374,16 @@ const App: React.FC = () => {
     if (editingLocation && editingLocation.id === id) {
       handleCancelEdit();
     }
-    setLocations(prevLocations => {
-      const updatedLocations = prevLocations.filter(loc => loc.id !== id);
-      updateStoredLocations(updatedLocations);
-      return updatedLocations;
-    });
+    const location = locations.find(loc => loc.id === id);
+    if (!location) return;
+    commitLocations(
+      { key: 'history_deleted', params: { title: location.title } },
+      prevLocations => prevLocations.filter(loc => loc.id !== id)
+    );
   };
 
   const handleSelectLocation = (location: Location) => {
+    setSelectedLocationId(location.id);
     setViewCoords(location.coordinates);
     setViewZoom(13);
   };
@@ -277,12 +408,72 @@ const App: React.FC = () => {
     setSelectedCountry(null);
   };
   
+  // Leave edit mode if undo/redo removed the location being edited.
+  useEffect(() => {
+    if (editingLocation && !locations.some(loc => loc.id === editingLocation.id)) {
+      handleCancelEdit();
+    }
+  }, [locations, editingLocation]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      // Leave text fields (including the Quill editor) to their native undo.
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const undoTooltip = undoLabel
+    ? t('undoTooltip', { action: t(undoLabel.key, undoLabel.params) })
+    : t('undoButton');
+  const redoTooltip = redoLabel
+    ? t('redoTooltip', { action: t(redoLabel.key, redoLabel.params) })
+    : t('redoButton');
+
   const handleBoundsFitted = useCallback(() => {
     setBoundsToFit(null);
   }, []);
 
+  const handleMapPickChange = useCallback((onPick: ((coords: LatLngTuple) => void) | null) => {
+    setMapPick(onPick ? { onPick } : null);
+  }, []);
+
+  const handleStartPreview = () => {
+    handleCancelEdit();
+    setIsMoveMode(false);
+    setIsPreviewing(true);
+  };
+
+  const handleExitPreview = () => {
+    setIsPreviewing(false);
+    setSelectedLocationId(null);
+  };
+
+  const handlePreviewStopChange = useCallback((location: Location | null) => {
+    setSelectedLocationId(location?.id ?? null);
+    if (location) {
+      setViewCoords(location.coordinates);
+      setViewZoom(13);
+    }
+  }, []);
+
   const handleSave = async () => {
-    if (locations.length === 0) {
+    if (tours.every(tour => tour.locations.length === 0)) {
       alert(t('alert_noSave'));
       return;
     }
@@ -294,24 +485,8 @@ const App: React.FC = () => {
     }
 
     try {
-      const artifactData = JSON.stringify(locations);
-      const response = await fetch(`${urlParams.baseUrl}/studio/artifacts/update/${urlParams.artifactId}/`, {
-        method: 'PUT',
-        headers: {
-          'Accept': 'application/json, text/plain, */*',
-          'Authorization': `Bearer ${urlParams.token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          artifacts: parseInt(urlParams.artifactId!),
-          artifact_data: artifactData,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
+      await saveArtifact(urlParams, serializeArtifact(tours));
+      markSaved(tours);
       alert(t('alert_saveSuccess'));
     } catch (error) {
       console.error('Save failed:', error);
@@ -319,30 +494,96 @@ const App: React.FC = () => {
     }
   };
 
-  const handleExport = () => {
-    if (locations.length === 0) {
+  // JSON backups hold every tour; the GIS formats describe a single path, so
+  // they export the active tour only.
+  const handleExport = (format: string) => {
+    const exportsAllTours = format === 'json';
+    if (exportsAllTours ? tours.every(tour => tour.locations.length === 0) : locations.length === 0) {
       alert(t('alert_noExport'));
       return;
     }
 
-    const dataStr = JSON.stringify(locations, null, 2);
-    const dataBlob = new Blob([dataStr], { type: "application/json" });
-    const url = URL.createObjectURL(dataBlob);
+    const documentName = activeTour.title || t('exportDocumentName');
+    switch (format) {
+      case 'geojson':
+        downloadFile(JSON.stringify(locationsToGeoJSON(locations), null, 2), 'locations.geojson', 'application/geo+json');
+        break;
+      case 'kml':
+        downloadFile(locationsToKml(locations, documentName), 'locations.kml', 'application/vnd.google-earth.kml+xml');
+        break;
+      case 'gpx':
+        downloadFile(locationsToGpx(locations, documentName), 'locations.gpx', 'application/gpx+xml');
+        break;
+      default:
+        downloadFile(serializeArtifact(tours, 2), 'locations.json', 'application/json');
+    }
+  };
 
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = "locations.json";
-    document.body.appendChild(link);
-    link.click();
+  const exportFormats = [
+    { id: 'json', label: t('exportFormatJson') },
+    { id: 'geojson', label: t('exportFormatGeoJson') },
+    { id: 'kml', label: t('exportFormatKml') },
+    { id: 'gpx', label: t('exportFormatGpx') },
+  ];
+
+  const applyInterchangeImport = ({ locations: importedLocations, skipped }: InterchangeImportResult) => {
+    const skippedDetails = skipped.map(item => t('importSkippedItem', {
+      number: String(item.index + 1),
+      name: item.name || t('importReportUntitled'),
+      reason: t(item.reason),
+    })).join('\n');
+
+    if (importedLocations.length === 0) {
+      alert([t('importError_validation'), skippedDetails].filter(Boolean).join('\n\n'));
+      return;
+    }
 
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    commitLocations({ key: 'history_imported' }, () => importedLocations);
+    if (skipped.length > 0) {
+      alert(`${t('importSkippedFeatures', { imported: importedLocations.length, count: skipped.length })}\n\n${skippedDetails}`);
+    } else {
+      alert(t('importSuccess'));
+    }
+  };
+
+  // GeoJSON, KML and GPX files often leave the country out, and a location
+  // without one can't be saved from the form, so it is looked up from the
+  // coordinates. Requests are queued by the geocoder's rate limiter; skipping
+  // keeps the countries found so far.
+  const withCountries = async (result: InterchangeImportResult): Promise<InterchangeImportResult> => {
+    const missing = result.locations.filter(loc => !loc.country);
+    if (missing.length === 0) return result;
+
+    const controller = new AbortController();
+    countryLookupRef.current = controller;
+    const countries = new Map<Location, string>();
+    setCountryLookup({ done: 0, total: missing.length });
+    for (let i = 0; i < missing.length; i++) {
+      try {
+        const place = await geocoder.reverse(missing[i].coordinates, { language, signal: controller.signal });
+        if (place?.country) countries.set(missing[i], place.country);
+      } catch (error) {
+        if (isAbortError(error)) break;
+        console.error('Reverse geocoding failed for imported location', missing[i].title, error);
+      }
+      setCountryLookup({ done: i + 1, total: missing.length });
+    }
+    countryLookupRef.current = null;
+    setCountryLookup(null);
+    return {
+      ...result,
+      locations: result.locations.map(loc => countries.has(loc) ? { ...loc, country: countries.get(loc)! } : loc),
+    };
+  };
+
+  const importInterchange = async (result: InterchangeImportResult) => {
+    applyInterchangeImport(await withCountries(result));
   };
 
   const handleImport = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = 'application/json';
+    input.accept = 'application/json,application/geo+json,text/csv,.json,.geojson,.kml,.gpx,.csv,.tsv';
     input.onchange = (event) => {
       const file = (event.target as HTMLInputElement).files?.[0];
       if (!file) return;
@@ -355,24 +596,42 @@ const App: React.FC = () => {
           return;
         }
 
+        const format = detectInterchangeFormat(file.name, text);
+        if (format === 'csv') {
+          // The wizard asks whether to append or replace, so no confirmation here.
+          setCsvImportText(text);
+          return;
+        }
+
         if (!window.confirm(t('importConfirmation'))) {
           return;
         }
 
         try {
+          if (format === 'kml') {
+            importInterchange(kmlToLocations(text));
+            return;
+          }
+          if (format === 'gpx') {
+            importInterchange(gpxToLocations(text));
+            return;
+          }
+
           const jsonData = JSON.parse(text);
-          const validatedLocations = validateLocationsData(jsonData);
+          if (isGeoJSON(jsonData)) {
+            importInterchange(geoJSONToLocations(jsonData));
+            return;
+          }
 
-          if (validatedLocations) {
-            setLocations(validatedLocations);
-            updateStoredLocations(validatedLocations);
-            alert(t('importSuccess'));
+          const report = parseArtifact(jsonData);
+          if (isReportValid(report)) {
+            importTours(resolveReport(report, 'drop'));
           } else {
-            alert(t('importError_validation'));
+            setPendingImport({ report, source: 'file' });
           }
         } catch (error) {
           console.error("Import failed:", error);
-          alert(t('importError_json'));
+          alert(t(format === 'json' ? 'importError_json' : 'importError_xml'));
         }
       };
       reader.onerror = () => {
@@ -383,14 +642,57 @@ const App: React.FC = () => {
     input.click();
   };
 
+  const handleResolveImport = (resolver: ReportResolver) => {
+    if (!pendingImport) return;
+    const resolvedTours = resolveReport(pendingImport.report, resolver);
+    if (pendingImport.source === 'file') {
+      importTours(resolvedTours);
+    } else {
+      // The repaired artifact differs from the studio's, so autosave sends it.
+      loadTours(resolvedTours, true);
+      setIsArtifactLoaded(true);
+    }
+    setPendingImport(null);
+  };
+
+  const handleCancelImport = () => {
+    if (pendingImport?.source === 'artifact') {
+      setPausedArtifactReport(pendingImport.report);
+    }
+    setPendingImport(null);
+  };
+
+  const handleReviewArtifact = () => {
+    if (!pausedArtifactReport) return;
+    setPendingImport({ report: pausedArtifactReport, source: 'artifact' });
+    setPausedArtifactReport(null);
+  };
+
+  // A full artifact replaces every tour, but unlike loading it can be undone.
+  const importTours = (importedTours: Tour[]) => {
+    const nextTours = toursOrDefault(importedTours);
+    commit({ key: 'history_imported' }, () => nextTours);
+    setActiveTourId(nextTours[0].id);
+    alert(t('importSuccess'));
+  };
+
+  const handleCsvImport = (importedLocations: Location[], mode: CsvImportMode) => {
+    commitLocations(
+      { key: 'history_imported' },
+      prev => mode === 'append' ? [...prev, ...importedLocations] : importedLocations
+    );
+    setCsvImportText(null);
+    alert(t('importSuccess'));
+  };
+
   const zoomToPlace = (place: Place) => {
     const { lat, lon, boundingbox } = place;
     if (boundingbox) {
-      const southWest: LatLngTuple = [parseFloat(boundingbox[0]), parseFloat(boundingbox[2])];
-      const northEast: LatLngTuple = [parseFloat(boundingbox[1]), parseFloat(boundingbox[3])];
+      const southWest: LatLngTuple = [boundingbox[0], boundingbox[2]];
+      const northEast: LatLngTuple = [boundingbox[1], boundingbox[3]];
       setBoundsToFit([southWest, northEast]);
     } else {
-      setViewCoords([parseFloat(lat), parseFloat(lon)]);
+      setViewCoords([lat, lon]);
       setViewZoom(10);
     }
   }
@@ -403,14 +705,9 @@ const App: React.FC = () => {
     if (!query) return;
     setIsSearching(true);
     try {
-      const response = await fetch(`https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(query)}&format=json&limit=1`, {
-        headers: {
-          'Accept-Language': language,
-        }
-      });
-      const data = await response.json();
-      if (data && data.length > 0) {
-        zoomToPlace(data[0]);
+      const places = await geocoder.forward(query, { language, limit: 1 });
+      if (places.length > 0) {
+        zoomToPlace(places[0]);
       } else {
         alert(t('alert_searchNotFound'));
       }
@@ -423,11 +720,12 @@ const App: React.FC = () => {
   };
 
   const handleReorderLocations = (oldIndex: number, newIndex: number) => {
-    setLocations((prevLocations: Location[]) => {
+    const movedLocation = locations[oldIndex];
+    if (!movedLocation) return;
+    commitLocations({ key: 'history_reordered', params: { title: movedLocation.title } }, (prevLocations: Location[]) => {
         const items = Array.from(prevLocations);
         const [reorderedItem] = items.splice(oldIndex, 1);
         items.splice(newIndex, 0, reorderedItem);
-        updateStoredLocations(items);
         return items;
     });
   };
@@ -439,11 +737,70 @@ const App: React.FC = () => {
 
   const handleClearAllLocations = () => {
     if (window.confirm(t('clearAllConfirmation'))) {
-      setLocations([]);
-      updateStoredLocations([]);
+      commitLocations({ key: 'history_cleared' }, () => []);
+    }
+  };
+
+  const tourTitle = (tour: TourMetadata) => tour.title || t('untitledTour');
+
+  const handleSelectTour = (tourId: string) => {
+    const tour = tours.find(item => item.id === tourId);
+    if (!tour) return;
+    handleCancelEdit();
+    setSelectedLocationId(null);
+    setActiveTourId(tour.id);
+    if (tour.locations.length > 0) {
+      const lats = tour.locations.map(loc => loc.coordinates[0]);
+      const lons = tour.locations.map(loc => loc.coordinates[1]);
+      setBoundsToFit([[Math.min(...lats), Math.min(...lons)], [Math.max(...lats), Math.max(...lons)]]);
     }
   };
 
+  const handleCreateTour = (metadata: Omit<TourMetadata, 'id'>) => {
+    const tour = createTour(metadata);
+    commit({ key: 'history_tourCreated', params: { title: tourTitle(tour) } }, prevTours => [...prevTours, tour]);
+    handleCancelEdit();
+    setActiveTourId(tour.id);
+  };
+
+  const handleUpdateTour = (tourId: string, changes: Partial<Omit<TourMetadata, 'id'>>) => {
+    const tour = tours.find(item => item.id === tourId);
+    if (!tour) return;
+    commit(
+      { key: 'history_tourEdited', params: { title: tourTitle({ ...tour, ...changes }) } },
+      prevTours => prevTours.map(item => item.id === tourId ? { ...item, ...changes } : item)
+    );
+  };
+
+  const handleRoutingProfileChange = (profile: RoutingProfile) => {
+    handleUpdateTour(activeTour.id, { routingProfile: profile });
+  };
+
+  const handleDeleteTour = (tourId: string) => {
+    const tour = tours.find(item => item.id === tourId);
+    if (!tour || tours.length <= 1) return;
+    if (!window.confirm(t('deleteTourConfirmation', { title: tourTitle(tour) }))) return;
+    if (tourId === activeTour.id) {
+      handleCancelEdit();
+      setActiveTourId(tours.find(item => item.id !== tourId)!.id);
+    }
+    commit({ key: 'history_tourDeleted', params: { title: tourTitle(tour) } }, prevTours => prevTours.filter(item => item.id !== tourId));
+  };
+
+  const handleTransferLocation = (toTourId: string, mode: TransferMode) => {
+    const location = transferringLocation;
+    const targetTour = tours.find(tour => tour.id === toTourId);
+    setTransferringLocation(null);
+    if (!location || !targetTour) return;
+    if (mode === 'move' && editingLocation?.id === location.id) {
+      handleCancelEdit();
+    }
+    commit(
+      { key: mode === 'move' ? 'history_movedToTour' : 'history_copiedToTour', params: { title: location.title, tour: tourTitle(targetTour) } },
+      prevTours => transferLocation(prevTours, location.id, activeTour.id, toTourId, mode)
+    );
+  };
+
   const tourSteps = [
     {
       selector: '#map-search-input',
@@ -468,7 +825,7 @@ const App: React.FC = () => {
   ];
 
   return (
-    <div className="flex h-screen w-screen font-sans bg-sky-50 text-slate-800 overflow-hidden" dir={language === 'ar' ? 'rtl' : 'ltr'}>
+    <div className="flex h-screen w-screen font-sans bg-sky-50 text-slate-800 overflow-hidden" dir={dir}>
       {/* Loading Overlay */}
       {isLoadingArtifact && (
         <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-50 flex items-center justify-center">
@@ -480,13 +837,50 @@ const App: React.FC = () => {
       )}
 
       {/* --- Left Control Panel --- */}
-      <aside className={`w-[450px] max-w-[90vw] md:max-w-[35%] h-full flex flex-col bg-white shadow-lg z-20 transform transition-transform duration-300 ease-in-out ${language === 'ar' ? 'order-1 border-r-0 border-l border-slate-200' : 'border-r border-slate-200'} ${isSidebarOpen ? 'translate-x-0' : (language === 'ar' ? 'translate-x-full' : '-translate-x-full')}`}>
+      <aside className={`w-[450px] max-w-[90vw] md:max-w-[35%] h-full flex flex-col bg-white shadow-lg z-20 transform transition-transform duration-300 ease-in-out ${dir === 'rtl' ? 'order-1 border-r-0 border-l border-slate-200' : 'border-r border-slate-200'} ${isSidebarOpen ? 'translate-x-0' : (dir === 'rtl' ? 'translate-x-full' : '-translate-x-full')}`}>
         <header className="p-6 border-b border-slate-200 flex-shrink-0 flex justify-between items-center">
           <div>
             <h1 className="text-2xl font-bold text-slate-900">{t('headerTitle')}</h1>
             <p className="text-sm text-slate-500 mt-1">{t('headerSubtitle')}</p>
+            {isArtifactLoaded && <SaveStatusIndicator status={saveStatus} onRetry={saveNow} />}
+            {pausedArtifactReport && <SaveStatusIndicator status="paused" onRetry={saveNow} onReview={handleReviewArtifact} />}
           </div>
           <div className="flex items-center space-x-1 rtl:space-x-reverse">
+            <button
+              onClick={undo}
+              disabled={!canUndo}
+              className="p-2 rounded-full text-slate-500 hover:bg-sky-100 hover:text-sky-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:text-slate-300 disabled:hover:bg-transparent disabled:cursor-not-allowed transition-colors"
+              title={undoTooltip}
+              aria-label={undoTooltip}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 rtl:-scale-x-100" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+              </svg>
+            </button>
+            <button
+              onClick={redo}
+              disabled={!canRedo}
+              className="p-2 rounded-full text-slate-500 hover:bg-sky-100 hover:text-sky-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:text-slate-300 disabled:hover:bg-transparent disabled:cursor-not-allowed transition-colors"
+              title={redoTooltip}
+              aria-label={redoTooltip}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 rtl:-scale-x-100" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+              </svg>
+            </button>
+            <button
+              onClick={isPreviewing ? handleExitPreview : handleStartPreview}
+              disabled={!isPreviewing && locations.length === 0}
+              className={`p-2 rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:text-slate-300 disabled:hover:bg-transparent disabled:cursor-not-allowed transition-colors ${isPreviewing ? 'bg-sky-600 text-white hover:bg-sky-700' : 'text-slate-500 hover:bg-sky-100 hover:text-sky-600'}`}
+              title={isPreviewing ? t('exitPreviewTooltip') : t('previewTooltip')}
+              aria-label={t('previewTooltip')}
+              aria-pressed={isPreviewing}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 rtl:-scale-x-100" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+                <path strokeLinecap="round" strokeLinejoin="round" d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </button>
             <button 
               onClick={() => setIsTourOpen(true)}
               className="p-2 rounded-full text-slate-500 hover:bg-sky-100 hover:text-sky-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 transition-colors"
@@ -501,29 +895,68 @@ const App: React.FC = () => {
           </div>
         </header>
 
-        <div className="flex-1 overflow-y-auto p-6 space-y-8 bg-sky-50">
-          <div ref={formRef} className="scroll-mt-4" id="location-form-wrapper">
-            <LocationForm
-              selectedCoords={selectedCoords}
-              selectedCountry={selectedCountry}
-              isGeocoding={isGeocoding}
-              onSave={handleSaveLocation}
-              editingLocation={editingLocation}
-              onCancelEdit={handleCancelEdit}
+        {isPreviewing ? (
+          <div className="flex-1 overflow-y-auto p-6 bg-sky-50">
+            <TourPlayer
+              key={activeTour.id}
+              tour={localizedTour}
+              onStopChange={handlePreviewStopChange}
+              onExit={handleExitPreview}
+              onMapPickChange={handleMapPickChange}
+              onQuizOverlayChange={setQuizOverlay}
             />
           </div>
-          <div id="locations-list-container">
-            <LocationsList 
-              locations={locations}
-              onDeleteLocation={handleDeleteLocation}
-              onSelectLocation={handleSelectLocation}
-              onStartEdit={handleStartEdit}
-              onReorder={handleReorderLocations}
-            />
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-8 bg-sky-50">
+            <div id="tour-switcher">
+              <TourSwitcher
+                tours={tours}
+                activeTourId={activeTour.id}
+                onSelectTour={handleSelectTour}
+                onCreateTour={handleCreateTour}
+                onUpdateTour={handleUpdateTour}
+                onDeleteTour={handleDeleteTour}
+                contentLanguage={contentLanguage}
+                onContentLanguageChange={setSelectedContentLanguage}
+              />
+            </div>
+            <div ref={formRef} className="scroll-mt-4" id="location-form-wrapper">
+              <LocationForm
+                selectedCoords={selectedCoords}
+                selectedCountry={selectedCountry}
+                isGeocoding={isGeocoding}
+                onSave={handleSaveLocation}
+                editingLocation={editingLocation}
+                onCancelEdit={handleCancelEdit}
+                onMapPickChange={handleMapPickChange}
+                onQuizOverlayChange={setQuizOverlay}
+                fallbackLanguage={activeTour.language}
+                translationLanguages={activeTour.translationLanguages}
+                contentLanguage={contentLanguage}
+              />
+            </div>
+            <div id="locations-list-container">
+              <LocationsList 
+                locations={locations}
+                onDeleteLocation={handleDeleteLocation}
+                onSelectLocation={handleSelectLocation}
+                onStartEdit={handleStartEdit}
+                onReorder={handleReorderLocations}
+                routingProfile={activeTour.routingProfile}
+                onRoutingProfileChange={handleRoutingProfileChange}
+                onTransferLocation={tours.length > 1 ? setTransferringLocation : undefined}
+                route={route}
+                routeStatus={routeStatus}
+                routeWaypoints={routeWaypoints}
+                contentLanguage={contentLanguage}
+                fallbackLanguage={activeTour.language}
+                translationLanguages={activeTour.translationLanguages}
+              />
+            </div>
           </div>
-        </div>
+        )}
         
-        <footer className="p-6 border-t border-slate-200 flex-shrink-0 bg-white">
+        <footer className={`p-6 border-t border-slate-200 flex-shrink-0 bg-white ${isPreviewing ? 'hidden' : ''}`}>
           <div className="flex items-center space-x-3 rtl:space-x-reverse">
              <button
               onClick={handleImport}
@@ -535,6 +968,11 @@ const App: React.FC = () => {
               </svg>
               {t('importButton')}
             </button>
+            <ExportMenu
+              formats={exportFormats}
+              onExport={handleExport}
+              disabled={locations.length === 0}
+            />
             <button
               onClick={handleSave}
               className="flex-1 inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white focus:ring-green-500 disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed transition-colors"
@@ -555,43 +993,101 @@ const App: React.FC = () => {
         <button
           onClick={() => setIsSidebarOpen(!isSidebarOpen)}
           className="absolute top-4 z-[1000] bg-white/80 backdrop-blur-sm p-2 rounded-full shadow-lg text-slate-700 hover:bg-white hover:text-sky-600 focus:outline-none focus:ring-2 focus:ring-sky-500 transition-all duration-200"
-          style={language === 'ar' ? { right: '1rem' } : { left: '1rem' }}
+          style={dir === 'rtl' ? { right: '1rem' } : { left: '1rem' }}
           title={t('toggleSidebarTooltip')}
           aria-label={t('toggleSidebarTooltip')}
           aria-expanded={isSidebarOpen}
         >
           {isSidebarOpen ? (
-            language === 'ar' ? (
+            dir === 'rtl' ? (
               <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" /></svg>
             ) : (
               <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" /></svg>
             )
           ) : (
-             language === 'ar' ? (
+             dir === 'rtl' ? (
               <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" /></svg>
             ) : (
               <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" /></svg>
             )
           )}
         </button>
+        {!isPreviewing && (
+          <button
+            onClick={() => setIsMoveMode(!isMoveMode)}
+            className={`absolute top-16 z-[1000] p-2 rounded-full shadow-lg focus:outline-none focus:ring-2 focus:ring-sky-500 transition-all duration-200 ${isMoveMode ? 'bg-sky-600 text-white hover:bg-sky-700' : 'bg-white/80 backdrop-blur-sm text-slate-700 hover:bg-white hover:text-sky-600'}`}
+            style={dir === 'rtl' ? { right: '1rem' } : { left: '1rem' }}
+            title={isMoveMode ? t('moveModeOnTooltip') : t('moveModeOffTooltip')}
+            aria-label={t('moveModeOffTooltip')}
+            aria-pressed={isMoveMode}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 3v18M3 12h18M12 3l-3 3m3-3l3 3m-3 15l-3-3m3 3l3-3M3 12l3-3m-3 3l3 3m15-3l-3-3m3 3l-3 3" />
+            </svg>
+          </button>
+        )}
         <MapSearchControl 
           onSearch={handleSearch} 
           onPlaceSelect={handlePlaceSelect} 
           isSearching={isSearching} 
         />
         <MapComponent
-          locations={locations}
+          locations={localizedTour.locations}
           selectedCoords={selectedCoords}
-          onMapClick={handleMapClick}
+          onMapClick={mapPick ? mapPick.onPick : isPreviewing ? ignoreMapClick : handleMapClick}
           viewCoords={viewCoords}
           viewZoom={viewZoom}
           boundsToFit={boundsToFit}
           onBoundsFitted={handleBoundsFitted}
           editingLocation={editingLocation}
+          selectedLocationId={selectedLocationId}
           isSidebarOpen={isSidebarOpen}
+          isMoveMode={isMoveMode}
+          onMoveLocation={handleMoveLocation}
+          route={route}
+          baseLayerId={activeTour.baseLayer}
+          quizOverlay={quizOverlay}
         />
+        {mapPick && (
+          <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-[1000] px-4 py-2 rounded-full shadow-lg bg-violet-600 text-white text-sm font-medium pointer-events-none" role="status">
+            {t('mapPickHint')}
+          </div>
+        )}
       </main>
 
+      {pendingImport && (
+        <ImportReportDialog
+          report={pendingImport.report}
+          onResolve={handleResolveImport}
+          onCancel={handleCancelImport}
+        />
+      )}
+
+      {transferringLocation && (
+        <TransferLocationDialog
+          location={transferringLocation}
+          tours={tours.filter(tour => tour.id !== activeTour.id)}
+          onTransfer={handleTransferLocation}
+          onCancel={() => setTransferringLocation(null)}
+        />
+      )}
+
+      {countryLookup && (
+        <CountryLookupDialog
+          done={countryLookup.done}
+          total={countryLookup.total}
+          onSkip={() => countryLookupRef.current?.abort()}
+        />
+      )}
+
+      {csvImportText !== null && (
+        <CsvImportWizard
+          text={csvImportText}
+          onImport={handleCsvImport}
+          onCancel={() => setCsvImportText(null)}
+        />
+      )}
+
       {isTourOpen && (
         <TourGuide
           steps={tourSteps}
@@ -0,0 +1,103 @@
+import React, { useMemo, useState, useCallback } from 'react';
+import { Marker, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import Supercluster from 'supercluster';
+import type { Location } from '../types';
+
+interface ClusteredMarkersProps {
+  locations: Location[];
+  renderMarker: (location: Location) => React.ReactNode;
+}
+
+interface LocationPointProperties {
+  index: number;
+}
+
+interface ViewState {
+  bbox: [number, number, number, number];
+  zoom: number;
+}
+
+// Pixel radius within which points merge into a cluster.
+const CLUSTER_RADIUS = 60;
+// Past this zoom every location gets its own marker.
+const CLUSTER_MAX_ZOOM = 16;
+// Markers just outside the viewport are kept so panning doesn't pop them in.
+const VIEWPORT_PADDING = 0.25;
+
+const getViewState = (map: L.Map): ViewState => {
+  const bounds = map.getBounds().pad(VIEWPORT_PADDING);
+  return {
+    bbox: [
+      Math.max(-180, bounds.getWest()),
+      Math.max(-85, bounds.getSouth()),
+      Math.min(180, bounds.getEast()),
+      Math.min(85, bounds.getNorth()),
+    ],
+    zoom: Math.round(map.getZoom()),
+  };
+};
+
+// Badge icons are shared between clusters of the same count.
+const clusterIcons = new Map<number, L.DivIcon>();
+const getClusterIcon = (count: number): L.DivIcon => {
+  let icon = clusterIcons.get(count);
+  if (!icon) {
+    const size = count < 10 ? 34 : count < 100 ? 40 : count < 1000 ? 48 : 56;
+    icon = L.divIcon({
+      html: `<span>${count}</span>`,
+      className: 'location-cluster',
+      iconSize: [size, size],
+    });
+    clusterIcons.set(count, icon);
+  }
+  return icon;
+};
+
+// Groups nearby locations into count badges and only renders markers inside
+// (or near) the viewport, so the map stays responsive with thousands of points.
+const ClusteredMarkers: React.FC<ClusteredMarkersProps> = ({ locations, renderMarker }) => {
+  const map = useMap();
+  const [view, setView] = useState<ViewState>(() => getViewState(map));
+
+  const updateView = useCallback(() => setView(getViewState(map)), [map]);
+  useMapEvents({ moveend: updateView, zoomend: updateView });
+
+  const index = useMemo(() => {
+    const cluster = new Supercluster<LocationPointProperties>({ radius: CLUSTER_RADIUS, maxZoom: CLUSTER_MAX_ZOOM });
+    cluster.load(locations.map((loc, i) => ({
+      type: 'Feature',
+      properties: { index: i },
+      geometry: { type: 'Point', coordinates: [loc.coordinates[1], loc.coordinates[0]] },
+    })));
+    return cluster;
+  }, [locations]);
+
+  const features = useMemo(() => index.getClusters(view.bbox, view.zoom), [index, view]);
+
+  return (
+    <>
+      {features.map(feature => {
+        const [lon, lat] = feature.geometry.coordinates;
+        const properties = feature.properties as Supercluster.ClusterProperties | LocationPointProperties;
+        if ('cluster' in properties && properties.cluster) {
+          const clusterId = properties.cluster_id;
+          return (
+            <Marker
+              key={`cluster-${clusterId}`}
+              position={[lat, lon]}
+              icon={getClusterIcon(properties.point_count)}
+              eventHandlers={{
+                click: () => map.flyTo([lat, lon], Math.min(index.getClusterExpansionZoom(clusterId), map.getMaxZoom())),
+              }}
+            />
+          );
+        }
+        const location = locations[(properties as LocationPointProperties).index];
+        return location ? <React.Fragment key={location.id}>{renderMarker(location)}</React.Fragment> : null;
+      })}
+    </>
+  );
+};
+
+export default ClusteredMarkers;
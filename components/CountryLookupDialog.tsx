@@ -0,0 +1,40 @@
+import React from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface CountryLookupDialogProps {
+  done: number;
+  total: number;
+  // Imports the locations as they are, leaving the remaining countries empty.
+  onSkip: () => void;
+}
+
+const CountryLookupDialog: React.FC<CountryLookupDialogProps> = ({ done, total, onSkip }) => {
+  const { t } = useLanguage();
+
+  const buttonClass = "inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-[2000] flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="country-lookup-title">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md flex flex-col">
+        <div className="p-6 border-b border-slate-200">
+          <h2 id="country-lookup-title" className="text-lg font-semibold text-slate-900">{t('countryLookupTitle')}</h2>
+          <p className="text-sm text-slate-600 mt-1">{t('countryLookupSubtitle')}</p>
+        </div>
+
+        <div className="p-6 flex items-center text-sm font-medium text-slate-700" role="status">
+          <svg className="animate-spin ltr:mr-2 rtl:ml-2 h-4 w-4 text-sky-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+          </svg>
+          {t('countryLookupProgress', { done, total })}
+        </div>
+
+        <div className="p-6 border-t border-slate-200 flex justify-end">
+          <button type="button" onClick={onSkip} className={buttonClass}>{t('countryLookupSkip')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CountryLookupDialog;
@@ -0,0 +1,280 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { TranslationKey } from '../locales';
+import type { Location } from '../types';
+import {
+  parseCsv,
+  guessColumnMapping,
+  mapCsvRows,
+  CSV_FIELDS,
+  type CsvColumnMapping,
+  type CsvField,
+  type CsvRowDraft,
+} from '../utils/csv';
+import { toImportedLocation } from '../utils/interchange';
+import { geocoder } from '../services/geocoding';
+import { isAbortError } from '../utils/abort';
+
+export type CsvImportMode = 'append' | 'replace';
+
+interface CsvImportWizardProps {
+  text: string;
+  onImport: (locations: Location[], mode: CsvImportMode) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROW_COUNT = 5;
+
+const FIELD_LABEL_KEYS: { [field in CsvField]: TranslationKey } = {
+  title: 'titleLabel',
+  lat: 'csvFieldLat',
+  lon: 'csvFieldLon',
+  description: 'descriptionLabel',
+  image: 'imageUrlLabel',
+  video: 'videoUrlLabel',
+  audio: 'audioUrlLabel',
+  country: 'countryLabel',
+  address: 'csvFieldAddress',
+};
+
+const CsvImportWizard: React.FC<CsvImportWizardProps> = ({ text, onImport, onCancel }) => {
+  const { t, language } = useLanguage();
+  const rows = useMemo(() => parseCsv(text), [text]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => guessColumnMapping(rows[0] ?? []));
+  const [step, setStep] = useState<'map' | 'review'>('map');
+  const [drafts, setDrafts] = useState<CsvRowDraft[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [mode, setMode] = useState<CsvImportMode>('append');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const headers = hasHeader && rows[0]
+    ? Array.from({ length: columnCount }, (_, i) => rows[0][i] || t('csvColumn', { number: i + 1 }))
+    : Array.from({ length: columnCount }, (_, i) => t('csvColumn', { number: i + 1 }));
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  const canContinue = mapping.title !== null && ((mapping.lat !== null && mapping.lon !== null) || mapping.address !== null);
+
+  // Without a header row there are no column names to guess from.
+  const handleHasHeaderChange = (value: boolean) => {
+    setHasHeader(value);
+    setMapping(guessColumnMapping(value ? rows[0] ?? [] : []));
+  };
+
+  const handleMappingChange = (field: CsvField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? null : Number(value) }));
+  };
+
+  const handleReview = async () => {
+    // Spreadsheet row numbers are 1-based and include the header row.
+    const mapped = mapCsvRows(dataRows, mapping, hasHeader ? 2 : 1);
+    setDrafts(mapped);
+    setStep('review');
+
+    // Rows with an address are placed by it; rows placed by coordinates but
+    // without a country have it looked up from the point.
+    const toGeocode = mapped.filter(draft => draft.errors.length === 0
+      && (draft.coordinates ? !draft.country : draft.address));
+    if (toGeocode.length === 0) return;
+
+    // Requests are queued by the geocoder's rate limiter, so they go out one at a time.
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setProgress({ done: 0, total: toGeocode.length });
+    for (let i = 0; i < toGeocode.length; i++) {
+      const draft = toGeocode[i];
+      let update: Partial<CsvRowDraft>;
+      try {
+        if (draft.coordinates) {
+          const place = await geocoder.reverse(draft.coordinates, { language, signal: controller.signal });
+          update = { country: place?.country ?? '' };
+        } else {
+          const [place] = await geocoder.forward(draft.address, { language, limit: 1, signal: controller.signal });
+          update = place
+            ? {
+                coordinates: [place.lat, place.lon],
+                country: draft.country || place.country || '',
+              }
+            : { errors: ['csvError_geocode'] };
+        }
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error('Geocoding failed for row', draft.rowNumber, error);
+        // A missing country doesn't stop a row that already has its coordinates.
+        update = draft.coordinates ? {} : { errors: ['csvError_geocode'] };
+      }
+      setDrafts(prev => prev.map(d => d.rowNumber === draft.rowNumber ? { ...d, ...update } : d));
+      setProgress({ done: i + 1, total: toGeocode.length });
+    }
+    abortControllerRef.current = null;
+    setProgress(null);
+  };
+
+  const importableLocations = useMemo(() => drafts.flatMap((draft, index) => {
+    if (draft.errors.length > 0 || !draft.coordinates) return [];
+    const location = toImportedLocation({
+      title: draft.title,
+      coordinates: draft.coordinates,
+      description: draft.description,
+      image: draft.image,
+      video: draft.video,
+      audio: draft.audio,
+      country: draft.country,
+    }, index);
+    return location ? [location] : [];
+  }), [drafts]);
+
+  const isGeocoding = progress !== null;
+  const errorCount = drafts.filter(draft => draft.errors.length > 0).length;
+
+  const buttonClass = "inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500";
+  const primaryButtonClass = "inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-sky-600 hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-[2000] flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="csv-wizard-title">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200">
+          <h2 id="csv-wizard-title" className="text-lg font-semibold text-slate-900">{t('csvWizardTitle')}</h2>
+          <p className="text-sm text-slate-600 mt-1">
+            {step === 'map' ? t('csvWizardMapSubtitle') : t('csvWizardReviewSubtitle')}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {rows.length === 0 ? (
+            <p className="text-sm text-slate-600">{t('csvWizardEmpty')}</p>
+          ) : step === 'map' ? (
+            <>
+              <label className="flex items-center text-sm text-slate-700">
+                <input type="checkbox" checked={hasHeader} onChange={(e) => handleHasHeaderChange(e.target.checked)} className="h-4 w-4 text-sky-600 border-slate-300 rounded focus:ring-sky-500" />
+                <span className="ltr:ml-2 rtl:mr-2">{t('csvWizardHasHeader')}</span>
+              </label>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {CSV_FIELDS.map(field => (
+                  <div key={field}>
+                    <label htmlFor={`csv-map-${field}`} className="block text-sm font-medium text-slate-700">{t(FIELD_LABEL_KEYS[field])}</label>
+                    <select
+                      id={`csv-map-${field}`}
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                      className="mt-1 block w-full ltr:pl-3 rtl:pr-3 py-2 bg-white text-slate-900 text-sm border border-slate-300 focus:outline-none focus:ring-sky-500 focus:border-sky-500 rounded-md"
+                    >
+                      <option value="">{t('csvWizardNotMapped')}</option>
+                      {headers.map((header, i) => <option key={i} value={i}>{header}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto border border-slate-200 rounded-md">
+                <table className="min-w-full text-xs text-slate-700">
+                  <thead className="bg-slate-50">
+                    <tr>{headers.map((header, i) => <th key={i} className="px-3 py-2 ltr:text-left rtl:text-right font-semibold whitespace-nowrap">{header}</th>)}</tr>
+                  </thead>
+                  <tbody>
+                    {dataRows.slice(0, PREVIEW_ROW_COUNT).map((row, rIndex) => (
+                      <tr key={rIndex} className="border-t border-slate-100">
+                        {headers.map((_, cIndex) => <td key={cIndex} className="px-3 py-2 whitespace-nowrap max-w-[12rem] truncate">{row[cIndex] ?? ''}</td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-slate-500">{t('csvWizardRowCount', { count: dataRows.length })}</p>
+            </>
+          ) : (
+            <>
+              {progress && (
+                <div className="flex items-center text-sm font-medium text-slate-700">
+                  <svg className="animate-spin ltr:mr-2 rtl:ml-2 h-4 w-4 text-sky-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  {t('csvWizardGeocoding', { done: progress.done, total: progress.total })}
+                </div>
+              )}
+              <p className="text-sm text-slate-700">
+                {t('csvWizardReviewSummary', { valid: importableLocations.length, errors: errorCount })}
+              </p>
+              <div className="overflow-x-auto border border-slate-200 rounded-md">
+                <table className="min-w-full text-xs text-slate-700">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-3 py-2 ltr:text-left rtl:text-right font-semibold">{t('csvWizardRow')}</th>
+                      <th className="px-3 py-2 ltr:text-left rtl:text-right font-semibold">{t('titleLabel')}</th>
+                      <th className="px-3 py-2 ltr:text-left rtl:text-right font-semibold">{t('coordinatesLabel')}</th>
+                      <th className="px-3 py-2 ltr:text-left rtl:text-right font-semibold">{t('csvWizardStatus')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {drafts.map(draft => (
+                      <tr key={draft.rowNumber} className={`border-t border-slate-100 ${draft.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                        <td className="px-3 py-2">{draft.rowNumber}</td>
+                        <td className="px-3 py-2 max-w-[14rem] truncate">{draft.title}</td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {draft.coordinates
+                            ? `${draft.coordinates[0].toFixed(4)}, ${draft.coordinates[1].toFixed(4)}`
+                            : draft.address}
+                        </td>
+                        <td className="px-3 py-2">
+                          {draft.errors.length > 0
+                            ? <span className="text-red-700">{draft.errors.map(error => t(error)).join(' ')}</span>
+                            : draft.coordinates
+                              ? <span className="text-green-700">{t('csvWizardReady')}</span>
+                              : <span className="text-slate-500">{t('csvWizardPending')}</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <fieldset className="flex items-center space-x-4 rtl:space-x-reverse text-sm text-slate-700">
+                <label className="flex items-center">
+                  <input type="radio" name="csv-import-mode" checked={mode === 'append'} onChange={() => setMode('append')} className="h-4 w-4 text-sky-600 border-slate-300 focus:ring-sky-500" />
+                  <span className="ltr:ml-2 rtl:mr-2">{t('csvWizardModeAppend')}</span>
+                </label>
+                <label className="flex items-center">
+                  <input type="radio" name="csv-import-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} className="h-4 w-4 text-sky-600 border-slate-300 focus:ring-sky-500" />
+                  <span className="ltr:ml-2 rtl:mr-2">{t('csvWizardModeReplace')}</span>
+                </label>
+              </fieldset>
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-200 flex flex-wrap gap-3 justify-end">
+          <button type="button" onClick={onCancel} className={buttonClass}>{t('cancelButton')}</button>
+          {step === 'map' ? (
+            <button type="button" onClick={handleReview} disabled={!canContinue || dataRows.length === 0} className={primaryButtonClass}>
+              {t('tourNextButton')}
+            </button>
+          ) : (
+            <>
+              <button type="button" onClick={() => setStep('map')} disabled={isGeocoding} className={buttonClass}>
+                {t('tourBackButton')}
+              </button>
+              <button
+                type="button"
+                onClick={() => onImport(importableLocations, mode)}
+                disabled={isGeocoding || importableLocations.length === 0}
+                className={primaryButtonClass}
+              >
+                {t('csvWizardImportButton', { count: importableLocations.length })}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportWizard;
@@ -0,0 +1,80 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+
+export interface ExportFormat {
+  id: string;
+  label: string;
+}
+
+interface ExportMenuProps {
+  formats: ExportFormat[];
+  onExport: (formatId: string) => void;
+  disabled: boolean;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ formats, onExport, disabled }) => {
+  const { t } = useLanguage();
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsMenuOpen(false);
+      }
+    };
+
+    if (isMenuOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isMenuOpen]);
+
+  const handleSelect = (formatId: string) => {
+    setIsMenuOpen(false);
+    onExport(formatId);
+  };
+
+  return (
+    <div className="relative flex-1" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setIsMenuOpen(prev => !prev)}
+        disabled={disabled}
+        aria-haspopup="true"
+        aria-expanded={isMenuOpen}
+        className="w-full inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white focus:ring-sky-500 disabled:bg-slate-100 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 ltr:mr-2 rtl:ml-2" viewBox="0 0 20 20" fill="currentColor">
+          <path d="M10.75 13.25a.75.75 0 01-1.5 0V4.636L6.295 7.765a.75.75 0 11-1.09-1.03l4.25-4.5a.75.75 0 011.09 0l4.25 4.5a.75.75 0 11-1.09 1.03L10.75 4.636v8.614z" />
+          <path d="M3.5 12.75a.75.75 0 00-1.5 0v2.5A2.75 2.75 0 004.75 18h10.5A2.75 2.75 0 0018 15.25v-2.5a.75.75 0 00-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5z" />
+        </svg>
+        {t('exportButton')}
+      </button>
+      {isMenuOpen && (
+        <div
+          className="absolute bottom-full mb-2 w-full origin-bottom rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none z-10"
+          role="menu"
+          aria-orientation="vertical"
+        >
+          {formats.map(format => (
+            <button
+              key={format.id}
+              type="button"
+              onClick={() => handleSelect(format.id)}
+              className="w-full ltr:text-left rtl:text-right px-4 py-2 text-sm text-slate-700 hover:bg-slate-100 hover:text-slate-900"
+              role="menuitem"
+            >
+              {format.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
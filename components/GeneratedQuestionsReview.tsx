@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import type { Question, QuestionType } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { TranslationKey } from '../locales';
+import { isGeneratedQuestionValid } from '../utils/quizGeneration';
+import OrderingEditor from './OrderingEditor';
+import MatchingEditor from './MatchingEditor';
+
+const inputClass = "block w-full px-3 py-1.5 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500";
+
+const TYPE_LABEL_KEYS: { [type in QuestionType]: TranslationKey } = {
+  short_answer: 'questionTypeShortAnswer',
+  true_false: 'questionTypeTrueFalse',
+  multiple_choice: 'questionTypeMultipleChoice',
+  multi_select: 'questionTypeMultiSelect',
+  ordering: 'questionTypeOrdering',
+  matching: 'questionTypeMatching',
+  map_location: 'questionTypeMapLocation',
+};
+
+const isCorrectOption = (question: Question, option: string): boolean =>
+  question.type === 'multi_select' ? (question.answers ?? []).includes(option) : question.answer === option;
+
+// Renames an option along with any answer that points at it.
+const renameOption = (question: Question, index: number, value: string): Question => {
+  const previous = question.options?.[index];
+  return {
+    ...question,
+    options: question.options?.map((option, i) => (i === index ? value : option)),
+    answer: question.answer === previous && question.type === 'multiple_choice' ? value : question.answer,
+    answers: question.answers?.map(answer => (answer === previous ? value : answer)),
+  };
+};
+
+const toggleCorrect = (question: Question, option: string): Question => {
+  if (question.type !== 'multi_select') return { ...question, answer: option };
+  const answers = question.answers ?? [];
+  return { ...question, answers: answers.includes(option) ? answers.filter(answer => answer !== option) : [...answers, option] };
+};
+
+interface ProposalProps {
+  question: Question;
+  onChange: (question: Question) => void;
+}
+
+const ProposalAnswer: React.FC<{ question: Question }> = ({ question: q }) => {
+  const { t } = useLanguage();
+  switch (q.type) {
+    case 'multiple_choice':
+    case 'multi_select':
+      return (
+        <ul className="space-y-0.5">
+          {(q.options ?? []).map((option, index) => (
+            <li key={index} className={isCorrectOption(q, option) ? 'font-semibold text-green-700' : ''}>
+              {isCorrectOption(q, option) ? '✓ ' : '• '}{option}
+            </li>
+          ))}
+        </ul>
+      );
+    case 'true_false':
+      return <p className="font-semibold text-green-700">✓ {q.answer === 'true' ? t('quizTrue') : t('quizFalse')}</p>;
+    case 'ordering':
+      return <ol className="list-decimal list-inside space-y-0.5">{(q.items ?? []).map((item, index) => <li key={index}>{item}</li>)}</ol>;
+    case 'matching':
+      return <ul className="space-y-0.5">{(q.pairs ?? []).map((pair, index) => <li key={index}>{pair.prompt} → {pair.match}</li>)}</ul>;
+    default:
+      return <p className="font-semibold text-green-700">✓ {q.answer}</p>;
+  }
+};
+
+const ProposalEditor: React.FC<ProposalProps> = ({ question: q, onChange }) => {
+  const { t } = useLanguage();
+  return (
+    <div className="space-y-3">
+      <input type="text" value={q.text} onChange={(e) => onChange({ ...q, text: e.target.value })} aria-label={t('questionTextLabel')} className={inputClass} />
+      {(q.type === 'multiple_choice' || q.type === 'multi_select') && (
+        <div className="space-y-2">
+          {(q.options ?? []).map((option, index) => (
+            <div key={index} className="flex items-center space-x-2 rtl:space-x-reverse">
+              <button type="button" onClick={() => onChange(toggleCorrect(q, option))} title={t('markAsCorrectAriaLabel')} aria-pressed={isCorrectOption(q, option)} className={`p-1 rounded-full ${isCorrectOption(q, option) ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-400 hover:bg-green-100 hover:text-green-600'}`}>
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg>
+              </button>
+              <input type="text" value={option} onChange={(e) => onChange(renameOption(q, index, e.target.value))} className={inputClass} />
+            </div>
+          ))}
+        </div>
+      )}
+      {q.type === 'true_false' && (
+        <div className="flex items-center space-x-4 rtl:space-x-reverse">
+          <label className="flex items-center"><input type="radio" name={`proposal-answer-${q.id}`} checked={q.answer === 'true'} onChange={() => onChange({ ...q, answer: 'true' })} className="focus:ring-sky-500 h-4 w-4 text-sky-600 border-slate-300" /> <span className="ltr:ml-2 rtl:mr-2 text-sm">{t('quizTrue')}</span></label>
+          <label className="flex items-center"><input type="radio" name={`proposal-answer-${q.id}`} checked={q.answer === 'false'} onChange={() => onChange({ ...q, answer: 'false' })} className="focus:ring-sky-500 h-4 w-4 text-sky-600 border-slate-300" /> <span className="ltr:ml-2 rtl:mr-2 text-sm">{t('quizFalse')}</span></label>
+        </div>
+      )}
+      {q.type === 'short_answer' && (
+        <input type="text" value={q.answer} onChange={(e) => onChange({ ...q, answer: e.target.value })} aria-label={t('answerLabel')} className={inputClass} />
+      )}
+      {q.type === 'ordering' && <OrderingEditor items={q.items ?? []} onChange={(items) => onChange({ ...q, items })} />}
+      {q.type === 'matching' && <MatchingEditor pairs={q.pairs ?? []} onChange={(pairs) => onChange({ ...q, pairs })} />}
+      <div>
+        <label htmlFor={`proposal-explanation-${q.id}`} className="block text-xs text-slate-500">{t('explanationLabel')}</label>
+        <textarea id={`proposal-explanation-${q.id}`} rows={2} value={q.explanation ?? ''} onChange={(e) => onChange({ ...q, explanation: e.target.value || undefined })} className={`mt-1 ${inputClass}`} />
+      </div>
+    </div>
+  );
+};
+
+interface GeneratedQuestionsReviewProps {
+  questions: Question[];
+  onChange: (questions: Question[]) => void;
+  // Adds questions to the quiz; they are taken off the review list.
+  onAccept: (questions: Question[]) => void;
+}
+
+// Questions proposed by the AI, waiting for the author to accept, edit or
+// discard each before it joins the quiz.
+const GeneratedQuestionsReview: React.FC<GeneratedQuestionsReviewProps> = ({ questions, onChange, onAccept }) => {
+  const { t } = useLanguage();
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const replace = (question: Question) => onChange(questions.map(q => (q.id === question.id ? question : q)));
+  const discard = (id: string) => onChange(questions.filter(q => q.id !== id));
+
+  const accept = (accepted: Question[]) => {
+    const incomplete = accepted.find(q => !isGeneratedQuestionValid(q));
+    if (incomplete) {
+      setEditingId(incomplete.id);
+      alert(t('generatedQuestionIncompleteAlert'));
+      return;
+    }
+    onChange(questions.filter(q => !accepted.includes(q)));
+    onAccept(accepted);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="p-4 border border-violet-200 bg-violet-50/50 rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm font-medium text-violet-900">{t('generatedQuestionsTitle', { count: questions.length })}</p>
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={() => accept(questions)} className="text-sm font-medium text-sky-600 hover:text-sky-800">{t('generatedQuestionsAcceptAll')}</button>
+          <button type="button" onClick={() => onChange([])} className="text-sm font-medium text-red-600 hover:text-red-800">{t('generatedQuestionsDiscardAll')}</button>
+        </div>
+      </div>
+      {questions.map(q => (
+        <div key={q.id} className="p-3 bg-white border border-slate-200 rounded-md space-y-2">
+          <p className="text-xs font-medium uppercase tracking-wide text-slate-400">{t(TYPE_LABEL_KEYS[q.type])}</p>
+          {editingId === q.id ? (
+            <ProposalEditor question={q} onChange={replace} />
+          ) : (
+            <div className="text-sm text-slate-700 space-y-1">
+              <p className="font-semibold text-slate-900">{q.text}</p>
+              <ProposalAnswer question={q} />
+              {q.explanation && <p className="text-xs text-slate-500 italic">{q.explanation}</p>}
+            </div>
+          )}
+          <div className="flex justify-end gap-3 pt-1">
+            <button type="button" onClick={() => discard(q.id)} className="text-sm font-medium text-slate-500 hover:text-red-600">{t('generatedQuestionDiscard')}</button>
+            <button type="button" onClick={() => setEditingId(editingId === q.id ? null : q.id)} className="text-sm font-medium text-slate-600 hover:text-slate-900">
+              {editingId === q.id ? t('generatedQuestionDoneEditing') : t('generatedQuestionEdit')}
+            </button>
+            <button type="button" onClick={() => accept([q])} className="text-sm font-semibold text-sky-600 hover:text-sky-800">{t('generatedQuestionAccept')}</button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default GeneratedQuestionsReview;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import {
+  getInvalidEntries,
+  type ReportResolution,
+  type ReportResolver,
+  type ValidationReport,
+  type ValidationReportEntry,
+} from '../utils/artifactSchema';
+
+const entryKey = (entry: ValidationReportEntry): string => `${entry.tourIndex}-${entry.index}`;
+
+interface ImportReportDialogProps {
+  report: ValidationReport;
+  onResolve: (resolver: ReportResolver) => void;
+  onCancel: () => void;
+}
+
+const ImportReportDialog: React.FC<ImportReportDialogProps> = ({ report, onResolve, onCancel }) => {
+  const { t } = useLanguage();
+  const invalidEntries = getInvalidEntries(report);
+  const validCount = report.entries.length - invalidEntries.length;
+  // Fixable entries are fixed unless the author chooses to drop them.
+  const [choices, setChoices] = useState<{ [key: string]: ReportResolution }>({});
+  const choiceFor = (entry: ValidationReportEntry): ReportResolution => choices[entryKey(entry)] ?? 'fix';
+  const keptCount = validCount + invalidEntries.filter(entry => entry.repaired && choiceFor(entry) === 'fix').length;
+  const hasDocumentErrors = report.documentErrors.length > 0;
+  const hasSeveralTours = report.tours.length > 1;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-[2000] flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="import-report-title">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200">
+          <h2 id="import-report-title" className="text-lg font-semibold text-slate-900">{t('importReportTitle')}</h2>
+          <p className="text-sm text-slate-600 mt-1">
+            {hasDocumentErrors
+              ? t('importError_validation')
+              : t('importReportSummary', { valid: validCount, total: report.entries.length })}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {report.documentErrors.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {report.documentErrors.map((error, i) => (
+                <li key={i} className="text-red-700">
+                  <code className="font-mono">{error.path}</code>: {t('importReportExpected', { expected: error.expected, actual: error.actual })}
+                </li>
+              ))}
+            </ul>
+          )}
+          {invalidEntries.map(entry => (
+            <div key={entryKey(entry)} className="p-3 border border-red-200 bg-red-50 rounded-md">
+              <div className="flex justify-between items-center gap-3">
+                <h3 className="text-sm font-semibold text-slate-800">
+                  {hasSeveralTours && (
+                    <span className="block text-xs font-medium text-slate-500">
+                      {report.tours[entry.tourIndex]?.title || t('untitledTour')}
+                    </span>
+                  )}
+                  {t('importReportLocation', { number: entry.index + 1, title: entry.title || t('importReportUntitled') })}
+                </h3>
+                {entry.repaired ? (
+                  <select
+                    value={choiceFor(entry)}
+                    onChange={(e) => setChoices(prev => ({ ...prev, [entryKey(entry)]: e.target.value as ReportResolution }))}
+                    aria-label={t('importReportChoiceLabel')}
+                    className="flex-shrink-0 px-2 py-1 bg-white border border-slate-300 rounded-md text-xs shadow-sm text-slate-900 focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+                  >
+                    <option value="fix">{t('importReportFixChoice')}</option>
+                    <option value="drop">{t('importReportDropChoice')}</option>
+                  </select>
+                ) : (
+                  <span className="flex-shrink-0 text-xs font-medium px-2 py-0.5 rounded-full bg-red-100 text-red-800">
+                    {t('importReportNotFixable')}
+                  </span>
+                )}
+              </div>
+              <ul className="mt-2 space-y-1 text-xs text-slate-700">
+                {entry.errors.map((error, i) => (
+                  <li key={i}>
+                    <code className="font-mono text-red-700">{error.path || '—'}</code>: {t('importReportExpected', { expected: error.expected, actual: error.actual })}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 border-t border-slate-200 flex flex-wrap gap-3 justify-end">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500"
+          >
+            {t('cancelButton')}
+          </button>
+          {!hasDocumentErrors && (
+            <>
+              <button
+                type="button"
+                onClick={() => onResolve('drop')}
+                disabled={validCount === 0}
+                className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-100 disabled:text-slate-400 disabled:cursor-not-allowed"
+              >
+                {t('importReportDropButton', { count: invalidEntries.length })}
+              </button>
+              <button
+                type="button"
+                onClick={() => onResolve(choiceFor)}
+                disabled={keptCount === 0}
+                className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-sky-600 hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+              >
+                {t('importReportImportButton', { count: keptCount })}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReportDialog;
@@ -1,24 +1,78 @@
-import React from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { useLanguage } from '../contexts/LanguageContext';
+import { languageName } from '../utils/contentLanguages';
 
+// Lists every locale that has a catalog in `locales/`, each in its own language.
 const LanguageSwitcher: React.FC = () => {
-    const { toggleLanguage, t } = useLanguage();
+    const { language, locales, setLanguage, t } = useLanguage();
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setIsMenuOpen(false);
+            }
+        };
+
+        if (isMenuOpen) {
+            document.addEventListener('mousedown', handleClickOutside);
+        }
+
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, [isMenuOpen]);
+
+    const handleSelect = (locale: string) => {
+        setLanguage(locale);
+        setIsMenuOpen(false);
+    };
 
     return (
-        <button
-            onClick={toggleLanguage}
-            className="p-2 rounded-full text-slate-500 hover:bg-sky-100 hover:text-sky-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 transition-colors"
-            title={t('toggleLanguageTooltip')}
-            aria-label={t('toggleLanguageTooltip')}
-        >
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                <path strokeLinecap="round" strokeLinejoin="round" d="M3 12a9 9 0 1018 0 9 9 0 00-18 0z" />
-                <path strokeLinecap="round" strokeLinejoin="round" d="M3.6 12h16.8" />
-                <path strokeLinecap="round" strokeLinejoin="round" d="M11.5 3a17 17 0 000 18" />
-                <path strokeLinecap="round" strokeLinejoin="round" d="M12.5 3a17 17 0 010 18" />
-            </svg>
-        </button>
+        <div className="relative" ref={containerRef}>
+            <button
+                onClick={() => setIsMenuOpen(!isMenuOpen)}
+                className="p-2 rounded-full text-slate-500 hover:bg-sky-100 hover:text-sky-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 transition-colors"
+                title={t('toggleLanguageTooltip')}
+                aria-label={t('toggleLanguageTooltip')}
+                aria-haspopup="true"
+                aria-expanded={isMenuOpen}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M3 12a9 9 0 1018 0 9 9 0 00-18 0z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M3.6 12h16.8" />
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M11.5 3a17 17 0 000 18" />
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M12.5 3a17 17 0 010 18" />
+                </svg>
+            </button>
+            {isMenuOpen && (
+                <div
+                    className="absolute top-full rtl:left-0 ltr:right-0 z-30 mt-2 w-44 rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none"
+                    role="menu"
+                    aria-orientation="vertical"
+                    tabIndex={-1}
+                >
+                    <ul role="none">
+                        {locales.map(locale => (
+                            <li key={locale} role="none">
+                                <button
+                                    onClick={() => handleSelect(locale)}
+                                    lang={locale}
+                                    className={`w-full text-start px-4 py-2 text-sm hover:bg-slate-100 hover:text-slate-900 ${locale === language ? 'font-semibold text-sky-700' : 'text-slate-700'}`}
+                                    role="menuitemradio"
+                                    aria-checked={locale === language}
+                                    tabIndex={-1}
+                                >
+                                    {languageName(locale)}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
     );
 };
 
-export default LanguageSwitcher;
\ No newline at end of file
+export default LanguageSwitcher;
@@ -1,12 +1,40 @@
 import React, { useState, useEffect, FormEvent, useRef } from 'react';
 import type { LatLngTuple } from 'leaflet';
-import type { Location, Question, QuestionType } from '../types';
+import type { Location, LocalizedContent, Question, QuestionType, MarkerIconName, MarkerColorName, MapTarget, QuizMapOverlay } from '../types';
 import { useLanguage } from '../contexts/LanguageContext';
-import { GoogleGenAI } from '@google/genai';
+import { MARKER_COLORS, MARKER_COLOR_NAMES, MARKER_ICONS, MARKER_ICON_NAMES, getMarkerColor } from '../utils/markerStyles';
+import { DEFAULT_QUESTION_POINTS, DEFAULT_TARGET_RADIUS, isQuestionComplete } from '../utils/quiz';
+import { isRtlLanguage, languageName, missingTranslations } from '../utils/contentLanguages';
+import MapTargetEditor from './MapTargetEditor';
+import OrderingEditor from './OrderingEditor';
+import MatchingEditor from './MatchingEditor';
+import MediaUpload from './MediaUpload';
+import MediaPreview from './MediaPreview';
+import { parseMediaUrl, type MediaField } from '../utils/media';
+import { probeMedia } from '../services/media';
+import { AiError, generateText, streamText } from '../services/ai';
+import { isAbortError } from '../utils/abort';
+import { GENERATED_QUIZ_SCHEMA, parseGeneratedQuiz, quizPromptValues } from '../utils/quizGeneration';
+import GeneratedQuestionsReview from './GeneratedQuestionsReview';
+import { parseTranslation, TRANSLATION_SCHEMA, translationPromptValues } from '../utils/locationTranslation';
+import TranslationReview from './TranslationReview';
 
 // Quill is loaded from a script tag in index.html
 declare const Quill: any;
 
+// Empty number inputs mean "not set".
+const parseOptionalNumber = (value: string): number | undefined => {
+  const num = parseFloat(value);
+  return Number.isFinite(num) ? num : undefined;
+};
+
+// AI content is written in the language of the tab on screen, not the
+// builder's; prompts name it in English.
+const promptLanguageName = (language: string): string =>
+  new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language;
+
+const isAiUnavailable = (error: unknown): boolean => error instanceof AiError && error.kind === 'config';
+
 interface LocationFormProps {
   selectedCoords: LatLngTuple | null;
   selectedCountry: string | null;
@@ -19,12 +47,23 @@ interface LocationFormProps {
     audio: string;
     questions: Question[];
     block_navigation: boolean;
+    markerIcon: MarkerIconName | '';
+    markerColor: MarkerColorName | '';
+    passMark: number | undefined;
+    translations: { [language: string]: LocalizedContent };
   }) => Promise<void>;
   editingLocation: Location | null;
   onCancelEdit: () => void;
+  onMapPickChange: (onPick: ((coords: LatLngTuple) => void) | null) => void;
+  onQuizOverlayChange: (overlay: QuizMapOverlay | null) => void;
+  // The tour's own language, which the required fields are written in.
+  fallbackLanguage: string;
+  translationLanguages: string[];
+  // The language tab a location opens on.
+  contentLanguage: string;
 }
 
-const LocationForm: React.FC<LocationFormProps> = ({ selectedCoords, selectedCountry, isGeocoding, onSave, editingLocation, onCancelEdit }) => {
+const LocationForm: React.FC<LocationFormProps> = ({ selectedCoords, selectedCountry, isGeocoding, onSave, editingLocation, onCancelEdit, onMapPickChange, onQuizOverlayChange, fallbackLanguage, translationLanguages, contentLanguage }) => {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [imageUrl, setImageUrl] = useState('');
@@ -32,19 +71,147 @@ const LocationForm: React.FC<LocationFormProps> = ({ selectedCoords, selectedCou
   const [audioUrl, setAudioUrl] = useState('');
   const [questions, setQuestions] = useState<Question[]>([]);
   const [blockNavigation, setBlockNavigation] = useState(false);
+  const [markerIcon, setMarkerIcon] = useState<MarkerIconName | ''>('');
+  const [markerColor, setMarkerColor] = useState<MarkerColorName | ''>('');
+  const [passMark, setPassMark] = useState('');
+  // The "find it on the map" question whose target the next map click sets.
+  const [pickingQuestionId, setPickingQuestionId] = useState<string | null>(null);
   const [isGeneratingDescription, setIsGeneratingDescription] = useState(false);
-  const { t, language } = useLanguage();
+  const [isGeneratingQuestions, setIsGeneratingQuestions] = useState(false);
+  // Aborting these stops the AI request in flight.
+  const descriptionRequest = useRef<AbortController | null>(null);
+  const questionsRequest = useRef<AbortController | null>(null);
+  const translationRequest = useRef<AbortController | null>(null);
+  // The language being translated into, while the AI works on it.
+  const [translatingInto, setTranslatingInto] = useState<string | null>(null);
+  // A finished translation, shown for approval before it replaces anything.
+  const [pendingTranslation, setPendingTranslation] = useState<{ language: string; sourceLanguage: string; source: LocalizedContent; proposed: LocalizedContent } | null>(null);
+  // AI-proposed questions for the tab on screen, awaiting review.
+  const [proposedQuestions, setProposedQuestions] = useState<Question[]>([]);
+  // The language tab on screen. Title, description and questions above hold
+  // its content; the other tabs are kept in `otherContent`.
+  const [activeLanguage, setActiveLanguage] = useState(fallbackLanguage);
+  // The tab on screen as of the latest render, for requests still in flight.
+  const activeLanguageRef = useRef(activeLanguage);
+  activeLanguageRef.current = activeLanguage;
+  const [otherContent, setOtherContent] = useState<{ [language: string]: LocalizedContent }>({});
+  // Whether the translation on screen still uses the untranslated quiz.
+  const [usesFallbackQuiz, setUsesFallbackQuiz] = useState(false);
+  const { t } = useLanguage();
 
   const quillRef = useRef<HTMLDivElement>(null);
   const quillInstance = useRef<any>(null); // To hold the Quill instance
 
+  const activeContent = (): LocalizedContent => ({
+    title,
+    description,
+    questions: activeLanguage !== fallbackLanguage && usesFallbackQuiz ? undefined : questions,
+  });
+  // Every tab's content, keyed by language.
+  const allContent: { [language: string]: LocalizedContent } = { ...otherContent, [activeLanguage]: activeContent() };
+
+  const showContent = (language: string, content: LocalizedContent | undefined) => {
+    setActiveLanguage(language);
+    setTitle(content?.title ?? '');
+    setQuestions(content?.questions ?? []);
+    setUsesFallbackQuiz(language !== fallbackLanguage && !content?.questions);
+    setPickingQuestionId(null);
+    setProposedQuestions([]);
+    const html = content?.description ?? '';
+    const quill = quillInstance.current;
+    if (quill && quill.root.innerHTML !== html) {
+      quill.root.innerHTML = html;
+    }
+    setDescription(html);
+  };
+
+  // Stops AI output meant for the content on screen before other content
+  // replaces it, so it can't land in another tab or location.
+  const cancelContentRequests = () => {
+    const requests = [descriptionRequest.current, questionsRequest.current];
+    descriptionRequest.current = null;
+    questionsRequest.current = null;
+    requests.forEach(request => request?.abort());
+  };
+
+  const handleSwitchLanguage = (language: string) => {
+    if (language === activeLanguage) return;
+    cancelContentRequests();
+    const { [language]: content, ...rest } = allContent;
+    setOtherContent(rest);
+    showContent(language, content);
+  };
+
+  // Links the builder can't play are refused; ones that fail to load may only
+  // be unreachable for now, so the author decides.
+  const confirmMediaLinks = async (): Promise<boolean> => {
+    const links: [MediaField, string][] = [['video', videoUrl], ['audio', audioUrl]];
+    for (const [field, url] of links) {
+      if (!url.trim()) continue;
+      const source = parseMediaUrl(url, field);
+      if (!source) {
+        alert(t(field === 'video' ? 'mediaUnrecognized_video' : 'mediaUnrecognized_audio'));
+        return false;
+      }
+      const result = await probeMedia(source);
+      if (result !== 'ok' && !confirm(t(result === 'broken' ? 'mediaBrokenConfirm' : 'mediaUnsupportedConfirm'))) {
+        return false;
+      }
+    }
+    return true;
+  };
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
-    if (!title || !description || !selectedCoords || !selectedCountry) {
+    const fallbackContent = allContent[fallbackLanguage];
+    if (!fallbackContent?.title || !fallbackContent.description || !selectedCoords || !selectedCountry) {
+      handleSwitchLanguage(fallbackLanguage);
       alert(t('formAlert'));
       return;
     }
-    await onSave({ title, description, image: imageUrl, video: videoUrl, audio: audioUrl, questions, block_navigation: blockNavigation });
+    for (const [language, content] of Object.entries(allContent)) {
+      const incomplete = (content.questions ?? []).findIndex(q => !isQuestionComplete(q));
+      if (incomplete === -1) continue;
+      handleSwitchLanguage(language);
+      alert(content.questions![incomplete].type === 'map_location'
+        ? t('mapTargetMissingAlert')
+        : t('questionIncompleteAlert', { number: incomplete + 1 }));
+      return;
+    }
+    if (!(await confirmMediaLinks())) return;
+    // Tabs that were only looked at don't leave empty translations behind.
+    const translations: { [language: string]: LocalizedContent } = {};
+    Object.entries(allContent).forEach(([language, content]) => {
+      if (language !== fallbackLanguage && (content.title.trim() || content.description || content.questions)) {
+        translations[language] = content;
+      }
+    });
+    setPickingQuestionId(null);
+    await onSave({
+      title: fallbackContent.title,
+      description: fallbackContent.description,
+      image: imageUrl,
+      video: videoUrl,
+      audio: audioUrl,
+      questions: fallbackContent.questions ?? [],
+      block_navigation: blockNavigation,
+      markerIcon,
+      markerColor,
+      passMark: parseOptionalNumber(passMark),
+      translations,
+    });
+  };
+
+  const handleTranslateQuiz = () => {
+    // Copies keep their ids, so a learner's answers carry over between languages.
+    setQuestions(structuredClone(otherContent[fallbackLanguage]?.questions ?? []));
+    setUsesFallbackQuiz(false);
+  };
+
+  const handleUseFallbackQuiz = () => {
+    setQuestions([]);
+    setPickingQuestionId(null);
+    setUsesFallbackQuiz(true);
   };
   
   // Initialize Quill editor
@@ -111,30 +278,37 @@ const LocationForm: React.FC<LocationFormProps> = ({ selectedCoords, selectedCou
   // Sync component state with editor for editing/clearing
   useEffect(() => {
     const quill = quillInstance.current;
+    // AI output and translations belong to the location they were made for.
+    cancelContentRequests();
+    translationRequest.current?.abort();
+    setPendingTranslation(null);
     if (quill) {
         if (editingLocation) {
-            setTitle(editingLocation.title);
+            const tabs = [fallbackLanguage, ...translationLanguages];
+            const { [tabs.includes(contentLanguage) ? contentLanguage : fallbackLanguage]: content, ...rest } = {
+              ...editingLocation.translations,
+              [fallbackLanguage]: { title: editingLocation.title, description: editingLocation.description, questions: editingLocation.questions || [] },
+            };
+            setOtherContent(rest);
+            showContent(tabs.includes(contentLanguage) ? contentLanguage : fallbackLanguage, content);
             setImageUrl(editingLocation.image || '');
             setVideoUrl(editingLocation.video || '');
             setAudioUrl(editingLocation.audio || '');
-            setQuestions(editingLocation.questions || []);
             setBlockNavigation(editingLocation.block_navigation || false);
-            if (quill.root.innerHTML !== editingLocation.description) {
-                quill.root.innerHTML = editingLocation.description;
-                setDescription(editingLocation.description);
-            }
+            setMarkerIcon(editingLocation.markerIcon || '');
+            setMarkerColor(editingLocation.markerColor || '');
+            setPassMark(editingLocation.passMark !== undefined ? String(editingLocation.passMark) : '');
         } else if (!selectedCoords) {
             // Clear form
-            setTitle('');
+            setOtherContent({});
+            showContent(fallbackLanguage, undefined);
             setImageUrl('');
             setVideoUrl('');
             setAudioUrl('');
-            setQuestions([]);
             setBlockNavigation(false);
-            if (quill.root.innerHTML !== '') {
-                quill.root.innerHTML = '';
-                setDescription('');
-            }
+            setMarkerIcon('');
+            setMarkerColor('');
+            setPassMark('');
         }
     }
   }, [editingLocation, selectedCoords]);
@@ -149,60 +323,161 @@ const LocationForm: React.FC<LocationFormProps> = ({ selectedCoords, selectedCou
     }
   }, [isFormDisabled]);
 
+  const contentDirection = isRtlLanguage(activeLanguage) ? 'rtl' : 'ltr';
+
+  useEffect(() => {
+    quillInstance.current?.root.setAttribute('dir', contentDirection);
+  }, [contentDirection]);
+
+  const missingLanguages = missingTranslations(
+    { questions: allContent[fallbackLanguage]?.questions, translations: allContent },
+    translationLanguages
+  );
+
+  useEffect(() => () => {
+    descriptionRequest.current?.abort();
+    questionsRequest.current?.abort();
+    translationRequest.current?.abort();
+  }, []);
+
   const handleGenerateDescription = async () => {
     if (!selectedCoords) return;
 
-    setIsGeneratingDescription(true);
     const quill = quillInstance.current;
-    if (!quill) {
-      setIsGeneratingDescription(false);
-      return;
-    }
-    
+    if (!quill) return;
+
+    const controller = new AbortController();
+    descriptionRequest.current = controller;
+    setIsGeneratingDescription(true);
     quill.setText('');
     setDescription('');
 
     try {
-      if (!process.env.API_KEY) {
-        throw new Error("API_KEY environment variable not set");
+      const stream = streamText({
+        prompt: 'locationDescription',
+        values: {
+          lat: String(selectedCoords[0]),
+          lon: String(selectedCoords[1]),
+          country: selectedCountry || 'an unknown country',
+          language: promptLanguageName(activeLanguage),
+        },
+        signal: controller.signal,
+      });
+
+      for await (const chunkText of stream) {
+        if (controller.signal.aborted) break;
+        // 'api' source prevents triggering 'text-change' handler during stream
+        quill.insertText(quill.getLength(), chunkText, 'api');
       }
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const langName = language === 'ar' ? 'Arabic' : 'English';
-      const prompt = `Generate a captivating, single-paragraph description for a tourist location at latitude ${selectedCoords[0]}, longitude ${selectedCoords[1]}. Include any interesting landmarks or facts. The location is in ${selectedCountry || 'an unknown country'}. The description should be suitable for a travel guide app. Respond in ${langName}.`;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("AI description generation failed:", error);
+        alert(isAiUnavailable(error) ? t('aiNotConfiguredAlert') : t('alert_aiError'));
+      }
+    } finally {
+      // Cancelled by a tab or location change: the editor holds other content now.
+      if (descriptionRequest.current === controller) {
+        // Manually trigger the state update logic after stream ends to clean up
+        // HTML; a stopped stream keeps what was written so far.
+        let finalHtml = quill.root.innerHTML;
+        if (quill.getText().trim().length === 0) {
+          finalHtml = '';
+        }
+        // Unwrapping logic to avoid unnecessary <p> tags for simple text
+        else if (!finalHtml.includes('</p><p>') && finalHtml.startsWith('<p>') && finalHtml.endsWith('</p>')) {
+          finalHtml = finalHtml.substring(3, finalHtml.length - 4);
+        }
+        if (finalHtml === '<br>') finalHtml = '';
+        setDescription(finalHtml);
+        descriptionRequest.current = null;
+      }
+      setIsGeneratingDescription(false);
+    }
+  };
 
-      const stream = await ai.models.generateContentStream({
-          model: 'gemini-2.5-flash',
-          contents: prompt,
+  const handleGenerateQuestions = async () => {
+    if (!title.trim() || !description) {
+      alert(t('generateQuestionsMissingContentAlert'));
+      return;
+    }
+    const controller = new AbortController();
+    questionsRequest.current = controller;
+    // Proposals are for the tab they were generated from.
+    const language = activeLanguage;
+    setIsGeneratingQuestions(true);
+    try {
+      const reply = await generateText({
+        prompt: 'quizQuestions',
+        values: quizPromptValues({ title, description, country: selectedCountry ?? '', languageName: promptLanguageName(activeLanguage) }),
+        schema: GENERATED_QUIZ_SCHEMA,
+        signal: controller.signal,
       });
-      
-      for await (const chunk of stream) {
-        const chunkText = chunk.text;
-        if (chunkText) {
-          // 'api' source prevents triggering 'text-change' handler during stream
-          quill.insertText(quill.getLength(), chunkText, 'api');
-        }
+      if (questionsRequest.current !== controller || activeLanguageRef.current !== language) return;
+      const { questions: proposals, rejected } = parseGeneratedQuiz(reply);
+      if (rejected > 0) {
+        console.warn(`Dropped ${rejected} generated question(s) that did not validate.`);
       }
-      
-      // Manually trigger the state update logic after stream ends to clean up HTML
-      let finalHtml = quill.root.innerHTML;
-      if (quill.getText().trim().length === 0) {
-        finalHtml = '';
+      if (proposals.length === 0) {
+        alert(t('generateQuestionsEmptyAlert'));
+        return;
       }
-      // Unwrapping logic to avoid unnecessary <p> tags for simple text
-      else if (!finalHtml.includes('</p><p>') && finalHtml.startsWith('<p>') && finalHtml.endsWith('</p>')) {
-        finalHtml = finalHtml.substring(3, finalHtml.length - 4);
+      setProposedQuestions(prev => [...prev, ...proposals]);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("AI question generation failed:", error);
+        alert(isAiUnavailable(error) ? t('aiNotConfiguredAlert') : t('generateQuestionsErrorAlert'));
       }
-      if (finalHtml === '<br>') finalHtml = '';
-      setDescription(finalHtml);
+    } finally {
+      if (questionsRequest.current === controller) questionsRequest.current = null;
+      setIsGeneratingQuestions(false);
+    }
+  };
 
+  // Translates the tab on screen into `language`. A quiz still borrowed from
+  // the fallback language isn't this tab's own, so it isn't translated.
+  const handleTranslate = async (language: string) => {
+    const source = activeContent();
+    if (!source.title.trim() || !source.description) {
+      alert(t('translateMissingContentAlert'));
+      return;
+    }
+    const controller = new AbortController();
+    translationRequest.current = controller;
+    setTranslatingInto(language);
+    try {
+      const reply = await generateText({
+        prompt: 'locationTranslation',
+        values: translationPromptValues(source, promptLanguageName(activeLanguage), promptLanguageName(language)),
+        schema: TRANSLATION_SCHEMA,
+        signal: controller.signal,
+      });
+      const proposed = parseTranslation(source, reply);
+      if (!proposed) {
+        throw new Error('The translation does not match the structure of the source content.');
+      }
+      setPendingTranslation({ language, sourceLanguage: activeLanguage, source, proposed });
     } catch (error) {
-      console.error("AI description generation failed:", error);
-      alert(t('alert_aiError'));
+      if (!isAbortError(error)) {
+        console.error("AI translation failed:", error);
+        alert(isAiUnavailable(error) ? t('aiNotConfiguredAlert') : t('translateErrorAlert'));
+      }
     } finally {
-      setIsGeneratingDescription(false);
+      translationRequest.current = null;
+      setTranslatingInto(null);
     }
   };
 
+  // Stores the approved translation in its tab and shows it. The target keeps
+  // its own quiz when the source had none to translate.
+  const handleApproveTranslation = () => {
+    if (!pendingTranslation) return;
+    const { language, proposed } = pendingTranslation;
+    const { [language]: current, ...rest } = allContent;
+    setPendingTranslation(null);
+    setOtherContent(rest);
+    showContent(language, { ...proposed, questions: proposed.questions ?? current?.questions });
+  };
+
   const handleAddQuestion = () => {
     setQuestions(prev => [...prev, {
       id: `q_${Date.now()}`,
@@ -212,7 +487,43 @@ const LocationForm: React.FC<LocationFormProps> = ({ selectedCoords, selectedCou
     }]);
   };
 
+  const pickingTargetType = questions.find(q => q.id === pickingQuestionId)?.target?.type;
+
+  useEffect(() => {
+    if (!pickingQuestionId) return;
+    onMapPickChange((coords) => {
+      setQuestions(prev => prev.map(q => {
+        if (q.id !== pickingQuestionId) return q;
+        if (q.target?.type === 'polygon') {
+          return { ...q, target: { ...q.target, coordinates: [...q.target.coordinates, coords] } };
+        }
+        const radius = q.target?.type === 'point' ? q.target.radius : DEFAULT_TARGET_RADIUS;
+        return { ...q, target: { type: 'point', coordinates: coords, radius } };
+      }));
+      // Polygons gain a corner per click until the author finishes drawing.
+      if (pickingTargetType !== 'polygon') setPickingQuestionId(null);
+    });
+    return () => onMapPickChange(null);
+  }, [pickingQuestionId, pickingTargetType, onMapPickChange]);
+
+  // Show the targets on the map while they are being authored.
+  useEffect(() => {
+    const targets = questions
+      .filter(q => q.type === 'map_location' && q.target)
+      .map(q => q.target as MapTarget);
+    const drawing = questions.find(q => q.id === pickingQuestionId)?.target;
+    onQuizOverlayChange(targets.length > 0 ? {
+      targets,
+      picks: drawing?.type === 'polygon' ? drawing.coordinates : [],
+    } : null);
+  }, [questions, pickingQuestionId, onQuizOverlayChange]);
+
+  useEffect(() => () => onQuizOverlayChange(null), [onQuizOverlayChange]);
+
   const handleRemoveQuestion = (index: number) => {
+    if (questions[index]?.id === pickingQuestionId) {
+      setPickingQuestionId(null);
+    }
     setQuestions(prev => prev.filter((_, i) => i !== index));
   };
   
@@ -223,7 +534,7 @@ const LocationForm: React.FC<LocationFormProps> = ({ selectedCoords, selectedCou
     // Reset dependent fields when type changes
     if (field === 'type') {
         question.answer = '';
-        if (value === 'multiple_choice') {
+        if (value === 'multiple_choice' || value === 'multi_select') {
             question.options = ['', ''];
         } else {
             delete question.options;
@@ -231,6 +542,25 @@ const LocationForm: React.FC<LocationFormProps> = ({ selectedCoords, selectedCou
         if (value === 'true_false') {
             question.answer = 'true';
         }
+        if (value === 'multi_select') {
+            question.answers = [];
+        } else {
+            delete question.answers;
+        }
+        if (value === 'ordering') {
+            question.items = ['', ''];
+        } else {
+            delete question.items;
+        }
+        if (value === 'matching') {
+            question.pairs = [{ prompt: '', match: '' }, { prompt: '', match: '' }];
+        } else {
+            delete question.pairs;
+        }
+        if (value !== 'map_location') {
+            delete question.target;
+            if (question.id === pickingQuestionId) setPickingQuestionId(null);
+        }
     }
     
     newQuestions[index] = question;
@@ -238,36 +568,56 @@ const LocationForm: React.FC<LocationFormProps> = ({ selectedCoords, selectedCou
   };
 
   const handleOptionChange = (qIndex: number, oIndex: number, text: string) => {
-      const newQuestions = [...questions];
-      const question = newQuestions[qIndex];
+      const question = questions[qIndex];
       if (question.options) {
-        // If the updated option was the correct answer, update the answer value as well
-        if (question.answer === question.options[oIndex]) {
-            question.answer = text;
-        }
-        question.options[oIndex] = text;
+        const previous = question.options[oIndex];
+        const newQuestions = [...questions];
+        newQuestions[qIndex] = {
+          ...question,
+          options: question.options.map((option, i) => (i === oIndex ? text : option)),
+          // If the updated option was the correct answer, update the answer value as well
+          answer: question.answer === previous ? text : question.answer,
+          ...(question.answers && { answers: question.answers.map(answer => (answer === previous ? text : answer)) }),
+        };
         setQuestions(newQuestions);
       }
   };
 
+  const isCorrectOption = (question: Question, option: string) =>
+      question.type === 'multi_select' ? (question.answers ?? []).includes(option) : question.answer === option;
+
+  // Multiple choice has one correct option; multi-select toggles each one.
+  const handleMarkCorrect = (qIndex: number, option: string) => {
+      const question = questions[qIndex];
+      if (question.type !== 'multi_select') {
+          handleQuestionChange(qIndex, 'answer', option);
+          return;
+      }
+      const answers = question.answers ?? [];
+      handleQuestionChange(qIndex, 'answers', answers.includes(option) ? answers.filter(answer => answer !== option) : [...answers, option]);
+  };
+
   const handleAddOption = (qIndex: number) => {
-      const newQuestions = [...questions];
-      const question = newQuestions[qIndex];
+      const question = questions[qIndex];
       if (question.options) {
-          question.options.push('');
+          const newQuestions = [...questions];
+          newQuestions[qIndex] = { ...question, options: [...question.options, ''] };
           setQuestions(newQuestions);
       }
   };
   
   const handleRemoveOption = (qIndex: number, oIndex: number) => {
-      const newQuestions = [...questions];
-      const question = newQuestions[qIndex];
+      const question = questions[qIndex];
       if (question.options && question.options.length > 1) {
-          // If the removed option was the correct answer, clear the answer
-          if (question.answer === question.options[oIndex]) {
-              question.answer = '';
-          }
-          question.options.splice(oIndex, 1);
+          const removed = question.options[oIndex];
+          const newQuestions = [...questions];
+          newQuestions[qIndex] = {
+            ...question,
+            options: question.options.filter((_, i) => i !== oIndex),
+            // If the removed option was the correct answer, clear the answer
+            answer: question.answer === removed ? '' : question.answer,
+            ...(question.answers && { answers: question.answers.filter(answer => answer !== removed) }),
+          };
           setQuestions(newQuestions);
       }
   };
@@ -305,33 +655,88 @@ const LocationForm: React.FC<LocationFormProps> = ({ selectedCoords, selectedCou
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-6">
+        {translationLanguages.length > 0 && (
+          <div role="tablist" aria-label={t('contentLanguageTabsLabel')} className="flex flex-wrap gap-1 border-b border-slate-200">
+            {[fallbackLanguage, ...translationLanguages].map(code => (
+              <button
+                key={code}
+                type="button"
+                role="tab"
+                aria-selected={code === activeLanguage}
+                onClick={() => handleSwitchLanguage(code)}
+                disabled={isFormDisabled}
+                className={`-mb-px inline-flex items-center gap-1.5 px-3 py-2 border-b-2 text-sm font-medium focus:outline-none focus:ring-2 focus:ring-sky-500 rounded-t-md disabled:text-slate-400 disabled:cursor-not-allowed ${code === activeLanguage ? 'border-sky-600 text-sky-700' : 'border-transparent text-slate-600 hover:text-slate-800 hover:border-slate-300'}`}
+              >
+                {languageName(code)}
+                {code === fallbackLanguage && <span className="text-xs font-normal text-slate-400">{t('fallbackLanguageBadge')}</span>}
+                {missingLanguages.includes(code) && (
+                  <span className="h-2 w-2 rounded-full bg-amber-500" title={t('translationMissingTooltip')} aria-label={t('translationMissingTooltip')} />
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+        {activeLanguage !== fallbackLanguage && (
+          <p className="text-xs text-slate-500">{t('translationTabHint', { language: languageName(fallbackLanguage) })}</p>
+        )}
+        {translationLanguages.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            {[fallbackLanguage, ...translationLanguages].filter(code => code !== activeLanguage).map(code => (
+              <button
+                key={code}
+                type="button"
+                onClick={() => handleTranslate(code)}
+                disabled={isFormDisabled || translatingInto !== null || isGeneratingDescription}
+                title={t('translateTooltip')}
+                className="inline-flex items-center gap-x-1.5 rounded-md bg-sky-50 px-2 py-1 text-sm font-semibold text-sky-700 shadow-sm hover:bg-sky-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-100 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
+              >
+                {translatingInto === code && (
+                  <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                )}
+                {translatingInto === code ? t('translating') : t('translateIntoButton', { language: languageName(code) })}
+              </button>
+            ))}
+            {translatingInto && (
+              <button type="button" onClick={() => translationRequest.current?.abort()} className="rounded-md px-2 py-1 text-sm font-medium text-slate-600 hover:bg-slate-100 hover:text-slate-900 focus:outline-none focus:ring-2 focus:ring-sky-500">{t('aiStopGenerating')}</button>
+            )}
+          </div>
+        )}
+
         <div>
           <label htmlFor="title" className="block text-sm font-medium text-slate-700">{t('titleLabel')}</label>
-          <input type="text" name="title" id="title" value={title} onChange={(e) => setTitle(e.target.value)} required disabled={isFormDisabled} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm text-slate-900 placeholder-slate-400 focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500 disabled:bg-slate-100 disabled:text-slate-500 disabled:border-slate-200 disabled:cursor-not-allowed" />
+          <input type="text" name="title" id="title" dir={contentDirection} value={title} onChange={(e) => setTitle(e.target.value)} required={activeLanguage === fallbackLanguage} disabled={isFormDisabled} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm text-slate-900 placeholder-slate-400 focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500 disabled:bg-slate-100 disabled:text-slate-500 disabled:border-slate-200 disabled:cursor-not-allowed" />
         </div>
         
         <div>
            <div className="flex justify-between items-center">
              <label htmlFor="description" className="block text-sm font-medium text-slate-700">{t('descriptionLabel')}</label>
-             <button
-              type="button"
-              onClick={handleGenerateDescription}
-              disabled={isFormDisabled || isGeneratingDescription}
-              className="inline-flex items-center gap-x-1.5 rounded-md bg-sky-50 px-2 py-1 text-sm font-semibold text-sky-700 shadow-sm hover:bg-sky-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-100 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
-              title={t('generateDescriptionTooltip')}
-             >
-              {isGeneratingDescription ? (
-                  <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-              ) : (
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-sky-600" viewBox="0 0 20 20" fill="currentColor">
-                    <path fillRule="evenodd" d="M10 3a1 1 0 01.867.5l.434 1.29a1 1 0 00.95.69h1.383a1 1 0 01.98.804l.245 1.414a1 1 0 00.418.815l1.135.81a1 1 0 010 1.664l-1.135.81a1 1 0 00-.418.815l-.245 1.414a1 1 0 01-.98.804h-1.383a1 1 0 00-.95.69l-.434 1.29a1 1 0 01-1.734 0l-.434-1.29a1 1 0 00-.95-.69H5.02a1 1 0 01-.98-.804l-.245-1.414a1 1 0 00-.418-.815L2.242 10.5a1 1 0 010-1.664l1.135-.81a1 1 0 00.418-.815l.245-1.414A1 1 0 015.02 5h1.383a1 1 0 00.95-.69l.434-1.29A1 1 0 0110 3zM6 14a1 1 0 100 2 1 1 0 000-2zm8 0a1 1 0 100 2 1 1 0 000-2zm-4-4a1 1 0 100 2 1 1 0 000-2z" clipRule="evenodd" />
-                  </svg>
-              )}
-              <span>{isGeneratingDescription ? t('generatingDescription') : t('generateDescriptionButton')}</span>
-             </button>
+             <div className="flex items-center gap-x-2">
+               {isGeneratingDescription && (
+                 <button type="button" onClick={() => descriptionRequest.current?.abort()} className="rounded-md px-2 py-1 text-sm font-medium text-slate-600 hover:bg-slate-100 hover:text-slate-900 focus:outline-none focus:ring-2 focus:ring-sky-500">{t('aiStopGenerating')}</button>
+               )}
+               <button
+                type="button"
+                onClick={handleGenerateDescription}
+                disabled={isFormDisabled || isGeneratingDescription}
+                className="inline-flex items-center gap-x-1.5 rounded-md bg-sky-50 px-2 py-1 text-sm font-semibold text-sky-700 shadow-sm hover:bg-sky-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-100 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
+                title={t('generateDescriptionTooltip')}
+               >
+                {isGeneratingDescription ? (
+                    <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                ) : (
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-sky-600" viewBox="0 0 20 20" fill="currentColor">
+                      <path fillRule="evenodd" d="M10 3a1 1 0 01.867.5l.434 1.29a1 1 0 00.95.69h1.383a1 1 0 01.98.804l.245 1.414a1 1 0 00.418.815l1.135.81a1 1 0 010 1.664l-1.135.81a1 1 0 00-.418.815l-.245 1.414a1 1 0 01-.98.804h-1.383a1 1 0 00-.95.69l-.434 1.29a1 1 0 01-1.734 0l-.434-1.29a1 1 0 00-.95-.69H5.02a1 1 0 01-.98-.804l-.245-1.414a1 1 0 00-.418-.815L2.242 10.5a1 1 0 010-1.664l1.135-.81a1 1 0 00.418-.815l.245-1.414A1 1 0 015.02 5h1.383a1 1 0 00.95-.69l.434-1.29A1 1 0 0110 3zM6 14a1 1 0 100 2 1 1 0 000-2zm8 0a1 1 0 100 2 1 1 0 000-2zm-4-4a1 1 0 100 2 1 1 0 000-2z" clipRule="evenodd" />
+                    </svg>
+                )}
+                <span>{isGeneratingDescription ? t('generatingDescription') : t('generateDescriptionButton')}</span>
+               </button>
+             </div>
            </div>
            <div className={`mt-1 location-form-quill-wrapper ${isFormDisabled ? 'quill-disabled' : ''}`}>
               <div ref={quillRef} />
@@ -343,94 +748,280 @@ const LocationForm: React.FC<LocationFormProps> = ({ selectedCoords, selectedCou
           <div>
             <label htmlFor="imageUrl" className="block text-sm font-medium text-slate-700">{t('imageUrlLabel')}</label>
             <input type="url" name="imageUrl" id="imageUrl" value={imageUrl} onChange={(e) => setImageUrl(e.target.value)} disabled={isFormDisabled} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm text-slate-900 placeholder-slate-400 focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500 disabled:bg-slate-100 disabled:text-slate-500 disabled:border-slate-200 disabled:cursor-not-allowed" />
+            <MediaUpload kind="image" onUploaded={setImageUrl} disabled={isFormDisabled} />
           </div>
           <div>
             <label htmlFor="videoUrl" className="block text-sm font-medium text-slate-700">{t('videoUrlLabel')}</label>
             <input type="url" name="videoUrl" id="videoUrl" value={videoUrl} onChange={(e) => setVideoUrl(e.target.value)} disabled={isFormDisabled} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm text-slate-900 placeholder-slate-400 focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500 disabled:bg-slate-100 disabled:text-slate-500 disabled:border-slate-200 disabled:cursor-not-allowed" />
+            <MediaPreview url={videoUrl} field="video" title={title} />
+            <MediaUpload kind="video" onUploaded={setVideoUrl} disabled={isFormDisabled} />
           </div>
           <div>
             <label htmlFor="audioUrl" className="block text-sm font-medium text-slate-700">{t('audioUrlLabel')}</label>
             <input type="url" name="audioUrl" id="audioUrl" value={audioUrl} onChange={(e) => setAudioUrl(e.target.value)} disabled={isFormDisabled} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm text-slate-900 placeholder-slate-400 focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500 disabled:bg-slate-100 disabled:text-slate-500 disabled:border-slate-200 disabled:cursor-not-allowed" />
+            <MediaPreview url={audioUrl} field="audio" title={title} />
+            <MediaUpload kind="audio" onUploaded={setAudioUrl} disabled={isFormDisabled} />
+          </div>
+        </fieldset>
+
+        <fieldset id="marker-style-fieldset" className="space-y-3" disabled={isFormDisabled}>
+          <legend className="text-sm font-medium text-slate-700">{t('markerStyleLegend')}</legend>
+          <div>
+            <p className="text-xs text-slate-500">{t('markerIconLabel')}</p>
+            <div className="mt-1 flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => setMarkerIcon('')}
+                title={t('markerIconNone')}
+                aria-label={t('markerIconNone')}
+                aria-pressed={markerIcon === ''}
+                className={`h-9 w-9 inline-flex items-center justify-center rounded-md border text-xs font-semibold ${markerIcon === '' ? 'border-sky-500 ring-1 ring-sky-500 bg-sky-50 text-sky-700' : 'border-slate-300 bg-white text-slate-500 hover:bg-slate-50'}`}
+              >
+                1
+              </button>
+              {MARKER_ICON_NAMES.map(name => (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => setMarkerIcon(name)}
+                  title={t(`markerIcon_${name}`)}
+                  aria-label={t(`markerIcon_${name}`)}
+                  aria-pressed={markerIcon === name}
+                  className={`h-9 w-9 inline-flex items-center justify-center rounded-md border ${markerIcon === name ? 'border-sky-500 ring-1 ring-sky-500 bg-sky-50' : 'border-slate-300 bg-white hover:bg-slate-50'}`}
+                  style={{ color: getMarkerColor({ markerIcon: name, markerColor: markerColor || undefined }) }}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d={MARKER_ICONS[name].path} /></svg>
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-xs text-slate-500">{t('markerColorLabel')}</p>
+            <div className="mt-1 flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => setMarkerColor('')}
+                title={t('markerColorDefault')}
+                aria-label={t('markerColorDefault')}
+                aria-pressed={markerColor === ''}
+                className={`h-7 w-7 rounded-full border-2 border-dashed ${markerColor === '' ? 'border-sky-600 ring-2 ring-offset-1 ring-sky-500' : 'border-slate-300'}`}
+                style={{ backgroundColor: getMarkerColor({ markerIcon: markerIcon || undefined }) }}
+              />
+              {MARKER_COLOR_NAMES.map(name => (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => setMarkerColor(name)}
+                  title={t(`markerColor_${name}`)}
+                  aria-label={t(`markerColor_${name}`)}
+                  aria-pressed={markerColor === name}
+                  className={`h-7 w-7 rounded-full border-2 border-white shadow-sm ${markerColor === name ? 'ring-2 ring-offset-1 ring-sky-500' : ''}`}
+                  style={{ backgroundColor: MARKER_COLORS[name] }}
+                />
+              ))}
+            </div>
           </div>
         </fieldset>
 
         <fieldset className="space-y-4" disabled={isFormDisabled}>
-            <legend className="text-sm font-medium text-slate-700">{t('questionsLegend')}</legend>
+            <legend className="text-sm font-medium text-slate-700">
+                {translationLanguages.length > 0
+                  ? t('questionsLegendLanguage', { language: languageName(activeLanguage) })
+                  : t('questionsLegend')}
+            </legend>
             <p className="text-xs text-slate-500">{t('questionsSubtitle')}</p>
 
-            {questions.length > 0 ? (
-                <div className="space-y-6">
-                    {questions.map((q, qIndex) => (
-                        <div key={q.id} className="p-4 border border-slate-200 rounded-lg bg-white space-y-3">
-                            <div className="flex justify-between items-start">
-                                <div className="flex-1">
-                                    <label htmlFor={`q-text-${q.id}`} className="block text-sm font-medium text-slate-600">{t('questionTextLabel')} #{qIndex + 1}</label>
-                                    <input
-                                        type="text"
-                                        id={`q-text-${q.id}`}
-                                        value={q.text}
-                                        onChange={(e) => handleQuestionChange(qIndex, 'text', e.target.value)}
-                                        placeholder={t('questionTextPlaceholder')}
-                                        className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
-                                    />
-                                </div>
-                                <button type="button" onClick={() => handleRemoveQuestion(qIndex)} className="ltr:ml-3 rtl:mr-3 mt-7 p-1.5 rounded-full text-slate-400 hover:bg-red-50 hover:text-red-600 focus:outline-none focus:ring-2 focus:ring-red-500" title={t('removeQuestionButton')}>
-                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" /></svg>
-                                </button>
-                            </div>
-
-                            <div>
-                                <label htmlFor={`q-type-${q.id}`} className="block text-sm font-medium text-slate-600">{t('questionTypeLabel')}</label>
-                                <select id={`q-type-${q.id}`} value={q.type} onChange={(e) => handleQuestionChange(qIndex, 'type', e.target.value as QuestionType)} className="mt-1 block w-full pl-3 pr-10 py-2 bg-white text-slate-900 text-base border-slate-300 focus:outline-none focus:ring-sky-500 focus:border-sky-500 sm:text-sm rounded-md">
-                                    <option value="short_answer">{t('questionTypeShortAnswer')}</option>
-                                    <option value="true_false">{t('questionTypeTrueFalse')}</option>
-                                    <option value="multiple_choice">{t('questionTypeMultipleChoice')}</option>
-                                </select>
-                            </div>
-
-                            <div>
-                                <label className="block text-sm font-medium text-slate-600">{t('answerLabel')}</label>
-                                {q.type === 'short_answer' && <input type="text" value={q.answer} onChange={(e) => handleQuestionChange(qIndex, 'answer', e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500" />}
-                                {q.type === 'true_false' && (
-                                    <div className="mt-2 flex items-center space-x-4 rtl:space-x-reverse">
-                                        <label className="flex items-center"><input type="radio" name={`q-answer-${q.id}`} value="true" checked={q.answer === 'true'} onChange={(e) => handleQuestionChange(qIndex, 'answer', e.target.value)} className="focus:ring-sky-500 h-4 w-4 text-sky-600 border-slate-300" /> <span className="ltr:ml-2 rtl:mr-2 text-sm">{t('quizTrue')}</span></label>
-                                        <label className="flex items-center"><input type="radio" name={`q-answer-${q.id}`} value="false" checked={q.answer === 'false'} onChange={(e) => handleQuestionChange(qIndex, 'answer', e.target.value)} className="focus:ring-sky-500 h-4 w-4 text-sky-600 border-slate-300" /> <span className="ltr:ml-2 rtl:mr-2 text-sm">{t('quizFalse')}</span></label>
+            {usesFallbackQuiz ? (
+                <div className="p-4 border-2 border-dashed border-slate-300 rounded-lg space-y-3 text-center">
+                    <p className="text-sm text-slate-600">{t('fallbackQuizNotice', { language: languageName(fallbackLanguage) })}</p>
+                    <button
+                      type="button"
+                      onClick={handleTranslateQuiz}
+                      className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500"
+                    >
+                        {t('translateQuizButton')}
+                    </button>
+                </div>
+            ) : (
+                <>
+                    {activeLanguage !== fallbackLanguage && (
+                        <button type="button" onClick={handleUseFallbackQuiz} className="text-sm font-medium text-red-600 hover:text-red-800">
+                            {t('useFallbackQuizButton', { language: languageName(fallbackLanguage) })}
+                        </button>
+                    )}
+                    {questions.length > 0 ? (
+                        <div className="space-y-6">
+                            {questions.map((q, qIndex) => (
+                                <div key={q.id} className="p-4 border border-slate-200 rounded-lg bg-white space-y-3">
+                                    <div className="flex justify-between items-start">
+                                        <div className="flex-1">
+                                            <label htmlFor={`q-text-${q.id}`} className="block text-sm font-medium text-slate-600">{t('questionTextLabel')} #{qIndex + 1}</label>
+                                            <input
+                                                type="text"
+                                                id={`q-text-${q.id}`}
+                                                dir={contentDirection}
+                                                value={q.text}
+                                                onChange={(e) => handleQuestionChange(qIndex, 'text', e.target.value)}
+                                                placeholder={t('questionTextPlaceholder')}
+                                                className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+                                            />
+                                        </div>
+                                        <button type="button" onClick={() => handleRemoveQuestion(qIndex)} className="ltr:ml-3 rtl:mr-3 mt-7 p-1.5 rounded-full text-slate-400 hover:bg-red-50 hover:text-red-600 focus:outline-none focus:ring-2 focus:ring-red-500" title={t('removeQuestionButton')}>
+                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" /></svg>
+                                        </button>
                                     </div>
-                                )}
-                                {q.type === 'multiple_choice' && (
-                                    <div className="mt-2 space-y-2">
-                                        <p className="text-xs text-slate-500">{t('optionsLabel')}</p>
-                                        {q.options?.map((opt, oIndex) => (
-                                            <div key={oIndex} className="flex items-center space-x-2 rtl:space-x-reverse">
-                                                <button type="button" onClick={() => handleQuestionChange(qIndex, 'answer', opt)} title={t('markAsCorrectAriaLabel')} className={`p-1 rounded-full ${q.answer === opt ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-400 hover:bg-green-100 hover:text-green-600'}`}>
-                                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg>
-                                                </button>
-                                                <input type="text" value={opt} onChange={(e) => handleOptionChange(qIndex, oIndex, e.target.value)} className="block w-full px-3 py-1.5 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500" />
-                                                <button type="button" onClick={() => handleRemoveOption(qIndex, oIndex)} title={t('removeOptionAriaLabel')} className="p-1.5 rounded-full text-slate-400 hover:bg-red-50 hover:text-red-600" disabled={q.options && q.options.length <= 1}>
-                                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M5 10a1 1 0 011-1h8a1 1 0 110 2H6a1 1 0 01-1-1z" clipRule="evenodd" /></svg>
-                                                </button>
+
+                                    <div>
+                                        <label htmlFor={`q-type-${q.id}`} className="block text-sm font-medium text-slate-600">{t('questionTypeLabel')}</label>
+                                        <select id={`q-type-${q.id}`} value={q.type} onChange={(e) => handleQuestionChange(qIndex, 'type', e.target.value as QuestionType)} className="mt-1 block w-full pl-3 pr-10 py-2 bg-white text-slate-900 text-base border-slate-300 focus:outline-none focus:ring-sky-500 focus:border-sky-500 sm:text-sm rounded-md">
+                                            <option value="short_answer">{t('questionTypeShortAnswer')}</option>
+                                            <option value="true_false">{t('questionTypeTrueFalse')}</option>
+                                            <option value="multiple_choice">{t('questionTypeMultipleChoice')}</option>
+                                            <option value="multi_select">{t('questionTypeMultiSelect')}</option>
+                                            <option value="ordering">{t('questionTypeOrdering')}</option>
+                                            <option value="matching">{t('questionTypeMatching')}</option>
+                                            <option value="map_location">{t('questionTypeMapLocation')}</option>
+                                        </select>
+                                    </div>
+
+                                    <div>
+                                        <label className="block text-sm font-medium text-slate-600">{t('answerLabel')}</label>
+                                        {q.type === 'map_location' && (
+                                            <MapTargetEditor
+                                                questionId={q.id}
+                                                target={q.target}
+                                                isPicking={pickingQuestionId === q.id}
+                                                onTogglePick={() => setPickingQuestionId(pickingQuestionId === q.id ? null : q.id)}
+                                                onChange={(target) => handleQuestionChange(qIndex, 'target', target)}
+                                            />
+                                        )}
+                                        {q.type === 'short_answer' && <input type="text" value={q.answer} onChange={(e) => handleQuestionChange(qIndex, 'answer', e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500" />}
+                                        {q.type === 'true_false' && (
+                                            <div className="mt-2 flex items-center space-x-4 rtl:space-x-reverse">
+                                                <label className="flex items-center"><input type="radio" name={`q-answer-${q.id}`} value="true" checked={q.answer === 'true'} onChange={(e) => handleQuestionChange(qIndex, 'answer', e.target.value)} className="focus:ring-sky-500 h-4 w-4 text-sky-600 border-slate-300" /> <span className="ltr:ml-2 rtl:mr-2 text-sm">{t('quizTrue')}</span></label>
+                                                <label className="flex items-center"><input type="radio" name={`q-answer-${q.id}`} value="false" checked={q.answer === 'false'} onChange={(e) => handleQuestionChange(qIndex, 'answer', e.target.value)} className="focus:ring-sky-500 h-4 w-4 text-sky-600 border-slate-300" /> <span className="ltr:ml-2 rtl:mr-2 text-sm">{t('quizFalse')}</span></label>
                                             </div>
-                                        ))}
-                                        <button type="button" onClick={() => handleAddOption(qIndex)} className="text-sm font-medium text-sky-600 hover:text-sky-800">+ {t('addOptionButton')}</button>
+                                        )}
+                                        {(q.type === 'multiple_choice' || q.type === 'multi_select') && (
+                                            <div className="mt-2 space-y-2">
+                                                <p className="text-xs text-slate-500">{t(q.type === 'multi_select' ? 'multiSelectOptionsLabel' : 'optionsLabel')}</p>
+                                                {q.options?.map((opt, oIndex) => (
+                                                    <div key={oIndex} className="flex items-center space-x-2 rtl:space-x-reverse">
+                                                        <button type="button" onClick={() => handleMarkCorrect(qIndex, opt)} title={t('markAsCorrectAriaLabel')} aria-pressed={isCorrectOption(q, opt)} className={`p-1 rounded-full ${isCorrectOption(q, opt) ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-400 hover:bg-green-100 hover:text-green-600'}`}>
+                                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg>
+                                                        </button>
+                                                        <input type="text" value={opt} onChange={(e) => handleOptionChange(qIndex, oIndex, e.target.value)} className="block w-full px-3 py-1.5 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500" />
+                                                        <button type="button" onClick={() => handleRemoveOption(qIndex, oIndex)} title={t('removeOptionAriaLabel')} className="p-1.5 rounded-full text-slate-400 hover:bg-red-50 hover:text-red-600" disabled={q.options && q.options.length <= 1}>
+                                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M5 10a1 1 0 011-1h8a1 1 0 110 2H6a1 1 0 01-1-1z" clipRule="evenodd" /></svg>
+                                                        </button>
+                                                    </div>
+                                                ))}
+                                                <button type="button" onClick={() => handleAddOption(qIndex)} className="text-sm font-medium text-sky-600 hover:text-sky-800">+ {t('addOptionButton')}</button>
+                                            </div>
+                                        )}
+                                        {q.type === 'ordering' && (
+                                            <OrderingEditor items={q.items ?? []} onChange={(items) => handleQuestionChange(qIndex, 'items', items)} />
+                                        )}
+                                        {q.type === 'matching' && (
+                                            <MatchingEditor pairs={q.pairs ?? []} onChange={(pairs) => handleQuestionChange(qIndex, 'pairs', pairs)} />
+                                        )}
+                                    </div>
+
+                                    <div className="w-32">
+                                        <label htmlFor={`q-points-${q.id}`} className="block text-sm font-medium text-slate-600">{t('questionPointsLabel')}</label>
+                                        <input
+                                            type="number"
+                                            id={`q-points-${q.id}`}
+                                            min={0}
+                                            step="any"
+                                            value={q.points ?? ''}
+                                            onChange={(e) => handleQuestionChange(qIndex, 'points', parseOptionalNumber(e.target.value))}
+                                            placeholder={String(DEFAULT_QUESTION_POINTS)}
+                                            className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+                                        />
+                                    </div>
+
+                                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                        <div>
+                                            <label htmlFor={`q-feedback-correct-${q.id}`} className="block text-sm font-medium text-slate-600">{t('feedbackCorrectLabel')}</label>
+                                            <input
+                                                type="text"
+                                                id={`q-feedback-correct-${q.id}`}
+                                                value={q.feedbackCorrect ?? ''}
+                                                onChange={(e) => handleQuestionChange(qIndex, 'feedbackCorrect', e.target.value || undefined)}
+                                                placeholder={t('playerCorrect')}
+                                                className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label htmlFor={`q-feedback-incorrect-${q.id}`} className="block text-sm font-medium text-slate-600">{t('feedbackIncorrectLabel')}</label>
+                                            <input
+                                                type="text"
+                                                id={`q-feedback-incorrect-${q.id}`}
+                                                value={q.feedbackIncorrect ?? ''}
+                                                onChange={(e) => handleQuestionChange(qIndex, 'feedbackIncorrect', e.target.value || undefined)}
+                                                placeholder={t('playerIncorrect')}
+                                                className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+                                            />
+                                        </div>
+                                    </div>
+
+                                    <div>
+                                        <label htmlFor={`q-explanation-${q.id}`} className="block text-sm font-medium text-slate-600">{t('explanationLabel')}</label>
+                                        <textarea
+                                            id={`q-explanation-${q.id}`}
+                                            rows={2}
+                                            value={q.explanation ?? ''}
+                                            onChange={(e) => handleQuestionChange(qIndex, 'explanation', e.target.value || undefined)}
+                                            placeholder={t('explanationPlaceholder')}
+                                            className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+                                        />
                                     </div>
-                                )}
-                            </div>
+                                </div>
+                            ))}
                         </div>
-                    ))}
-                </div>
-            ) : (
-                <div className="text-center py-4 border-2 border-dashed border-slate-300 rounded-lg">
-                    <p className="text-sm text-slate-600">{t('noQuestionsTitle')}</p>
-                </div>
+                    ) : (
+                        <div className="text-center py-4 border-2 border-dashed border-slate-300 rounded-lg">
+                            <p className="text-sm text-slate-600">{t('noQuestionsTitle')}</p>
+                        </div>
+                    )}
+                    {proposedQuestions.length > 0 && (
+                        <GeneratedQuestionsReview
+                          questions={proposedQuestions}
+                          onChange={setProposedQuestions}
+                          onAccept={(accepted) => setQuestions(prev => [...prev, ...accepted])}
+                        />
+                    )}
+                    <div className="flex gap-2">
+                        <button
+                          type="button"
+                          onClick={handleAddQuestion}
+                          className="flex-1 inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 ltr:mr-2 rtl:ml-2 text-slate-500" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" /></svg>
+                            {questions.length > 0 ? t('addAnotherQuestionButton') : t('addQuestionButton')}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={handleGenerateQuestions}
+                          disabled={isGeneratingQuestions || isGeneratingDescription}
+                          title={t('generateQuestionsTooltip')}
+                          className="inline-flex items-center justify-center gap-x-1.5 px-4 py-2 rounded-md bg-sky-50 text-sm font-semibold text-sky-700 shadow-sm hover:bg-sky-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-100 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {isGeneratingQuestions && (
+                                <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                </svg>
+                            )}
+                            {isGeneratingQuestions ? t('generatingQuestions') : t('generateQuestionsButton')}
+                        </button>
+                        {isGeneratingQuestions && (
+                          <button type="button" onClick={() => questionsRequest.current?.abort()} className="rounded-md px-2 py-1 text-sm font-medium text-slate-600 hover:bg-slate-100 hover:text-slate-900 focus:outline-none focus:ring-2 focus:ring-sky-500">{t('aiStopGenerating')}</button>
+                        )}
+                    </div>
+                </>
             )}
-            <button
-              type="button"
-              onClick={handleAddQuestion}
-              className="w-full inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500"
-            >
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 ltr:mr-2 rtl:ml-2 text-slate-500" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" /></svg>
-                {questions.length > 0 ? t('addAnotherQuestionButton') : t('addQuestionButton')}
-            </button>
         </fieldset>
 
          <div>
@@ -449,6 +1040,26 @@ const LocationForm: React.FC<LocationFormProps> = ({ selectedCoords, selectedCou
           </label>
         </div>
 
+        <div className="flex justify-between items-center gap-4">
+          <label htmlFor="passMark" className="text-sm font-medium text-slate-700">
+            {t('locationPassMarkLabel')}
+            <p className="text-xs text-slate-500 font-normal max-w-xs">{t('locationPassMarkDescription')}</p>
+          </label>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <input
+              type="number"
+              id="passMark"
+              min={0}
+              max={100}
+              value={passMark}
+              onChange={(e) => setPassMark(e.target.value)}
+              disabled={isFormDisabled || questions.length === 0}
+              className="w-20 px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm text-slate-900 focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500 disabled:bg-slate-100 disabled:text-slate-500 disabled:border-slate-200 disabled:cursor-not-allowed"
+            />
+            <span className="text-sm text-slate-500">%</span>
+          </div>
+        </div>
+
         <div className="flex space-x-4 rtl:space-x-reverse pt-4 border-t border-slate-200">
           <button type="submit" disabled={isFormDisabled || !title || !description || isGeneratingDescription} className="flex-1 inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-sky-600 hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed">
             {editingLocation ? t('saveChangesButton') : t('addLocationButton')}
@@ -460,6 +1071,17 @@ const LocationForm: React.FC<LocationFormProps> = ({ selectedCoords, selectedCou
           )}
         </div>
       </form>
+      {pendingTranslation && (
+        <TranslationReview
+          sourceLanguage={pendingTranslation.sourceLanguage}
+          targetLanguage={pendingTranslation.language}
+          source={pendingTranslation.source}
+          current={allContent[pendingTranslation.language]}
+          proposed={pendingTranslation.proposed}
+          onApprove={handleApproveTranslation}
+          onDiscard={() => setPendingTranslation(null)}
+        />
+      )}
     </div>
   );
 };
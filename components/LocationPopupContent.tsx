@@ -0,0 +1,96 @@
+import React from 'react';
+import type { Location } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { shuffleForQuestion } from '../utils/quiz';
+import { parseMediaUrl } from '../utils/media';
+import MediaEmbed from './MediaEmbed';
+
+interface LocationPopupContentProps {
+  location: Location;
+}
+
+const LocationPopupContent: React.FC<LocationPopupContentProps> = ({ location: loc }) => {
+  const { t } = useLanguage();
+  const video = loc.video ? parseMediaUrl(loc.video, 'video') : null;
+  const audio = loc.audio ? parseMediaUrl(loc.audio, 'audio') : null;
+
+  return (
+    <div className="w-72 space-y-2 text-slate-800">
+       {loc.image && (
+        <img 
+          src={loc.image} 
+          alt={loc.title} 
+          className="w-full h-24 object-cover rounded-md" 
+          onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
+        />
+      )}
+      <h3 className="font-bold text-lg">{loc.title}, {loc.country}</h3>
+      <div className="text-sm text-gray-600 leading-snug location-description" dangerouslySetInnerHTML={{ __html: loc.description }} />
+      {video && <MediaEmbed source={video} title={loc.title} />}
+      {audio && <MediaEmbed source={audio} title={loc.title} />}
+      
+      {loc.questions && loc.questions.length > 0 && (
+        <div className="mt-3 pt-3 border-t border-slate-200">
+          <h4 className="font-bold text-base mb-2">{t('quizTitle')}</h4>
+          <div className="space-y-3">
+            {loc.questions.map((q, index) => (
+              <div key={q.id}>
+                <p className="font-semibold text-sm">
+                  <span className="font-normal">{index + 1}.</span> {q.text}
+                </p>
+                {q.type === 'multiple_choice' && q.options && (
+                  <ul className="list-disc list-inside ltr:pl-4 rtl:pr-4 mt-1 text-sm space-y-0.5 text-slate-600">
+                    {q.options.map((opt, oIndex) => <li key={oIndex}>{opt}</li>)}
+                  </ul>
+                )}
+                {q.type === 'true_false' && (
+                  <ul className="list-disc list-inside ltr:pl-4 rtl:pr-4 mt-1 text-sm space-y-0.5 text-slate-600">
+                    <li>{t('quizTrue')}</li>
+                    <li>{t('quizFalse')}</li>
+                  </ul>
+                )}
+                {q.type === 'multi_select' && q.options && (
+                  <>
+                    <p className="text-xs text-slate-400 mt-1 ltr:pl-4 rtl:pr-4 italic">{t('quizMultiSelectHint')}</p>
+                    <ul className="list-[square] list-inside ltr:pl-4 rtl:pr-4 mt-1 text-sm space-y-0.5 text-slate-600">
+                      {q.options.map((opt, oIndex) => <li key={oIndex}>{opt}</li>)}
+                    </ul>
+                  </>
+                )}
+                {q.type === 'ordering' && q.items && (
+                  <>
+                    <p className="text-xs text-slate-400 mt-1 ltr:pl-4 rtl:pr-4 italic">{t('quizOrderingHint')}</p>
+                    <ul className="list-disc list-inside ltr:pl-4 rtl:pr-4 mt-1 text-sm space-y-0.5 text-slate-600">
+                      {shuffleForQuestion(q.items, q.id).map((item, iIndex) => <li key={iIndex}>{item}</li>)}
+                    </ul>
+                  </>
+                )}
+                {q.type === 'matching' && q.pairs && (
+                  <>
+                    <p className="text-xs text-slate-400 mt-1 ltr:pl-4 rtl:pr-4 italic">{t('quizMatchingHint')}</p>
+                    <div className="grid grid-cols-2 gap-x-3 ltr:pl-4 rtl:pr-4 mt-1 text-sm text-slate-600">
+                      <ul className="space-y-0.5">
+                        {q.pairs.map((pair, pIndex) => <li key={pIndex}>{pair.prompt}</li>)}
+                      </ul>
+                      <ul className="space-y-0.5">
+                        {shuffleForQuestion(q.pairs.map(pair => pair.match), q.id).map((match, mIndex) => <li key={mIndex}>{match}</li>)}
+                      </ul>
+                    </div>
+                  </>
+                )}
+                {q.type === 'short_answer' && (
+                  <p className="text-xs text-slate-400 mt-1 ltr:pl-4 rtl:pr-4 italic">{t('quizShortAnswerHint')}</p>
+                )}
+                {q.type === 'map_location' && (
+                  <p className="text-xs text-slate-400 mt-1 ltr:pl-4 rtl:pr-4 italic">{t('quizMapLocationHint')}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationPopupContent;
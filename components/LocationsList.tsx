@@ -1,6 +1,10 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import type { Location } from '../types';
+import type { Location, RoutingProfile } from '../types';
 import { useLanguage } from '../contexts/LanguageContext';
+import { ROUTING_PROFILES, type Route, type RouteLeg } from '../services/routing';
+import { routeWaypointsKey, type RouteStatus } from '../hooks/useRoute';
+import { formatDistance, formatDuration } from '../utils/units';
+import { missingTranslations } from '../utils/contentLanguages';
 import {
     DndContext,
     closestCenter,
@@ -24,12 +28,38 @@ interface LocationsListProps {
   onDeleteLocation: (id: string) => void;
   onStartEdit: (location: Location) => void;
   onReorder: (oldIndex: number, newIndex: number) => void;
+  routingProfile: RoutingProfile;
+  onRoutingProfileChange: (profile: RoutingProfile) => void;
+  route: Route | null;
+  routeStatus: RouteStatus;
+  // The waypoints `route` was computed for.
+  routeWaypoints: string | null;
+  // Omitted when there is no other tour to send a location to.
+  onTransferLocation?: (location: Location) => void;
+  contentLanguage: string;
+  fallbackLanguage: string;
+  translationLanguages: string[];
 }
 
-const LocationsList: React.FC<LocationsListProps> = ({ locations, onSelectLocation, onDeleteLocation, onStartEdit, onReorder }) => {
+const LocationsList: React.FC<LocationsListProps> = ({
+  locations,
+  onSelectLocation,
+  onDeleteLocation,
+  onStartEdit,
+  onReorder,
+  routingProfile,
+  onRoutingProfileChange,
+  route,
+  routeStatus,
+  routeWaypoints,
+  onTransferLocation,
+  contentLanguage,
+  fallbackLanguage,
+  translationLanguages,
+}) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearchVisible, setIsSearchVisible] = useState(false);
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const searchInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -55,6 +85,18 @@ const LocationsList: React.FC<LocationsListProps> = ({ locations, onSelectLocati
   }, [locations, searchQuery]);
   
   const isSortingDisabled = !!searchQuery;
+
+  // A route computed for a previous set or order of stops (still loading its
+  // replacement) would pair legs with the wrong stops, so it is only used when
+  // it was computed for the stops as they are now.
+  const currentRoute = route && routeWaypoints === routeWaypointsKey(locations.map(loc => loc.coordinates)) ? route : null;
+  const legsByLocationId = useMemo(() => {
+    const legs: { [id: string]: RouteLeg } = {};
+    currentRoute?.legs.forEach((leg, index) => {
+      legs[locations[index].id] = leg;
+    });
+    return legs;
+  }, [currentRoute, locations]);
   
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -157,13 +199,52 @@ const LocationsList: React.FC<LocationsListProps> = ({ locations, onSelectLocati
                         onSelectLocation={onSelectLocation}
                         onStartEdit={onStartEdit}
                         onDeleteLocation={onDeleteLocation}
+                        onTransferLocation={onTransferLocation}
                         isSortingDisabled={isSortingDisabled}
+                        nextLeg={isSortingDisabled ? null : legsByLocationId[loc.id]}
+                        contentLanguage={contentLanguage}
+                        fallbackLanguage={fallbackLanguage}
+                        missingLanguages={missingTranslations(loc, translationLanguages)}
                     />
                 ))}
                 </ul>
             </SortableContext>
         </DndContext>
       )}
+
+      {locations.length > 1 && (
+        <div className="mt-4 p-3 rounded-lg bg-slate-50 border border-slate-200 space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <label htmlFor="routing-profile" className="text-sm font-medium text-slate-700">{t('routingProfileLabel')}</label>
+            <select
+              id="routing-profile"
+              value={routingProfile}
+              onChange={(e) => onRoutingProfileChange(e.target.value as RoutingProfile)}
+              className="block rounded-md border-slate-300 py-1.5 text-sm text-slate-900 shadow-sm focus:border-sky-500 focus:ring-sky-500"
+            >
+              {ROUTING_PROFILES.map(profile => (
+                <option key={profile} value={profile}>{t(`routingProfile_${profile}`)}</option>
+              ))}
+            </select>
+          </div>
+          {currentRoute && (
+            <p className="text-sm font-semibold text-slate-800">
+              {currentRoute.duration === null
+                ? t('routeTotalDistance', { distance: formatDistance(currentRoute.distance, language) })
+                : t('routeTotalDistanceDuration', {
+                    distance: formatDistance(currentRoute.distance, language),
+                    duration: formatDuration(currentRoute.duration, language),
+                  })}
+            </p>
+          )}
+          {routeStatus === 'loading' && (
+            <p className="text-xs text-slate-500">{t('routeLoading')}</p>
+          )}
+          {routeStatus === 'error' && (
+            <p className="text-xs text-amber-700">{t('routeError')}</p>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,19 +1,16 @@
-import React, { useEffect } from 'react';
-import type { Location } from '../types';
+import React, { useEffect, useRef, useMemo, useState, useCallback } from 'react';
+import type { Location, QuizMapOverlay } from '../types';
 import type { LatLngTuple, LatLngBoundsExpression } from 'leaflet';
-import { MapContainer, TileLayer, Marker, Popup, useMap, useMapEvents, Polyline, AttributionControl } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, useMap, useMapEvents, Polyline, AttributionControl, LayersControl, Circle, Polygon, CircleMarker } from 'react-leaflet';
 import { useLanguage } from '../contexts/LanguageContext';
+import type { TranslationKey } from '../locales';
+import type { Route } from '../services/routing';
+import { BASE_LAYERS, resolveBaseLayer } from '../services/baseLayers';
+import ClusteredMarkers from './ClusteredMarkers';
+import LocationPopupContent from './LocationPopupContent';
 
-// Fix for default marker icon issue with bundlers/frameworks
-// This is a common workaround for react-leaflet
 import L from 'leaflet';
-// @ts-ignore
-delete L.Icon.Default.prototype._getIconUrl;
-L.Icon.Default.mergeOptions({
-  iconRetinaUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png',
-  iconUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png',
-  shadowUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
-});
+import { getMarkerColor, getStopIcon } from '../utils/markerStyles';
 
 interface MapClickHandlerProps {
   onMapClick: (coords: LatLngTuple) => void;
@@ -75,6 +72,119 @@ const MapResizer: React.FC<MapResizerProps> = ({ isSidebarOpen }) => {
   return null;
 };
 
+interface BaseLayerControlProps {
+  // The tour's basemap, or null for the deployment's default.
+  defaultLayerId: string | null;
+}
+
+// Lists every available basemap in Leaflet's layer control. The choice made here
+// only lasts for the session; the tour's saved basemap is set in its details.
+const BaseLayerControl: React.FC<BaseLayerControlProps> = ({ defaultLayerId }) => {
+  const { t, language, dir } = useLanguage();
+  const checkedId = resolveBaseLayer(defaultLayerId).id;
+
+  // `checked` is only read when the control mounts, so switching to a tour with
+  // another basemap remounts it. The sidebar buttons sit on the right in right-to-left languages.
+  return (
+    <LayersControl key={`${checkedId}-${language}`} position={dir === 'rtl' ? 'topleft' : 'topright'}>
+      {BASE_LAYERS.map(layer => (
+        <LayersControl.BaseLayer key={layer.id} name={layer.name ?? t(`baseLayer_${layer.id}` as TranslationKey)} checked={layer.id === checkedId}>
+          <TileLayer
+            url={layer.url}
+            attribution={layer.attribution}
+            maxZoom={layer.maxZoom}
+            {...(layer.subdomains && { subdomains: layer.subdomains })}
+          />
+        </LayersControl.BaseLayer>
+      ))}
+    </LayersControl>
+  );
+};
+
+interface LocationMarkerProps {
+  location: Location;
+  // Position in the tour, 1-based.
+  number: number;
+  isSelected: boolean;
+  draggable: boolean;
+  onMove: (id: string, coords: LatLngTuple) => Promise<boolean>;
+}
+
+// A saved location's marker that can be dragged to a new position. Pressing
+// Escape mid-drag puts the marker back where it started. The popup's content is
+// only built while it is open, since most markers are never clicked.
+const LocationMarker: React.FC<LocationMarkerProps> = React.memo(({ location, number, isSelected, draggable, onMove }) => {
+  const markerRef = useRef<L.Marker | null>(null);
+  const [isPopupOpen, setIsPopupOpen] = useState(false);
+  const dragOriginRef = useRef<L.LatLng | null>(null);
+  const isCancelledRef = useRef(false);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const marker = markerRef.current;
+      if (event.key !== 'Escape' || !marker || !dragOriginRef.current) return;
+      isCancelledRef.current = true;
+      // Disabling the drag handler ends the drag in progress; dragend sees the
+      // cancelled flag and leaves the location alone.
+      marker.dragging?.disable();
+      marker.setLatLng(dragOriginRef.current);
+      marker.dragging?.enable();
+      dragOriginRef.current = null;
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // The popup was sized while empty; re-measure it now that it has content.
+  useEffect(() => {
+    if (isPopupOpen) {
+      markerRef.current?.getPopup()?.update();
+    }
+  }, [isPopupOpen, location]);
+
+  const eventHandlers = useMemo(() => ({
+    popupopen: () => setIsPopupOpen(true),
+    popupclose: () => setIsPopupOpen(false),
+    dragstart: () => {
+      isCancelledRef.current = false;
+      dragOriginRef.current = markerRef.current?.getLatLng() ?? null;
+    },
+    dragend: async () => {
+      const marker = markerRef.current;
+      const origin = dragOriginRef.current;
+      dragOriginRef.current = null;
+      if (!marker || !origin || isCancelledRef.current) return;
+
+      const { lat, lng } = marker.getLatLng();
+      const moved = await onMove(location.id, [lat, lng]);
+      if (!moved) {
+        marker.setLatLng(origin);
+      }
+    },
+  }), [location.id, onMove]);
+
+  const icon = getStopIcon({
+    number,
+    state: isSelected ? 'selected' : 'default',
+    color: getMarkerColor(location),
+    icon: location.markerIcon,
+  });
+
+  return (
+    <Marker
+      ref={markerRef}
+      position={location.coordinates}
+      icon={icon}
+      zIndexOffset={isSelected ? 1000 : 0}
+      draggable={draggable}
+      eventHandlers={eventHandlers}
+    >
+      <Popup>
+        {isPopupOpen && <LocationPopupContent location={location} />}
+      </Popup>
+    </Marker>
+  );
+});
 
 interface MapComponentProps {
   locations: Location[];
@@ -85,7 +195,13 @@ interface MapComponentProps {
   boundsToFit: LatLngBoundsExpression | null;
   onBoundsFitted: () => void;
   editingLocation: Location | null;
+  selectedLocationId: string | null;
   isSidebarOpen: boolean;
+  isMoveMode: boolean;
+  onMoveLocation: (id: string, coords: LatLngTuple) => Promise<boolean>;
+  route: Route | null;
+  baseLayerId: string | null;
+  quizOverlay: QuizMapOverlay | null;
 }
 
 const MapComponent: React.FC<MapComponentProps> = ({ 
@@ -97,80 +213,110 @@ const MapComponent: React.FC<MapComponentProps> = ({
     boundsToFit,
     onBoundsFitted,
     editingLocation,
+    selectedLocationId,
     isSidebarOpen,
+    isMoveMode,
+    onMoveLocation,
+    route,
+    baseLayerId,
+    quizOverlay,
  }) => {
   const { t } = useLanguage();
-  const pathCoordinates = locations.map(loc => loc.coordinates);
-  const locationsToDisplay = locations.filter(loc => loc.id !== editingLocation?.id);
+  const pathCoordinates = useMemo(() => locations.map(loc => loc.coordinates), [locations]);
+  const locationsToDisplay = useMemo(
+    () => locations.filter(loc => loc.id !== editingLocation?.id),
+    [locations, editingLocation?.id]
+  );
+  const numberById = useMemo(() => {
+    const numbers: { [id: string]: number } = {};
+    locations.forEach((loc, index) => {
+      numbers[loc.id] = index + 1;
+    });
+    return numbers;
+  }, [locations]);
+
+  // The pending marker stands in for the stop being edited, or for the stop
+  // about to be appended to the tour.
+  const pendingIcon = editingLocation
+    ? getStopIcon({
+        number: numberById[editingLocation.id] ?? locations.length + 1,
+        state: 'editing',
+        color: getMarkerColor(editingLocation),
+        icon: editingLocation.markerIcon,
+      })
+    : getStopIcon({
+        number: locations.length + 1,
+        state: 'new',
+        color: getMarkerColor({}),
+      });
+
+  // `onMoveLocation` changes whenever the locations do; going through a ref keeps
+  // the memoized markers from all re-rendering after every edit.
+  const onMoveLocationRef = useRef(onMoveLocation);
+  onMoveLocationRef.current = onMoveLocation;
+  const handleMoveLocation = useCallback(
+    (id: string, coords: LatLngTuple) => onMoveLocationRef.current(id, coords),
+    []
+  );
 
   return (
-    <MapContainer center={viewCoords} zoom={viewZoom} scrollWheelZoom={true} className="h-full w-full" attributionControl={false}>
-      <TileLayer
-        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-      />
+    <MapContainer center={viewCoords} zoom={viewZoom} scrollWheelZoom={true} preferCanvas={true} className="h-full w-full" attributionControl={false}>
+      <BaseLayerControl defaultLayerId={baseLayerId} />
       <AttributionControl position="topright" prefix={false} />
       <ViewUpdater coords={viewCoords} zoom={viewZoom} />
       <BoundsFitter bounds={boundsToFit} onFitted={onBoundsFitted} />
       <MapResizer isSidebarOpen={isSidebarOpen} />
 
-      {locationsToDisplay.map((loc) => (
-        <Marker key={loc.id} position={loc.coordinates}>
-          <Popup>
-            <div className="w-72 space-y-2 text-slate-800">
-               {loc.image && (
-                <img 
-                  src={loc.image} 
-                  alt={loc.title} 
-                  className="w-full h-24 object-cover rounded-md" 
-                  onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
-                />
-              )}
-              <h3 className="font-bold text-lg">{loc.title}, {loc.country}</h3>
-              <div className="text-sm text-gray-600 leading-snug location-description" dangerouslySetInnerHTML={{ __html: loc.description }} />
-              
-              {loc.questions && loc.questions.length > 0 && (
-                <div className="mt-3 pt-3 border-t border-slate-200">
-                  <h4 className="font-bold text-base mb-2">{t('quizTitle')}</h4>
-                  <div className="space-y-3">
-                    {loc.questions.map((q, index) => (
-                      <div key={q.id}>
-                        <p className="font-semibold text-sm">
-                          <span className="font-normal">{index + 1}.</span> {q.text}
-                        </p>
-                        {q.type === 'multiple_choice' && q.options && (
-                          <ul className="list-disc list-inside ltr:pl-4 rtl:pr-4 mt-1 text-sm space-y-0.5 text-slate-600">
-                            {q.options.map((opt, oIndex) => <li key={oIndex}>{opt}</li>)}
-                          </ul>
-                        )}
-                        {q.type === 'true_false' && (
-                          <ul className="list-disc list-inside ltr:pl-4 rtl:pr-4 mt-1 text-sm space-y-0.5 text-slate-600">
-                            <li>{t('quizTrue')}</li>
-                            <li>{t('quizFalse')}</li>
-                          </ul>
-                        )}
-                        {q.type === 'short_answer' && (
-                          <p className="text-xs text-slate-400 mt-1 ltr:pl-4 rtl:pr-4 italic">{t('quizShortAnswerHint')}</p>
-                        )}
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
-            </div>
-          </Popup>
-        </Marker>
-      ))}
+      <ClusteredMarkers
+        locations={locationsToDisplay}
+        renderMarker={(loc) => (
+          <LocationMarker
+            location={loc}
+            number={numberById[loc.id]}
+            isSelected={loc.id === selectedLocationId}
+            draggable={isMoveMode}
+            onMove={handleMoveLocation}
+          />
+        )}
+      />
 
-      {pathCoordinates.length > 1 && (
+      {pathCoordinates.length > 1 && (route && route.profile !== 'straight' ? (
+        <Polyline
+          positions={route.geometry}
+          pathOptions={{ color: '#0d9488', weight: 5, opacity: 0.8 }}
+        />
+      ) : (
         <Polyline 
           positions={pathCoordinates} 
           pathOptions={{ color: '#14b8a6', weight: 4, opacity: 0.8, dashArray: '8, 8' }} 
         />
-      )}
+      ))}
+
+      {quizOverlay?.targets.map((target, index) => target.type === 'point' ? (
+        <Circle
+          key={`target-${index}`}
+          center={target.coordinates}
+          radius={target.radius}
+          pathOptions={{ color: '#7c3aed', weight: 2, fillOpacity: 0.15 }}
+        />
+      ) : (
+        <Polygon
+          key={`target-${index}`}
+          positions={target.coordinates}
+          pathOptions={{ color: '#7c3aed', weight: 2, fillOpacity: 0.15 }}
+        />
+      ))}
+      {quizOverlay?.picks.map((pick, index) => (
+        <CircleMarker
+          key={`pick-${index}`}
+          center={pick}
+          radius={7}
+          pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#e11d48', fillOpacity: 1 }}
+        />
+      ))}
 
       {selectedCoords && (
-         <Marker position={selectedCoords}>
+         <Marker position={selectedCoords} icon={pendingIcon} zIndexOffset={2000}>
            <Popup>
             <div className="text-slate-800">
               {t('newLocationPopup')} <br/> {selectedCoords[0].toFixed(4)}, {selectedCoords[1].toFixed(4)}
@@ -1,6 +1,8 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useLanguage } from '../contexts/LanguageContext';
 import type { Place } from '../types';
+import { geocoder } from '../services/geocoding';
+import { isAbortError } from '../utils/abort';
 
 interface MapSearchControlProps {
   onSearch: (query: string) => void;
@@ -19,23 +21,38 @@ const MapSearchControl: React.FC<MapSearchControlProps> = ({ onSearch, onPlaceSe
   const suggestionsListRef = useRef<HTMLUListElement>(null);
   const debounceTimeoutRef = useRef<number | null>(null);
 
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Cancels the in-flight suggestion request so a slow, stale response can't
+  // overwrite suggestions for a newer query.
+  const cancelPendingSuggestions = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+  };
+
   const fetchSuggestions = useCallback(async (searchQuery: string) => {
     // This function now only fetches and sets state upon completion.
     // The loading state is managed by the caller.
+    cancelPendingSuggestions();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     try {
-      const response = await fetch(`https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(searchQuery)}&format=json&limit=5`, {
-        headers: { 'Accept-Language': language }
-      });
-      const data = await response.json();
-      setSuggestions(data || []);
+      const places = await geocoder.suggest(searchQuery, { language, limit: 5, signal: controller.signal });
+      setSuggestions(places);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Failed to fetch suggestions:", error);
       setSuggestions([]);
     } finally {
-      setIsFetchingSuggestions(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsFetchingSuggestions(false);
+      }
     }
   }, [language]);
 
+  useEffect(() => cancelPendingSuggestions, []);
+
   const handleQueryChange = (newQuery: string) => {
     setQuery(newQuery);
 
@@ -44,6 +61,7 @@ const MapSearchControl: React.FC<MapSearchControlProps> = ({ onSearch, onPlaceSe
     }
 
     if (newQuery.length < 2) {
+        cancelPendingSuggestions();
         setSuggestions([]);
         setShowSuggestions(false);
         setIsFetchingSuggestions(false);
@@ -77,6 +95,7 @@ const MapSearchControl: React.FC<MapSearchControlProps> = ({ onSearch, onPlaceSe
 
   const handleSuggestionClick = (place: Place) => {
     if (debounceTimeoutRef.current) clearTimeout(debounceTimeoutRef.current);
+    cancelPendingSuggestions();
     setQuery(place.display_name);
     setShowSuggestions(false);
     setIsFetchingSuggestions(false);
@@ -89,6 +108,8 @@ const MapSearchControl: React.FC<MapSearchControlProps> = ({ onSearch, onPlaceSe
       handleSuggestionClick(suggestions[highlightedIndex]);
     } else {
       if (debounceTimeoutRef.current) clearTimeout(debounceTimeoutRef.current);
+      cancelPendingSuggestions();
+      setIsFetchingSuggestions(false);
       setShowSuggestions(false);
       onSearch(query);
     }
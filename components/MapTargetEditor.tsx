@@ -0,0 +1,97 @@
+import React from 'react';
+import type { MapTarget } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { DEFAULT_TARGET_RADIUS } from '../utils/quiz';
+
+interface MapTargetEditorProps {
+  // Unique per question, for input ids.
+  questionId: string;
+  target: MapTarget | undefined;
+  // Whether map clicks currently go to this target.
+  isPicking: boolean;
+  onTogglePick: () => void;
+  onChange: (target: MapTarget | undefined) => void;
+}
+
+// Sets the answer area of a "find it on the map" question: a point with a
+// tolerance radius, or a polygon drawn one corner per map click.
+const MapTargetEditor: React.FC<MapTargetEditorProps> = ({ questionId, target, isPicking, onTogglePick, onChange }) => {
+  const { t } = useLanguage();
+  const mode = target?.type ?? 'point';
+
+  const handleModeChange = (nextMode: MapTarget['type']) => {
+    if (nextMode === mode) return;
+    onChange(nextMode === 'polygon' ? { type: 'polygon', coordinates: [] } : undefined);
+  };
+
+  let pickLabel: string;
+  if (mode === 'polygon') {
+    pickLabel = isPicking ? t('mapTargetFinishDrawingButton') : t('mapTargetDrawButton');
+  } else {
+    pickLabel = isPicking ? t('mapTargetPickingButton') : target ? t('mapTargetMoveButton') : t('mapTargetSetButton');
+  }
+
+  return (
+    <div className="mt-2 space-y-3">
+      <div className="flex items-center space-x-4 rtl:space-x-reverse">
+        <label className="flex items-center">
+          <input type="radio" name={`q-target-mode-${questionId}`} checked={mode === 'point'} onChange={() => handleModeChange('point')} className="focus:ring-sky-500 h-4 w-4 text-sky-600 border-slate-300" />
+          <span className="ltr:ml-2 rtl:mr-2 text-sm">{t('mapTargetPointMode')}</span>
+        </label>
+        <label className="flex items-center">
+          <input type="radio" name={`q-target-mode-${questionId}`} checked={mode === 'polygon'} onChange={() => handleModeChange('polygon')} className="focus:ring-sky-500 h-4 w-4 text-sky-600 border-slate-300" />
+          <span className="ltr:ml-2 rtl:mr-2 text-sm">{t('mapTargetPolygonMode')}</span>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={onTogglePick}
+          aria-pressed={isPicking}
+          className={`inline-flex items-center px-3 py-1.5 border text-sm font-medium rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-violet-500 ${isPicking ? 'border-transparent bg-violet-600 text-white hover:bg-violet-700' : 'border-slate-300 bg-white text-slate-700 hover:bg-slate-50'}`}
+        >
+          {pickLabel}
+        </button>
+        {target && (target.type === 'point' || target.coordinates.length > 0) && (
+          <button
+            type="button"
+            onClick={() => onChange(mode === 'polygon' ? { type: 'polygon', coordinates: [] } : undefined)}
+            className="text-sm font-medium text-red-600 hover:text-red-800"
+          >
+            {t('mapTargetClearButton')}
+          </button>
+        )}
+      </div>
+
+      {target?.type === 'point' && (
+        <div className="flex flex-wrap items-end gap-4">
+          <p className="text-xs text-slate-500">
+            {t('mapTargetPointSummary', { coords: `${target.coordinates[0].toFixed(4)}, ${target.coordinates[1].toFixed(4)}` })}
+          </p>
+          <div className="w-32">
+            <label htmlFor={`q-target-radius-${questionId}`} className="block text-sm font-medium text-slate-600">{t('mapTargetRadiusLabel')}</label>
+            <input
+              type="number"
+              id={`q-target-radius-${questionId}`}
+              min={1}
+              value={target.radius}
+              onChange={(e) => onChange({ ...target, radius: Number(e.target.value) || DEFAULT_TARGET_RADIUS })}
+              className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+            />
+          </div>
+        </div>
+      )}
+      {target?.type === 'polygon' && (
+        <p className="text-xs text-slate-500">
+          {target.coordinates.length < 3
+            ? t('mapTargetPolygonTooFew', { count: target.coordinates.length })
+            : t('mapTargetPolygonSummary', { count: target.coordinates.length })}
+        </p>
+      )}
+      <p className="text-xs text-slate-500">{t('mapTargetScoringHint')}</p>
+    </div>
+  );
+};
+
+export default MapTargetEditor;
@@ -0,0 +1,47 @@
+import React from 'react';
+import type { MatchingPair } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+
+const inputClass = "block w-full px-3 py-1.5 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500";
+
+const RemoveIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M5 10a1 1 0 011-1h8a1 1 0 110 2H6a1 1 0 01-1-1z" clipRule="evenodd" /></svg>
+);
+
+interface MatchingEditorProps {
+  pairs: MatchingPair[];
+  onChange: (pairs: MatchingPair[]) => void;
+}
+
+// Prompts of a matching question, each beside its correct match. Learners
+// pick each match from the whole list.
+const MatchingEditor: React.FC<MatchingEditorProps> = ({ pairs, onChange }) => {
+  const { t } = useLanguage();
+
+  const handlePairChange = (index: number, field: keyof MatchingPair, value: string) => {
+    onChange(pairs.map((pair, i) => (i === index ? { ...pair, [field]: value } : pair)));
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="grid grid-cols-2 gap-2 ltr:pr-9 rtl:pl-9">
+        <p className="text-xs text-slate-500">{t('matchingPromptLabel')}</p>
+        <p className="text-xs text-slate-500">{t('matchingMatchLabel')}</p>
+      </div>
+      {pairs.map((pair, index) => (
+        <div key={index} className="flex items-center space-x-2 rtl:space-x-reverse">
+          <div className="grid grid-cols-2 gap-2 flex-grow">
+            <input type="text" value={pair.prompt} onChange={(e) => handlePairChange(index, 'prompt', e.target.value)} aria-label={t('matchingPromptLabel')} className={inputClass} />
+            <input type="text" value={pair.match} onChange={(e) => handlePairChange(index, 'match', e.target.value)} aria-label={t('matchingMatchLabel')} className={inputClass} />
+          </div>
+          <button type="button" onClick={() => onChange(pairs.filter((_, i) => i !== index))} disabled={pairs.length <= 2} title={t('removePairButton')} className="p-1.5 rounded-full text-slate-400 hover:bg-red-50 hover:text-red-600 disabled:opacity-30">
+            <RemoveIcon />
+          </button>
+        </div>
+      ))}
+      <button type="button" onClick={() => onChange([...pairs, { prompt: '', match: '' }])} className="text-sm font-medium text-sky-600 hover:text-sky-800">+ {t('addPairButton')}</button>
+    </div>
+  );
+};
+
+export default MatchingEditor;
@@ -0,0 +1,38 @@
+import React from 'react';
+import type { MediaSource } from '../utils/media';
+
+interface MediaEmbedProps {
+  source: MediaSource;
+  title: string;
+  className?: string;
+}
+
+// The player for a recognized video or audio link.
+const MediaEmbed: React.FC<MediaEmbedProps> = ({ source, title, className = '' }) => {
+  if (source.type === 'file') {
+    return source.field === 'video' ? (
+      <video key={source.url} controls preload="metadata" className={`w-full rounded-lg bg-black ${className}`}>
+        <source src={source.url} type={source.mimeType} />
+      </video>
+    ) : (
+      <audio key={source.url} controls preload="metadata" className={`w-full ${className}`}>
+        <source src={source.url} type={source.mimeType} />
+      </audio>
+    );
+  }
+
+  return (
+    <div className={`w-full aspect-video rounded-lg overflow-hidden bg-black ${className}`}>
+      <iframe
+        src={source.embedUrl}
+        title={title}
+        className="w-full h-full"
+        allow="autoplay; encrypted-media; fullscreen; picture-in-picture"
+        allowFullScreen
+        loading="lazy"
+      />
+    </div>
+  );
+};
+
+export default MediaEmbed;
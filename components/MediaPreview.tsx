@@ -0,0 +1,62 @@
+import React, { useState, useEffect } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { TranslationKey } from '../locales';
+import { parseMediaUrl, type MediaField } from '../utils/media';
+import { probeMedia, type MediaProbeResult } from '../services/media';
+import MediaEmbed from './MediaEmbed';
+
+// Links are probed once typing pauses.
+const PROBE_DELAY_MS = 600;
+
+const UNRECOGNIZED_KEYS: { [field in MediaField]: TranslationKey } = {
+  video: 'mediaUnrecognized_video',
+  audio: 'mediaUnrecognized_audio',
+};
+
+interface MediaPreviewProps {
+  url: string;
+  field: MediaField;
+  title: string;
+}
+
+// Plays a video or audio link as it is typed into the location form, and says
+// why when it can't.
+const MediaPreview: React.FC<MediaPreviewProps> = ({ url, field, title }) => {
+  const { t } = useLanguage();
+  const source = url.trim() ? parseMediaUrl(url, field) : null;
+  const [probe, setProbe] = useState<{ url: string; result: MediaProbeResult } | null>(null);
+
+  useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      probeMedia(source).then(result => {
+        if (!cancelled) setProbe({ url, result });
+      });
+    }, PROBE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // `source` is derived from these.
+  }, [url, field]);
+
+  if (!url.trim()) return null;
+
+  if (!source) {
+    return <p className="mt-1 text-xs text-amber-700">{t(UNRECOGNIZED_KEYS[field])}</p>;
+  }
+
+  const result = probe?.url === url ? probe.result : null;
+
+  return (
+    <div className="mt-2 space-y-1">
+      {result === null && <p className="text-xs text-slate-500" aria-live="polite">{t('mediaChecking')}</p>}
+      {result === 'broken' && <p className="text-xs text-red-600" aria-live="polite">{t('mediaBroken')}</p>}
+      {result === 'unsupported' && <p className="text-xs text-amber-700" aria-live="polite">{t('mediaUnsupported')}</p>}
+      {result !== 'broken' && <MediaEmbed source={source} title={title} />}
+    </div>
+  );
+};
+
+export default MediaPreview;
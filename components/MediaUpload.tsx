@@ -0,0 +1,120 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { acceptedTypes, uploadMedia, isMediaOfKind, maxUploadBytes, MediaUploadError, type MediaKind } from '../services/media';
+import { isAbortError } from '../utils/abort';
+import type { TranslationKey } from '../locales';
+
+interface MediaUploadProps {
+  kind: MediaKind;
+  // Receives the uploaded file's URL.
+  onUploaded: (url: string) => void;
+  disabled?: boolean;
+}
+
+const DROP_HINT_KEYS: { [kind in MediaKind]: TranslationKey } = {
+  image: 'mediaUploadDropHint_image',
+  video: 'mediaUploadDropHint_video',
+  audio: 'mediaUploadDropHint_audio',
+};
+
+const WRONG_TYPE_KEYS: { [kind in MediaKind]: TranslationKey } = {
+  image: 'mediaUploadWrongType_image',
+  video: 'mediaUploadWrongType_video',
+  audio: 'mediaUploadWrongType_audio',
+};
+
+type UploadStatus =
+  | { phase: 'idle' }
+  | { phase: 'compressing' }
+  | { phase: 'uploading'; progress: number };
+
+// A drop zone, with a file picker fallback, that uploads one file of `kind`.
+const MediaUpload: React.FC<MediaUploadProps> = ({ kind, onUploaded, disabled = false }) => {
+  const { t } = useLanguage();
+  const [status, setStatus] = useState<UploadStatus>({ phase: 'idle' });
+  const [isDragOver, setIsDragOver] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleFile = async (file: File) => {
+    if (!isMediaOfKind(file, kind)) {
+      alert(t(WRONG_TYPE_KEYS[kind]));
+      return;
+    }
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setStatus(kind === 'image' ? { phase: 'compressing' } : { phase: 'uploading', progress: 0 });
+    try {
+      const { url } = await uploadMedia(file, kind, {
+        signal: controller.signal,
+        onProgress: progress => setStatus({ phase: 'uploading', progress }),
+      });
+      onUploaded(url);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Media upload failed:', error);
+        if (error instanceof MediaUploadError && error.kind === 'too_large') {
+          alert(t('mediaUploadTooLarge', { size: maxUploadBytes(kind) / (1024 * 1024) }));
+        } else if (error instanceof MediaUploadError && error.kind === 'config') {
+          alert(t('mediaUploadUnavailable'));
+        } else {
+          alert(t('mediaUploadError'));
+        }
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setStatus({ phase: 'idle' });
+      }
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const file = e.dataTransfer.files[0];
+    if (file && !disabled && status.phase === 'idle') handleFile(file);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) handleFile(file);
+  };
+
+  if (status.phase !== 'idle') {
+    const percent = status.phase === 'uploading' ? Math.round(status.progress * 100) : 0;
+    return (
+      <div className="mt-2 p-3 border border-slate-200 rounded-md bg-slate-50 space-y-2" aria-live="polite">
+        <div className="flex items-center justify-between gap-3 text-xs text-slate-600">
+          <span>{status.phase === 'compressing' ? t('mediaUploadCompressing') : t('mediaUploadProgress', { percent })}</span>
+          <button type="button" onClick={() => controllerRef.current?.abort()} className="font-medium text-slate-500 hover:text-red-600">
+            {t('cancelButton')}
+          </button>
+        </div>
+        <div className="h-1.5 w-full rounded-full bg-slate-200 overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={percent}>
+          <div className="h-full bg-sky-500 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      onDragOver={(e) => { e.preventDefault(); if (!disabled) setIsDragOver(true); }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+      className={`mt-2 px-3 py-2 border-2 border-dashed rounded-md text-xs text-center transition-colors ${isDragOver ? 'border-sky-500 bg-sky-50 text-sky-700' : 'border-slate-300 text-slate-500'} ${disabled ? 'opacity-50' : ''}`}
+    >
+      {t(DROP_HINT_KEYS[kind])}{' '}
+      <button type="button" onClick={() => inputRef.current?.click()} disabled={disabled} className="font-medium text-sky-600 hover:text-sky-800 disabled:cursor-not-allowed">
+        {t('mediaUploadBrowseButton')}
+      </button>
+      <input ref={inputRef} type="file" accept={acceptedTypes(kind).join(',')} onChange={handleInputChange} className="hidden" />
+    </div>
+  );
+};
+
+export default MediaUpload;
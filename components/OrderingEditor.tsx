@@ -0,0 +1,45 @@
+import React from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+
+const inputClass = "block w-full px-3 py-1.5 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500";
+
+const RemoveIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M5 10a1 1 0 011-1h8a1 1 0 110 2H6a1 1 0 01-1-1z" clipRule="evenodd" /></svg>
+);
+
+const moveItem = (items: string[], index: number, offset: number): string[] => {
+  const next = [...items];
+  [next[index], next[index + offset]] = [next[index + offset], next[index]];
+  return next;
+};
+
+interface OrderingEditorProps {
+  items: string[];
+  onChange: (items: string[]) => void;
+}
+
+// Items of an ordering question, listed in their correct order. Learners see
+// them shuffled.
+const OrderingEditor: React.FC<OrderingEditorProps> = ({ items, onChange }) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className="mt-2 space-y-2">
+      <p className="text-xs text-slate-500">{t('orderingItemsLabel')}</p>
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center space-x-2 rtl:space-x-reverse">
+          <span className="w-6 text-sm font-semibold text-slate-500 text-center">{index + 1}.</span>
+          <input type="text" value={item} onChange={(e) => onChange(items.map((value, i) => (i === index ? e.target.value : value)))} className={inputClass} />
+          <button type="button" onClick={() => onChange(moveItem(items, index, -1))} disabled={index === 0} title={t('moveItemUpButton')} className="p-1 text-slate-400 hover:text-sky-600 disabled:opacity-30">↑</button>
+          <button type="button" onClick={() => onChange(moveItem(items, index, 1))} disabled={index === items.length - 1} title={t('moveItemDownButton')} className="p-1 text-slate-400 hover:text-sky-600 disabled:opacity-30">↓</button>
+          <button type="button" onClick={() => onChange(items.filter((_, i) => i !== index))} disabled={items.length <= 2} title={t('removeItemButton')} className="p-1.5 rounded-full text-slate-400 hover:bg-red-50 hover:text-red-600 disabled:opacity-30">
+            <RemoveIcon />
+          </button>
+        </div>
+      ))}
+      <button type="button" onClick={() => onChange([...items, ''])} className="text-sm font-medium text-sky-600 hover:text-sky-800">+ {t('addItemButton')}</button>
+    </div>
+  );
+};
+
+export default OrderingEditor;
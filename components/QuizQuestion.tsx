@@ -0,0 +1,192 @@
+import React from 'react';
+import type { Question, QuizResponse } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { distanceFromTarget, parseMapResponse, questionPoints, shuffleForQuestion } from '../utils/quiz';
+import { formatDistance } from '../utils/units';
+
+interface QuizQuestionProps {
+  question: Question;
+  // Position within the stop's quiz, 1-based.
+  number: number;
+  // Unique across the whole tour; questions copied between stops share ids.
+  inputId: string;
+  response: QuizResponse;
+  // Outcome of the latest check, or null while unchecked.
+  result: boolean | null;
+  // Whether the question has been checked at least once; reveals the explanation.
+  attempted: boolean;
+  disabled: boolean;
+  onChange: (response: QuizResponse) => void;
+  // Whether this `map_location` question is waiting for a map click.
+  isPicking: boolean;
+  onTogglePick: () => void;
+}
+
+// One answerable question in the learner player.
+const QuizQuestion: React.FC<QuizQuestionProps> = ({ question, number, inputId, response, result, attempted, disabled, onChange, isPicking, onTogglePick }) => {
+  const { t, language } = useLanguage();
+  const points = questionPoints(question);
+
+  const choices = question.type === 'true_false'
+    ? [{ value: 'true', label: t('quizTrue') }, { value: 'false', label: t('quizFalse') }]
+    : (question.options ?? []).map(option => ({ value: option, label: option }));
+
+  const selected = Array.isArray(response) ? response : [];
+  // Matches are listed in a fixed shuffled order so their position gives nothing away.
+  const matchChoices = question.type === 'matching'
+    ? shuffleForQuestion((question.pairs ?? []).map(pair => pair.match), question.id)
+    : [];
+
+  const toggleSelected = (option: string) => {
+    onChange(selected.includes(option) ? selected.filter(value => value !== option) : [...selected, option]);
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    const next = [...selected];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const setMatch = (index: number, match: string) => {
+    onChange(selected.map((value, i) => (i === index ? match : value)));
+  };
+
+  const pick = question.type === 'map_location' ? parseMapResponse(response) : null;
+  const missedBy = pick && question.target && result === false ? distanceFromTarget(question.target, pick) : null;
+
+  const borderClass = result === true
+    ? 'border-green-300 bg-green-50'
+    : result === false ? 'border-red-300 bg-red-50' : 'border-slate-200 bg-white';
+
+  return (
+    <fieldset className={`p-4 border rounded-lg space-y-2 ${borderClass}`} disabled={disabled}>
+      <legend className="sr-only">{t('playerQuestionLegend', { number })}</legend>
+      <div className="flex items-start justify-between gap-3">
+        <p className="font-semibold text-sm text-slate-800">
+          <span className="font-normal">{number}.</span> {question.text}
+        </p>
+        <span className="flex-shrink-0 text-xs text-slate-500">{t('playerQuestionPoints', { points })}</span>
+      </div>
+
+      {question.type === 'map_location' ? (
+        <div className="space-y-1.5">
+          <button
+            type="button"
+            onClick={onTogglePick}
+            aria-pressed={isPicking}
+            className={`inline-flex items-center px-3 py-1.5 border text-sm font-medium rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-violet-500 ${isPicking ? 'border-transparent bg-violet-600 text-white hover:bg-violet-700' : 'border-slate-300 bg-white text-slate-700 hover:bg-slate-50'}`}
+          >
+            {isPicking ? t('playerPickingOnMap') : pick ? t('playerPickAgainButton') : t('playerPickOnMapButton')}
+          </button>
+          {pick && (
+            <p className="text-xs text-slate-500">{t('playerPickedLocation', { coords: `${pick[0].toFixed(4)}, ${pick[1].toFixed(4)}` })}</p>
+          )}
+        </div>
+      ) : question.type === 'multi_select' ? (
+        <div className="space-y-1.5">
+          <p className="text-xs text-slate-500">{t('quizMultiSelectHint')}</p>
+          {(question.options ?? []).map((option, index) => (
+            <label key={index} className="flex items-center text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={selected.includes(option)}
+                onChange={() => toggleSelected(option)}
+                className="focus:ring-sky-500 h-4 w-4 text-sky-600 border-slate-300 rounded"
+              />
+              <span className="ltr:ml-2 rtl:mr-2">{option}</span>
+            </label>
+          ))}
+        </div>
+      ) : question.type === 'ordering' ? (
+        <div className="space-y-1.5">
+          <p className="text-xs text-slate-500">{t('quizOrderingHint')}</p>
+          <ol className="space-y-1.5">
+            {selected.map((item, index) => (
+              <li key={index} className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-300 rounded-md text-sm text-slate-700">
+                <span className="font-semibold text-slate-500">{index + 1}.</span>
+                <span className="flex-grow">{item}</span>
+                <button
+                  type="button"
+                  onClick={() => moveItem(index, -1)}
+                  disabled={index === 0}
+                  aria-label={t('playerMoveItemUp', { item })}
+                  className="px-1.5 text-slate-500 hover:text-sky-600 disabled:opacity-30"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveItem(index, 1)}
+                  disabled={index === selected.length - 1}
+                  aria-label={t('playerMoveItemDown', { item })}
+                  className="px-1.5 text-slate-500 hover:text-sky-600 disabled:opacity-30"
+                >
+                  ↓
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ) : question.type === 'matching' ? (
+        <div className="space-y-1.5">
+          <p className="text-xs text-slate-500">{t('quizMatchingHint')}</p>
+          {(question.pairs ?? []).map((pair, index) => (
+            <div key={index} className="grid grid-cols-2 items-center gap-2">
+              <label htmlFor={`${inputId}-${index}`} className="text-sm text-slate-700">{pair.prompt}</label>
+              <select
+                id={`${inputId}-${index}`}
+                value={selected[index] ?? ''}
+                onChange={(e) => setMatch(index, e.target.value)}
+                className="block w-full px-2 py-1.5 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500 disabled:bg-slate-100"
+              >
+                <option value="">{t('playerChooseMatch')}</option>
+                {matchChoices.map((match, mIndex) => <option key={mIndex} value={match}>{match}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+      ) : question.type === 'short_answer' ? (
+        <input
+          type="text"
+          id={inputId}
+          value={typeof response === 'string' ? response : ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={t('playerAnswerPlaceholder')}
+          className="block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm text-slate-900 placeholder-slate-400 focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500 disabled:bg-slate-100 disabled:text-slate-600"
+        />
+      ) : (
+        <div className="space-y-1.5">
+          {choices.map((choice, index) => (
+            <label key={index} className="flex items-center text-sm text-slate-700">
+              <input
+                type="radio"
+                name={inputId}
+                value={choice.value}
+                checked={response === choice.value}
+                onChange={() => onChange(choice.value)}
+                className="focus:ring-sky-500 h-4 w-4 text-sky-600 border-slate-300"
+              />
+              <span className="ltr:ml-2 rtl:mr-2">{choice.label}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {result !== null && (
+        <p className={`text-sm font-medium ${result ? 'text-green-700' : 'text-red-700'}`} role="status">
+          {result ? (question.feedbackCorrect || t('playerCorrect')) : (question.feedbackIncorrect || t('playerIncorrect'))}
+        </p>
+      )}
+      {missedBy !== null && (
+        <p className="text-sm text-slate-700">{t('playerMissedBy', { distance: formatDistance(missedBy, language) })}</p>
+      )}
+      {attempted && question.explanation && (
+        <p className="text-sm text-slate-700 bg-white/70 border border-slate-200 rounded-md p-2">
+          <span className="font-semibold">{t('playerExplanationLabel')}</span> {question.explanation}
+        </p>
+      )}
+    </fieldset>
+  );
+};
+
+export default QuizQuestion;
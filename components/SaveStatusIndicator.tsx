@@ -0,0 +1,49 @@
+import React from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { TranslationKey } from '../locales';
+import type { SaveStatus } from '../hooks/useAutosave';
+
+// `paused` while the studio's copy waits for its import report to be resolved.
+export type SyncStatus = SaveStatus | 'paused';
+
+const STATUS_KEYS: { [status in SyncStatus]: TranslationKey } = {
+  saved: 'saveStatus_saved',
+  saving: 'saveStatus_saving',
+  unsaved: 'saveStatus_unsaved',
+  error: 'saveStatus_error',
+  paused: 'saveStatus_paused',
+};
+
+const DOT_CLASSES: { [status in SyncStatus]: string } = {
+  saved: 'bg-green-500',
+  saving: 'bg-sky-500 animate-pulse',
+  unsaved: 'bg-amber-500',
+  error: 'bg-red-500',
+  paused: 'bg-slate-400',
+};
+
+interface SaveStatusIndicatorProps {
+  status: SyncStatus;
+  onRetry: () => void;
+  // Reopens the studio's import report while syncing is paused.
+  onReview?: () => void;
+}
+
+// Whether the tours on screen have reached the studio yet.
+const SaveStatusIndicator: React.FC<SaveStatusIndicatorProps> = ({ status, onRetry, onReview }) => {
+  const { t } = useLanguage();
+  return (
+    <p className={`mt-1 flex items-center gap-1.5 text-xs ${status === 'error' ? 'text-red-700' : 'text-slate-500'}`} role="status" aria-live="polite">
+      <span className={`h-2 w-2 rounded-full ${DOT_CLASSES[status]}`} aria-hidden="true" />
+      {t(STATUS_KEYS[status])}
+      {status === 'error' && (
+        <button type="button" onClick={onRetry} className="font-medium text-red-700 underline hover:text-red-900">{t('saveStatusRetryNow')}</button>
+      )}
+      {status === 'paused' && onReview && (
+        <button type="button" onClick={onReview} className="font-medium text-sky-700 underline hover:text-sky-900">{t('saveStatusReview')}</button>
+      )}
+    </p>
+  );
+};
+
+export default SaveStatusIndicator;
@@ -3,6 +3,9 @@ import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import type { Location } from '../types';
 import { useLanguage } from '../contexts/LanguageContext';
+import type { RouteLeg } from '../services/routing';
+import { formatDistance, formatDuration } from '../utils/units';
+import { languageName, localizeLocation } from '../utils/contentLanguages';
 
 const stripHtml = (html: string | null): string => {
     if (!html) return '';
@@ -16,11 +19,20 @@ interface SortableLocationItemProps {
     onSelectLocation: (location: Location) => void;
     onDeleteLocation: (id: string) => void;
     onStartEdit: (location: Location) => void;
+    onTransferLocation?: (location: Location) => void;
     isSortingDisabled: boolean;
+    // The leg from this stop to the next one, if known.
+    nextLeg?: RouteLeg | null;
+    // The title and description are shown in `contentLanguage`.
+    contentLanguage: string;
+    fallbackLanguage: string;
+    // Translation languages this location still lacks content in.
+    missingLanguages: string[];
 }
 
-export const SortableLocationItem: React.FC<SortableLocationItemProps> = ({ id, location, onSelectLocation, onDeleteLocation, onStartEdit, isSortingDisabled }) => {
-    const { t } = useLanguage();
+export const SortableLocationItem: React.FC<SortableLocationItemProps> = ({ id, location, onSelectLocation, onDeleteLocation, onStartEdit, onTransferLocation, isSortingDisabled, nextLeg, contentLanguage, fallbackLanguage, missingLanguages }) => {
+    const { t, language } = useLanguage();
+    const content = localizeLocation(location, contentLanguage, fallbackLanguage);
     const [isMenuOpen, setIsMenuOpen] = useState(false);
     const menuRef = useRef<HTMLDivElement>(null);
     const {
@@ -59,6 +71,12 @@ export const SortableLocationItem: React.FC<SortableLocationItemProps> = ({ id,
         setIsMenuOpen(false);
     };
 
+    const handleTransfer = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        onTransferLocation?.(location);
+        setIsMenuOpen(false);
+    };
+
     const handleDelete = (e: React.MouseEvent) => {
         e.stopPropagation();
         onDeleteLocation(id);
@@ -97,24 +115,40 @@ export const SortableLocationItem: React.FC<SortableLocationItemProps> = ({ id,
                 className="flex-1 flex items-center space-x-4 rtl:space-x-reverse cursor-pointer min-w-0"
                 onClick={() => onSelectLocation(location)}
                 role="button"
-                aria-label={t('viewAriaLabel', { title: location.title })}
+                aria-label={t('viewAriaLabel', { title: content.title })}
             >
                 <img 
                     src={location.image || 'https://images.unsplash.com/photo-1517011631245-1b0a33feb3bf?q=80&w=2574&auto=format&fit=crop'} 
-                    alt={location.title}
+                    alt={content.title}
                     className="w-16 h-16 rounded-md object-cover bg-slate-200 flex-shrink-0"
                     onError={(e) => { e.currentTarget.src = 'https://images.unsplash.com/photo-1517011631245-1b0a33feb3bf?q=80&w=2574&auto=format&fit=crop'; }}
                 />
                 <div className="min-w-0">
-                    <p className="text-md font-semibold text-slate-800 truncate">{location.title}, {location.country}</p>
-                    <p className="text-sm text-slate-500 truncate">{stripHtml(location.description)}</p>
+                    <p className="text-md font-semibold text-slate-800 truncate">{content.title}, {location.country}</p>
+                    <p className="text-sm text-slate-500 truncate">{stripHtml(content.description)}</p>
+                    {missingLanguages.length > 0 && (
+                        <p className="mt-1 inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-50 text-xs font-medium text-amber-800">
+                            <span className="h-1.5 w-1.5 rounded-full bg-amber-500" aria-hidden="true" />
+                            {t('translationMissingBadge', { languages: missingLanguages.map(languageName).join(', ') })}
+                        </p>
+                    )}
+                    {nextLeg && (
+                        <p className="mt-1 text-xs font-medium text-teal-700 truncate">
+                            {nextLeg.duration === null
+                                ? t('routeLegDistance', { distance: formatDistance(nextLeg.distance, language) })
+                                : t('routeLegDistanceDuration', {
+                                    distance: formatDistance(nextLeg.distance, language),
+                                    duration: formatDuration(nextLeg.duration, language),
+                                })}
+                        </p>
+                    )}
                 </div>
             </div>
             <div className="relative flex-shrink-0 ltr:ml-2 rtl:mr-2">
                 <button
                     type="button"
                     onClick={handleMenuToggle}
-                    aria-label={t('moreOptionsAriaLabel', { title: location.title })}
+                    aria-label={t('moreOptionsAriaLabel', { title: content.title })}
                     aria-haspopup="true"
                     aria-expanded={isMenuOpen}
                     className="p-2 rounded-full text-slate-500 hover:bg-slate-200 focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-sky-500"
@@ -146,6 +180,22 @@ export const SortableLocationItem: React.FC<SortableLocationItemProps> = ({ id,
                                     <span>{t('editMenuItem')}</span>
                                 </button>
                             </li>
+                            {onTransferLocation && (
+                                <li role="none">
+                                    <button
+                                        onClick={handleTransfer}
+                                        className="w-full text-left flex items-center px-4 py-2 text-sm text-slate-700 hover:bg-slate-100 hover:text-slate-900"
+                                        role="menuitem"
+                                        tabIndex={-1}
+                                    >
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 ltr:mr-3 rtl:ml-3 text-slate-400 rtl:-scale-x-100" viewBox="0 0 20 20" fill="currentColor">
+                                            <path d="M8 2a1 1 0 000 2h2a1 1 0 100-2H8z" />
+                                            <path d="M3 5a2 2 0 012-2 3 3 0 003 3h2a3 3 0 003-3 2 2 0 012 2v6h-4.586l1.293-1.293a1 1 0 00-1.414-1.414l-3 3a1 1 0 000 1.414l3 3a1 1 0 001.414-1.414L10.414 13H15v3a2 2 0 01-2 2H5a2 2 0 01-2-2V5zM15 11h2a1 1 0 110 2h-2v-2z" />
+                                        </svg>
+                                        <span>{t('transferMenuItem')}</span>
+                                    </button>
+                                </li>
+                            )}
                             <li role="none">
                                 <button
                                     onClick={handleDelete}
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { TranslationKey } from '../locales';
+import type { TourMetadata } from '../types';
+import { DEFAULT_ROUTING_PROFILE } from '../utils/artifactSchema';
+import { BASE_LAYERS } from '../services/baseLayers';
+import { CONTENT_LANGUAGES, languageName } from '../utils/contentLanguages';
+
+export type TourDetails = Omit<TourMetadata, 'id'>;
+
+interface TourDetailsDialogProps {
+  // The tour being edited, or null when creating a new one.
+  tour: TourMetadata | null;
+  onSave: (details: TourDetails) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm text-slate-900 placeholder-slate-400 focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500";
+
+const TourDetailsDialog: React.FC<TourDetailsDialogProps> = ({ tour, onSave, onCancel }) => {
+  const { t, language } = useLanguage();
+  const [title, setTitle] = useState(tour?.title ?? '');
+  const [intro, setIntro] = useState(tour?.intro ?? '');
+  const [coverImage, setCoverImage] = useState(tour?.coverImage ?? '');
+  const [tourLanguage, setTourLanguage] = useState(tour?.language ?? language);
+  const [translationLanguages, setTranslationLanguages] = useState<string[]>(tour?.translationLanguages ?? []);
+  const [baseLayer, setBaseLayer] = useState(tour?.baseLayer ?? '');
+  const [passMark, setPassMark] = useState(tour?.passMark != null ? String(tour.passMark) : '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      title: title.trim(),
+      intro: intro.trim(),
+      coverImage: coverImage.trim(),
+      language: tourLanguage,
+      translationLanguages: translationLanguages.filter(code => code !== tourLanguage),
+      routingProfile: tour?.routingProfile ?? DEFAULT_ROUTING_PROFILE,
+      baseLayer: baseLayer || null,
+      passMark: passMark.trim() === '' ? null : Number(passMark),
+    });
+  };
+
+  const toggleTranslationLanguage = (code: string) => {
+    setTranslationLanguages(prev => prev.includes(code) ? prev.filter(c => c !== code) : [...prev, code]);
+  };
+
+  const buttonClass = "inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500";
+  const primaryButtonClass = "inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-sky-600 hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-[2000] flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="tour-details-title">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200">
+          <h2 id="tour-details-title" className="text-lg font-semibold text-slate-900">
+            {tour ? t('tourDetailsEditTitle') : t('tourDetailsCreateTitle')}
+          </h2>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div>
+            <label htmlFor="tour-title" className="block text-sm font-medium text-slate-700">{t('tourTitleLabel')}</label>
+            <input type="text" id="tour-title" value={title} onChange={(e) => setTitle(e.target.value)} required autoFocus className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="tour-intro" className="block text-sm font-medium text-slate-700">{t('tourIntroLabel')}</label>
+            <textarea id="tour-intro" value={intro} onChange={(e) => setIntro(e.target.value)} rows={4} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="tour-cover" className="block text-sm font-medium text-slate-700">{t('tourCoverImageLabel')}</label>
+            <input type="url" id="tour-cover" value={coverImage} onChange={(e) => setCoverImage(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="tour-language" className="block text-sm font-medium text-slate-700">{t('tourLanguageLabel')}</label>
+            <select id="tour-language" value={tourLanguage} onChange={(e) => setTourLanguage(e.target.value)} className={inputClass}>
+              {CONTENT_LANGUAGES.map(code => (
+                <option key={code} value={code}>{languageName(code)}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-slate-500">{t('tourLanguageDescription')}</p>
+          </div>
+          <fieldset>
+            <legend className="block text-sm font-medium text-slate-700">{t('tourTranslationLanguagesLabel')}</legend>
+            <p className="text-xs text-slate-500">{t('tourTranslationLanguagesDescription')}</p>
+            <div className="mt-2 flex flex-wrap gap-4">
+              {CONTENT_LANGUAGES.filter(code => code !== tourLanguage).map(code => (
+                <label key={code} className="flex items-center text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={translationLanguages.includes(code)}
+                    onChange={() => toggleTranslationLanguage(code)}
+                    className="h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+                  />
+                  <span className="ltr:ml-2 rtl:mr-2">{languageName(code)}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <div>
+            <label htmlFor="tour-base-layer" className="block text-sm font-medium text-slate-700">{t('tourBaseLayerLabel')}</label>
+            <select id="tour-base-layer" value={baseLayer} onChange={(e) => setBaseLayer(e.target.value)} className={inputClass}>
+              <option value="">{t('tourBaseLayerDefault')}</option>
+              {BASE_LAYERS.map(layer => (
+                <option key={layer.id} value={layer.id}>{layer.name ?? t(`baseLayer_${layer.id}` as TranslationKey)}</option>
+              ))}
+              {baseLayer && !BASE_LAYERS.some(layer => layer.id === baseLayer) && (
+                <option value={baseLayer}>{t('tourBaseLayerUnavailable', { id: baseLayer })}</option>
+              )}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="tour-pass-mark" className="block text-sm font-medium text-slate-700">{t('tourPassMarkLabel')}</label>
+            <p className="text-xs text-slate-500">{t('tourPassMarkDescription')}</p>
+            <div className="mt-1 flex items-center gap-1">
+              <input type="number" id="tour-pass-mark" min={0} max={100} value={passMark} onChange={(e) => setPassMark(e.target.value)} className="block w-24 px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm text-slate-900 placeholder-slate-400 focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500" />
+              <span className="text-sm text-slate-500">%</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-slate-200 flex gap-3 justify-end">
+          <button type="button" onClick={onCancel} className={buttonClass}>{t('cancelButton')}</button>
+          <button type="submit" disabled={!title.trim()} className={primaryButtonClass}>
+            {tour ? t('tourDetailsSaveButton') : t('tourDetailsCreateButton')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TourDetailsDialog;
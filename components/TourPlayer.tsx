@@ -0,0 +1,335 @@
+import React, { useState, useEffect } from 'react';
+import type { LatLngTuple } from 'leaflet';
+import type { Location, Question, QuizMapOverlay, QuizResponse, Tour } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { formatMapResponse, gradeAnswer, hasPassed, initialResponse, isAnswered, parseMapResponse, questionPoints, scorePercent, type QuizScore } from '../utils/quiz';
+import { parseMediaUrl } from '../utils/media';
+import QuizQuestion from './QuizQuestion';
+import MediaEmbed from './MediaEmbed';
+
+interface TourPlayerProps {
+  tour: Tour;
+  // Called with the stop on screen, or null on the intro and summary pages.
+  onStopChange: (location: Location | null) => void;
+  onExit: () => void;
+  onMapPickChange: (onPick: ((coords: LatLngTuple) => void) | null) => void;
+  onQuizOverlayChange: (overlay: QuizMapOverlay | null) => void;
+}
+
+interface QuestionAttempt {
+  response: QuizResponse;
+  // Outcome of the latest check, or null if the current response is unchecked.
+  result: boolean | null;
+  // Share of the points earned by the first check, from 0 to 1; this is what
+  // the score counts.
+  firstCredit: number | null;
+}
+
+type PlayerPhase = 'intro' | 'stop' | 'summary';
+
+const attemptKey = (location: Location, questionId: string) => `${location.id}:${questionId}`;
+
+const emptyAttempt = (question: Question): QuestionAttempt => ({ response: initialResponse(question), result: null, firstCredit: null });
+
+// Points can be fractional, e.g. 0.5 for a bonus question.
+const roundPoints = (value: number) => Math.round(value * 100) / 100;
+
+interface PassBadgeProps {
+  passed: boolean;
+  passMark: number;
+  compact?: boolean;
+}
+
+const PassBadge: React.FC<PassBadgeProps> = ({ passed, passMark, compact }) => {
+  const { t } = useLanguage();
+  const label = passed ? t('playerPassed') : t('playerNotPassed');
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold ${passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}
+      title={t('playerPassMarkHint', { passMark: roundPoints(passMark) })}
+    >
+      {compact ? label : t('playerPassMarkResult', { result: label, passMark: roundPoints(passMark) })}
+    </span>
+  );
+};
+
+// Plays a tour the way a learner sees it: an intro page, then one stop at a
+// time with its media and an answerable quiz, then a score summary.
+const TourPlayer: React.FC<TourPlayerProps> = ({ tour, onStopChange, onExit, onMapPickChange, onQuizOverlayChange }) => {
+  const { t } = useLanguage();
+  const [phase, setPhase] = useState<PlayerPhase>('intro');
+  const [stopIndex, setStopIndex] = useState(0);
+  const [attempts, setAttempts] = useState<{ [key: string]: QuestionAttempt }>({});
+  // The "find it on the map" question waiting for a map click, if any.
+  const [pickingQuestionId, setPickingQuestionId] = useState<string | null>(null);
+
+  const stops = tour.locations;
+  const stop: Location | undefined = phase === 'stop' ? stops[stopIndex] : undefined;
+  const questions = stop?.questions ?? [];
+  const video = stop?.video ? parseMediaUrl(stop.video, 'video') : null;
+  const audio = stop?.audio ? parseMediaUrl(stop.audio, 'audio') : null;
+
+  useEffect(() => {
+    onStopChange(stop ?? null);
+  }, [stop, onStopChange]);
+
+  // Undo or redo can remove stops while the tour is playing.
+  useEffect(() => {
+    if (stops.length === 0) {
+      setPhase('intro');
+    } else if (stopIndex >= stops.length) {
+      setStopIndex(stops.length - 1);
+    }
+  }, [stops.length, stopIndex]);
+
+  useEffect(() => {
+    setPickingQuestionId(null);
+  }, [stop]);
+
+  useEffect(() => {
+    if (!stop || !pickingQuestionId) return;
+    const question = stop.questions?.find(q => q.id === pickingQuestionId);
+    if (!question) return;
+    const key = attemptKey(stop, question.id);
+    onMapPickChange((coords) => {
+      setAttempts(prev => ({
+        ...prev,
+        [key]: { ...(prev[key] ?? emptyAttempt(question)), response: formatMapResponse(coords), result: null },
+      }));
+      setPickingQuestionId(null);
+    });
+    return () => onMapPickChange(null);
+  }, [stop, pickingQuestionId, onMapPickChange]);
+
+  // Show the learner's map answers, and each target once its question has been checked.
+  useEffect(() => {
+    const mapQuestions = (stop?.questions ?? []).filter(question => question.type === 'map_location');
+    if (!stop || mapQuestions.length === 0) {
+      onQuizOverlayChange(null);
+      return;
+    }
+    const overlay: QuizMapOverlay = { targets: [], picks: [] };
+    mapQuestions.forEach(question => {
+      const attempt = attempts[attemptKey(stop, question.id)] ?? emptyAttempt(question);
+      const pick = parseMapResponse(attempt.response);
+      if (pick) overlay.picks.push(pick);
+      if (attempt.firstCredit !== null && question.target) overlay.targets.push(question.target);
+    });
+    onQuizOverlayChange(overlay);
+  }, [stop, attempts, onQuizOverlayChange]);
+
+  useEffect(() => () => onQuizOverlayChange(null), [onQuizOverlayChange]);
+
+  const getAttempt = (location: Location, question: Question) =>
+    attempts[attemptKey(location, question.id)] ?? emptyAttempt(question);
+
+  const handleResponseChange = (question: Question, response: QuizResponse) => {
+    if (!stop) return;
+    const key = attemptKey(stop, question.id);
+    setAttempts(prev => ({
+      ...prev,
+      [key]: { ...(prev[key] ?? emptyAttempt(question)), response, result: null },
+    }));
+  };
+
+  const handleCheckAnswers = () => {
+    if (!stop) return;
+    setAttempts(prev => {
+      const next = { ...prev };
+      questions.forEach(question => {
+        const key = attemptKey(stop, question.id);
+        const attempt = next[key] ?? emptyAttempt(question);
+        if (attempt.result !== null || !isAnswered(question, attempt.response)) return;
+        const credit = gradeAnswer(question, attempt.response);
+        next[key] = { ...attempt, result: credit === 1, firstCredit: attempt.firstCredit ?? credit };
+      });
+      return next;
+    });
+  };
+
+  const isStopComplete = (location: Location) =>
+    (location.questions ?? []).every(question => getAttempt(location, question).result === true);
+
+  // A stop with `block_navigation` holds the learner until every question on it
+  // has been answered correctly.
+  const isBlocked = !!stop && !!stop.block_navigation && questions.length > 0 && !isStopComplete(stop);
+  const hasUncheckedAnswers = !!stop && questions.some(question => {
+    const attempt = getAttempt(stop, question);
+    return attempt.result === null && isAnswered(question, attempt.response);
+  });
+
+  const handleNext = () => {
+    if (isBlocked) return;
+    if (stopIndex < stops.length - 1) {
+      setStopIndex(stopIndex + 1);
+    } else {
+      setPhase('summary');
+    }
+  };
+
+  const handleRestart = () => {
+    setAttempts({});
+    setStopIndex(0);
+    setPhase('intro');
+  };
+
+  const stopScores = stops.map(location => {
+    const stopQuestions = location.questions ?? [];
+    const score: QuizScore = {
+      earned: stopQuestions
+        .reduce((sum, question) => sum + (getAttempt(location, question).firstCredit ?? 0) * questionPoints(question), 0),
+      possible: stopQuestions.reduce((sum, question) => sum + questionPoints(question), 0),
+    };
+    return { location, score, hasQuestions: stopQuestions.length > 0 };
+  });
+  const tourScore: QuizScore = {
+    earned: stopScores.reduce((sum, { score }) => sum + score.earned, 0),
+    possible: stopScores.reduce((sum, { score }) => sum + score.possible, 0),
+  };
+  const hasQuestions = stopScores.some(stopScore => stopScore.hasQuestions);
+
+  const buttonClass = "inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-100 disabled:text-slate-400 disabled:cursor-not-allowed";
+  const primaryButtonClass = "inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-sky-600 hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-6" aria-live="polite">
+      <div className="flex items-center justify-between gap-3">
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-800">
+          {t('playerPreviewBadge')}
+        </span>
+        <button type="button" onClick={onExit} className="text-sm font-medium text-sky-600 hover:text-sky-800">
+          {t('playerExitButton')}
+        </button>
+      </div>
+
+      {phase === 'intro' && (
+        <div className="space-y-4">
+          {tour.coverImage && (
+            <img
+              src={tour.coverImage}
+              alt=""
+              className="w-full h-40 object-cover rounded-lg"
+              onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
+            />
+          )}
+          <h2 className="text-2xl font-bold text-slate-900">{tour.title || t('untitledTour')}</h2>
+          {tour.intro && <p className="text-sm text-slate-700 whitespace-pre-line">{tour.intro}</p>}
+          <p className="text-sm text-slate-500">{t('playerStopCount', { count: stops.length })}</p>
+          <button type="button" onClick={() => setPhase('stop')} disabled={stops.length === 0} className={`w-full ${primaryButtonClass}`}>
+            {t('playerStartButton')}
+          </button>
+        </div>
+      )}
+
+      {stop && (
+        <div className="space-y-4">
+          <div>
+            <p className="text-xs font-medium text-slate-500">
+              {t('playerStopProgress', { current: stopIndex + 1, total: stops.length })}
+            </p>
+            <div className="mt-1 h-1.5 w-full bg-slate-200 rounded-full overflow-hidden">
+              <div className="h-full bg-sky-600 transition-all duration-300" style={{ width: `${((stopIndex + 1) / stops.length) * 100}%` }} />
+            </div>
+          </div>
+
+          {stop.image && (
+            <img
+              src={stop.image}
+              alt={stop.title}
+              className="w-full h-48 object-cover rounded-lg"
+              onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
+            />
+          )}
+          <h2 className="text-xl font-bold text-slate-900">{stop.title}, {stop.country}</h2>
+          <div className="text-sm text-slate-700 leading-relaxed location-description" dangerouslySetInnerHTML={{ __html: stop.description }} />
+          {video && <MediaEmbed source={video} title={stop.title} />}
+          {audio && <MediaEmbed source={audio} title={stop.title} />}
+
+          {questions.length > 0 && (
+            <div className="pt-4 border-t border-slate-200 space-y-3">
+              <h3 className="font-bold text-base text-slate-900">{t('quizTitle')}</h3>
+              {questions.map((question, index) => {
+                const attempt = getAttempt(stop, question);
+                return (
+                  <QuizQuestion
+                    key={question.id}
+                    question={question}
+                    number={index + 1}
+                    inputId={`player-${attemptKey(stop, question.id)}`}
+                    response={attempt.response}
+                    result={attempt.result}
+                    attempted={attempt.firstCredit !== null}
+                    isPicking={pickingQuestionId === question.id}
+                    onTogglePick={() => setPickingQuestionId(pickingQuestionId === question.id ? null : question.id)}
+                    disabled={attempt.result === true}
+                    onChange={(response) => handleResponseChange(question, response)}
+                  />
+                );
+              })}
+              <button type="button" onClick={handleCheckAnswers} disabled={!hasUncheckedAnswers} className={`w-full ${buttonClass}`}>
+                {t('playerCheckAnswersButton')}
+              </button>
+            </div>
+          )}
+
+          {isBlocked && (
+            <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3">{t('playerBlockedHint')}</p>
+          )}
+
+          <div className="flex gap-3 pt-4 border-t border-slate-200">
+            <button type="button" onClick={() => setStopIndex(stopIndex - 1)} disabled={stopIndex === 0} className={`flex-1 ${buttonClass}`}>
+              {t('playerPreviousButton')}
+            </button>
+            <button type="button" onClick={handleNext} disabled={isBlocked} className={`flex-1 ${primaryButtonClass}`}>
+              {stopIndex < stops.length - 1 ? t('playerNextButton') : t('playerFinishButton')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {phase === 'summary' && (
+        <div className="space-y-4">
+          <h2 className="text-2xl font-bold text-slate-900">{t('playerSummaryTitle')}</h2>
+          {hasQuestions ? (
+            <div className="space-y-2">
+              <p className="text-lg font-semibold text-slate-800">
+                {t('playerSummaryScore', {
+                  earned: roundPoints(tourScore.earned),
+                  possible: roundPoints(tourScore.possible),
+                  percent: Math.round(scorePercent(tourScore)),
+                })}
+              </p>
+              {tour.passMark !== null && (
+                <PassBadge passed={hasPassed(tourScore, tour.passMark)} passMark={tour.passMark} />
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-600">{t('playerSummaryNoQuestions')}</p>
+          )}
+          <ul className="divide-y divide-slate-200 border border-slate-200 rounded-lg bg-white">
+            {stopScores.map(({ location, score, hasQuestions: stopHasQuestions }, index) => (
+              <li key={location.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                <span className="text-slate-700 truncate">{index + 1}. {location.title}</span>
+                <span className="flex-shrink-0 flex items-center gap-2 font-medium text-slate-900">
+                  {stopHasQuestions
+                    ? t('playerStopScore', { earned: roundPoints(score.earned), possible: roundPoints(score.possible) })
+                    : '—'}
+                  {stopHasQuestions && location.passMark !== undefined && (
+                    <PassBadge passed={hasPassed(score, location.passMark)} passMark={location.passMark} compact />
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-slate-500">{t('playerSummaryFirstTryNote')}</p>
+          <div className="flex gap-3">
+            <button type="button" onClick={handleRestart} className={`flex-1 ${buttonClass}`}>{t('playerRestartButton')}</button>
+            <button type="button" onClick={onExit} className={`flex-1 ${primaryButtonClass}`}>{t('playerExitButton')}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TourPlayer;
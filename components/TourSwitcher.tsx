@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { Tour } from '../types';
+import TourDetailsDialog, { type TourDetails } from './TourDetailsDialog';
+import { languageName, tourContentLanguages } from '../utils/contentLanguages';
+
+interface TourSwitcherProps {
+  tours: Tour[];
+  activeTourId: string;
+  onSelectTour: (tourId: string) => void;
+  onCreateTour: (details: TourDetails) => void;
+  onUpdateTour: (tourId: string, details: TourDetails) => void;
+  onDeleteTour: (tourId: string) => void;
+  // The language tour content is shown in, independent of the builder's language.
+  contentLanguage: string;
+  onContentLanguageChange: (language: string) => void;
+}
+
+const iconButtonClass = "p-2 rounded-full text-slate-500 hover:bg-sky-100 hover:text-sky-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:text-slate-300 disabled:hover:bg-transparent disabled:cursor-not-allowed transition-colors";
+
+const TourSwitcher: React.FC<TourSwitcherProps> = ({ tours, activeTourId, onSelectTour, onCreateTour, onUpdateTour, onDeleteTour, contentLanguage, onContentLanguageChange }) => {
+  const { t } = useLanguage();
+  const activeTour = tours.find(tour => tour.id === activeTourId);
+  // null: closed, 'create': new tour, otherwise the id of the tour being edited.
+  const [dialogTarget, setDialogTarget] = useState<string | null>(null);
+  const editedTour = tours.find(tour => tour.id === dialogTarget) ?? null;
+
+  const handleSave = (details: TourDetails) => {
+    if (editedTour) {
+      onUpdateTour(editedTour.id, details);
+    } else {
+      onCreateTour(details);
+    }
+    setDialogTarget(null);
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-lg border border-slate-200 shadow-sm">
+      <div className="flex items-center gap-2">
+        <label htmlFor="tour-select" className="sr-only">{t('tourSelectLabel')}</label>
+        <select
+          id="tour-select"
+          value={activeTourId}
+          onChange={(e) => onSelectTour(e.target.value)}
+          className="flex-1 min-w-0 block px-3 py-2 bg-white border border-slate-300 rounded-md text-sm font-semibold shadow-sm text-slate-900 focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+        >
+          {tours.map(tour => (
+            <option key={tour.id} value={tour.id}>
+              {t('tourOption', { title: tour.title || t('untitledTour'), count: tour.locations.length })}
+            </option>
+          ))}
+        </select>
+        <button type="button" onClick={() => setDialogTarget(activeTourId)} className={iconButtonClass} title={t('editTourTooltip')} aria-label={t('editTourTooltip')}>
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path d="M17.414 2.586a2 2 0 00-2.828 0L7 10.172V13h2.828l7.586-7.586a2 2 0 000-2.828z" />
+            <path fillRule="evenodd" d="M2 6a2 2 0 012-2h4a1 1 0 010 2H4v10h10v-4a1 1 0 112 0v4a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" clipRule="evenodd" />
+          </svg>
+        </button>
+        <button type="button" onClick={() => setDialogTarget('create')} className={iconButtonClass} title={t('newTourTooltip')} aria-label={t('newTourTooltip')}>
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
+          </svg>
+        </button>
+        <button type="button" onClick={() => onDeleteTour(activeTourId)} disabled={tours.length <= 1} className={iconButtonClass} title={t('deleteTourTooltip')} aria-label={t('deleteTourTooltip')}>
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" />
+          </svg>
+        </button>
+      </div>
+
+      {activeTour && activeTour.translationLanguages.length > 0 && (
+        <div className="mt-3 flex items-center justify-between gap-3">
+          <label htmlFor="content-language" className="text-sm font-medium text-slate-700">{t('contentLanguageLabel')}</label>
+          <select
+            id="content-language"
+            value={contentLanguage}
+            onChange={(e) => onContentLanguageChange(e.target.value)}
+            className="block rounded-md border-slate-300 py-1.5 text-sm text-slate-900 shadow-sm focus:border-sky-500 focus:ring-sky-500"
+          >
+            {tourContentLanguages(activeTour).map(code => (
+              <option key={code} value={code}>
+                {code === activeTour.language ? t('contentLanguageFallbackOption', { language: languageName(code) }) : languageName(code)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {dialogTarget !== null && (
+        <TourDetailsDialog
+          tour={editedTour}
+          onSave={handleSave}
+          onCancel={() => setDialogTarget(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TourSwitcher;
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { Location, Tour } from '../types';
+
+export type TransferMode = 'move' | 'copy';
+
+interface TransferLocationDialogProps {
+  location: Location;
+  // The tours the location can be sent to (every tour except its own).
+  tours: Tour[];
+  onTransfer: (toTourId: string, mode: TransferMode) => void;
+  onCancel: () => void;
+}
+
+const TransferLocationDialog: React.FC<TransferLocationDialogProps> = ({ location, tours, onTransfer, onCancel }) => {
+  const { t } = useLanguage();
+  const [targetTourId, setTargetTourId] = useState(tours[0]?.id ?? '');
+
+  const buttonClass = "inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-100 disabled:text-slate-400 disabled:cursor-not-allowed";
+  const primaryButtonClass = "inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-sky-600 hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-[2000] flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="transfer-location-title">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md flex flex-col">
+        <div className="p-6 border-b border-slate-200">
+          <h2 id="transfer-location-title" className="text-lg font-semibold text-slate-900">{t('transferLocationTitle', { title: location.title })}</h2>
+          <p className="text-sm text-slate-600 mt-1">{t('transferLocationSubtitle')}</p>
+        </div>
+
+        <div className="p-6">
+          <label htmlFor="transfer-target" className="block text-sm font-medium text-slate-700">{t('transferTargetLabel')}</label>
+          <select
+            id="transfer-target"
+            value={targetTourId}
+            onChange={(e) => setTargetTourId(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm text-slate-900 focus:outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+          >
+            {tours.map(tour => (
+              <option key={tour.id} value={tour.id}>{tour.title || t('untitledTour')}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="p-6 border-t border-slate-200 flex flex-wrap gap-3 justify-end">
+          <button type="button" onClick={onCancel} className={buttonClass}>{t('cancelButton')}</button>
+          <button type="button" onClick={() => onTransfer(targetTourId, 'copy')} disabled={!targetTourId} className={buttonClass}>
+            {t('copyToTourButton')}
+          </button>
+          <button type="button" onClick={() => onTransfer(targetTourId, 'move')} disabled={!targetTourId} className={primaryButtonClass}>
+            {t('moveToTourButton')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransferLocationDialog;
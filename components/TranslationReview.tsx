@@ -0,0 +1,136 @@
+import React from 'react';
+import type { LocalizedContent, Question } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { TranslationKey } from '../locales';
+import { isRtlLanguage, languageName } from '../utils/contentLanguages';
+
+// One translatable field, identified the same way in every version of the
+// content so the versions can be lined up.
+interface Row {
+  id: string;
+  label: string;
+  text: string;
+  html?: boolean;
+}
+
+const QUESTION_FIELD_KEYS: { [field in 'options' | 'answer' | 'items' | 'pairs' | 'explanation' | 'feedbackCorrect' | 'feedbackIncorrect']: TranslationKey } = {
+  options: 'optionsLabel',
+  answer: 'answerLabel',
+  items: 'orderingItemsLabel',
+  pairs: 'translationReviewPairs',
+  explanation: 'explanationLabel',
+  feedbackCorrect: 'feedbackCorrectLabel',
+  feedbackIncorrect: 'feedbackIncorrectLabel',
+};
+
+const questionFields = (q: Question): { [field in keyof typeof QUESTION_FIELD_KEYS]?: string } => ({
+  options: q.options?.join(' · '),
+  answer: q.type === 'short_answer' ? q.answer : undefined,
+  items: q.items?.join(' → '),
+  pairs: q.pairs?.map(pair => `${pair.prompt} = ${pair.match}`).join(' · '),
+  explanation: q.explanation,
+  feedbackCorrect: q.feedbackCorrect,
+  feedbackIncorrect: q.feedbackIncorrect,
+});
+
+interface TranslationReviewProps {
+  sourceLanguage: string;
+  targetLanguage: string;
+  source: LocalizedContent;
+  // What the target language has now, if anything.
+  current: LocalizedContent | undefined;
+  proposed: LocalizedContent;
+  onApprove: () => void;
+  onDiscard: () => void;
+}
+
+// The source and its AI translation side by side. Text the translation would
+// replace is shown crossed out, so nothing is overwritten unseen.
+const TranslationReview: React.FC<TranslationReviewProps> = ({ sourceLanguage, targetLanguage, source, current, proposed, onApprove, onDiscard }) => {
+  const { t } = useLanguage();
+
+  const rows = (content: LocalizedContent | undefined): Row[] => {
+    if (!content) return [];
+    const list: Row[] = [
+      { id: 'title', label: t('titleLabel'), text: content.title },
+      { id: 'description', label: t('descriptionLabel'), text: content.description, html: true },
+    ];
+    (content.questions ?? []).forEach((q, index) => {
+      list.push({ id: `${q.id}.text`, label: t('translationReviewQuestion', { number: index + 1 }), text: q.text });
+      Object.entries(questionFields(q)).forEach(([field, text]) => {
+        if (text) list.push({ id: `${q.id}.${field}`, label: t(QUESTION_FIELD_KEYS[field as keyof typeof QUESTION_FIELD_KEYS]), text });
+      });
+    });
+    return list;
+  };
+
+  const sourceRows = rows(source);
+  const proposedRows = rows(proposed);
+  const currentRows = rows(current);
+
+  const renderText = (row: Row | undefined, language: string, className = '') =>
+    row?.html
+      ? <div dir={isRtlLanguage(language) ? 'rtl' : 'ltr'} className={`location-description ${className}`} dangerouslySetInnerHTML={{ __html: row.text }} />
+      : <p dir={isRtlLanguage(language) ? 'rtl' : 'ltr'} className={className}>{row?.text}</p>;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-[2000] flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="translation-review-title">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[85vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200">
+          <h2 id="translation-review-title" className="text-lg font-semibold text-slate-900">{t('translationReviewTitle', { language: languageName(targetLanguage) })}</h2>
+          <p className="text-sm text-slate-600 mt-1">{t('translationReviewSubtitle')}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <table className="w-full table-fixed text-sm">
+            <thead>
+              <tr className="text-start text-xs font-medium uppercase tracking-wide text-slate-400">
+                <th className="w-1/2 pb-2 ltr:pr-3 rtl:pl-3 text-start">{languageName(sourceLanguage)}</th>
+                <th className="w-1/2 pb-2 ltr:pl-3 rtl:pr-3 text-start">{languageName(targetLanguage)}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {sourceRows.map(row => {
+                const proposedRow = proposedRows.find(other => other.id === row.id);
+                const currentRow = currentRows.find(other => other.id === row.id);
+                const replaces = currentRow?.text.trim() && currentRow.text !== proposedRow?.text ? currentRow : undefined;
+                return (
+                  <tr key={row.id} className="align-top">
+                    <td className="py-2 ltr:pr-3 rtl:pl-3 text-slate-600">
+                      <span className="block text-xs font-medium text-slate-400">{row.label}</span>
+                      {renderText(row, sourceLanguage)}
+                    </td>
+                    <td className="py-2 ltr:pl-3 rtl:pr-3 bg-green-50/60">
+                      <span className="block text-xs font-medium text-slate-400">{row.label}</span>
+                      {replaces && renderText(replaces, targetLanguage, 'text-red-700 line-through decoration-red-400')}
+                      {renderText(proposedRow, targetLanguage, 'text-slate-900')}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-6 border-t border-slate-200 flex flex-wrap gap-3 justify-end">
+          <button
+            type="button"
+            onClick={onDiscard}
+            className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500"
+          >
+            {t('translationReviewDiscard')}
+          </button>
+          <button
+            type="button"
+            onClick={onApprove}
+            className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-sky-600 hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500"
+          >
+            {t('translationReviewApprove')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranslationReview;
@@ -1,52 +1,79 @@
 import React, { createContext, useState, useContext, useEffect, useCallback } from 'react';
-import { translations } from '../translations';
+import { LOCALES, SOURCE_LOCALE, isLocale, loadCatalog, sourceCatalog, type Catalog, type MessageParams, type TranslationKey } from '../locales';
+import { formatMessage, type MessageValues } from '../utils/messageFormat';
+import { isRtlLanguage } from '../utils/contentLanguages';
 
-type Language = 'en' | 'ar';
+// Messages with placeholders must be given their values; a key only known at
+// runtime (typed as the whole TranslationKey union) may be given any.
+type TranslateParams<K extends TranslationKey> =
+  TranslationKey extends K
+    ? [values?: MessageValues]
+    : keyof MessageParams<K> extends never
+      ? []
+      : [values: MessageParams<K>];
+
+export type Translate = <K extends TranslationKey>(key: K, ...params: TranslateParams<K>) => string;
 
 interface LanguageContextType {
-  language: Language;
-  toggleLanguage: () => void;
-  t: (key: string, replacements?: { [key: string]: string }) => string;
+  language: string;
+  dir: 'ltr' | 'rtl';
+  // Every locale with a catalog, the source locale first.
+  locales: string[];
+  setLanguage: (language: string) => void;
+  t: Translate;
 }
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
 export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [language, setLanguage] = useState<Language>(() => {
+  const [language, setLanguage] = useState<string>(() => {
     const storedLang = localStorage.getItem('language');
-    return (storedLang === 'ar' || storedLang === 'en') ? storedLang : 'en';
+    return isLocale(storedLang) ? storedLang : SOURCE_LOCALE;
   });
+  // The catalog on screen; it changes once the chosen locale has loaded.
+  const [loaded, setLoaded] = useState<{ language: string; catalog: Catalog } | null>(
+    language === SOURCE_LOCALE ? { language, catalog: sourceCatalog } : null
+  );
 
   useEffect(() => {
-    localStorage.setItem('language', language);
-    document.documentElement.lang = language;
-    document.documentElement.dir = language === 'ar' ? 'rtl' : 'ltr';
+    let cancelled = false;
+    loadCatalog(language)
+      .then(catalog => {
+        if (!cancelled) setLoaded({ language, catalog });
+      })
+      .catch(error => {
+        console.error(`Failed to load the "${language}" locale:`, error);
+        if (!cancelled) setLoaded({ language: SOURCE_LOCALE, catalog: sourceCatalog });
+      });
+    return () => { cancelled = true; };
   }, [language]);
 
-  const toggleLanguage = () => {
-    setLanguage(prevLang => prevLang === 'en' ? 'ar' : 'en');
-  };
-
-  const t = useCallback((key: string, replacements?: { [key: string]: string }) => {
-    const langTranslations = translations[language];
-    let translation = key.split('.').reduce((obj: any, k) => obj?.[k], langTranslations);
+  useEffect(() => {
+    if (!loaded) return;
+    localStorage.setItem('language', loaded.language);
+    document.documentElement.lang = loaded.language;
+    document.documentElement.dir = isRtlLanguage(loaded.language) ? 'rtl' : 'ltr';
+  }, [loaded]);
 
-    if (typeof translation !== 'string') {
-        console.warn(`Translation key "${key}" not found for language "${language}".`);
-        return key;
+  const t = useCallback<Translate>((key, ...params) => {
+    const locale = loaded?.language ?? SOURCE_LOCALE;
+    let message: string | undefined = loaded?.catalog[key];
+    if (typeof message !== 'string') {
+      console.warn(`Translation key "${key}" not found for language "${locale}".`);
+      message = sourceCatalog[key];
+      if (typeof message !== 'string') return key;
     }
+    return formatMessage(message, (params[0] ?? {}) as MessageValues, locale);
+  }, [loaded]);
 
-    if (replacements) {
-        Object.keys(replacements).forEach(placeholder => {
-            translation = translation.replace(`{${placeholder}}`, replacements[placeholder]);
-        });
-    }
+  // Nothing is shown until the saved locale has loaded, so the interface
+  // doesn't flash in English first.
+  if (!loaded) return null;
 
-    return translation;
-  }, [language]);
+  const dir = isRtlLanguage(loaded.language) ? 'rtl' : 'ltr';
 
   return (
-    <LanguageContext.Provider value={{ language, toggleLanguage, t }}>
+    <LanguageContext.Provider value={{ language: loaded.language, dir, locales: LOCALES, setLanguage, t }}>
       {children}
     </LanguageContext.Provider>
   );
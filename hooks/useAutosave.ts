@@ -0,0 +1,93 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { isAbortError } from '../utils/abort';
+
+export type SaveStatus = 'saved' | 'saving' | 'unsaved' | 'error';
+
+interface UseAutosaveOptions {
+  // Nothing is saved, and leaving the page isn't guarded, while this is false.
+  enabled: boolean;
+  delayMs?: number;
+}
+
+// Waits for edits to settle before saving.
+export const AUTOSAVE_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+// Failed saves are retried after 4s, 8s, 16s, … up to a minute apart.
+const retryDelay = (failures: number): number => Math.min(AUTOSAVE_DELAY_MS * 2 ** failures, MAX_RETRY_DELAY_MS);
+
+// Saves `value` with `save` once it has stopped changing for `delayMs`. Values
+// are compared by identity, so `value` should be immutable state. A save still
+// in flight is aborted when a newer value comes in.
+export const useAutosave = <T,>(value: T, save: (value: T, signal: AbortSignal) => Promise<void>, options: UseAutosaveOptions) => {
+  const { enabled, delayMs = AUTOSAVE_DELAY_MS } = options;
+  const [status, setStatus] = useState<SaveStatus>('saved');
+  // Bumped to re-run the save effect without a new value: after a failure,
+  // for an immediate save, or when a value is marked as saved.
+  const [attempt, setAttempt] = useState(0);
+  const savedRef = useRef<T | undefined>(undefined);
+  const failuresRef = useRef(0);
+  const immediateRef = useRef(false);
+  const saveRef = useRef(save);
+  saveRef.current = save;
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (value === savedRef.current) {
+      setStatus('saved');
+      return;
+    }
+
+    setStatus(prev => (prev === 'error' ? prev : 'unsaved'));
+    const controller = new AbortController();
+    const delay = immediateRef.current ? 0 : Math.max(delayMs, failuresRef.current > 0 ? retryDelay(failuresRef.current) : 0);
+    immediateRef.current = false;
+    const timer = setTimeout(async () => {
+      setStatus('saving');
+      try {
+        await saveRef.current(value, controller.signal);
+        savedRef.current = value;
+        failuresRef.current = 0;
+        setStatus('saved');
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error('Autosave failed:', error);
+        failuresRef.current += 1;
+        setStatus('error');
+        setAttempt(n => n + 1);
+      }
+    }, delay);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [value, enabled, attempt, delayMs]);
+
+  // Browsers show their own wording; the message can't be customized.
+  useEffect(() => {
+    if (!enabled || status === 'saved') return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [enabled, status]);
+
+  // Records that `saved` is what the server holds, e.g. after loading it from
+  // there or saving it some other way.
+  const markSaved = useCallback((saved: T) => {
+    savedRef.current = saved;
+    failuresRef.current = 0;
+    setAttempt(n => n + 1);
+  }, []);
+
+  // Saves pending changes now instead of waiting for the debounce or backoff.
+  const saveNow = useCallback(() => {
+    immediateRef.current = true;
+    setAttempt(n => n + 1);
+  }, []);
+
+  return { status, markSaved, saveNow };
+};
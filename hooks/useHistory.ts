@@ -0,0 +1,98 @@
+import { useState, useRef, useCallback } from 'react';
+import type { TranslationKey } from '../locales';
+
+export interface HistoryLabel {
+  key: TranslationKey;
+  params?: { [key: string]: string };
+}
+
+interface HistoryEntry<T> {
+  label: HistoryLabel;
+  state: T;
+}
+
+interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  present: T;
+  future: HistoryEntry<T>[];
+}
+
+interface UseHistoryOptions<T> {
+  limit?: number;
+  // Called with the new present after every commit, undo and redo (not on reset).
+  onChange?: (state: T) => void;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+export const useHistory = <T,>(initialState: T, options: UseHistoryOptions<T> = {}) => {
+  const { limit = DEFAULT_HISTORY_LIMIT } = options;
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initialState, future: [] });
+
+  // Mirror of the latest state so that commands can be computed synchronously,
+  // which keeps side effects (like persisting) out of the setState updaters.
+  const historyRef = useRef(history);
+  const onChangeRef = useRef(options.onChange);
+  onChangeRef.current = options.onChange;
+
+  const apply = useCallback((next: HistoryState<T>, notify: boolean) => {
+    historyRef.current = next;
+    setHistory(next);
+    if (notify) {
+      onChangeRef.current?.(next.present);
+    }
+  }, []);
+
+  const commit = useCallback((label: HistoryLabel, updater: (prev: T) => T) => {
+    const current = historyRef.current;
+    const nextPresent = updater(current.present);
+    if (nextPresent === current.present) return;
+
+    // Each entry stores the state *before* the change so undo can restore it.
+    const past = [...current.past, { label, state: current.present }];
+    apply({
+      past: past.length > limit ? past.slice(past.length - limit) : past,
+      present: nextPresent,
+      future: [],
+    }, true);
+  }, [apply, limit]);
+
+  const undo = useCallback(() => {
+    const current = historyRef.current;
+    const entry = current.past[current.past.length - 1];
+    if (!entry) return;
+    apply({
+      past: current.past.slice(0, -1),
+      present: entry.state,
+      future: [{ label: entry.label, state: current.present }, ...current.future],
+    }, true);
+  }, [apply]);
+
+  const redo = useCallback(() => {
+    const current = historyRef.current;
+    const [entry, ...future] = current.future;
+    if (!entry) return;
+    apply({
+      past: [...current.past, { label: entry.label, state: current.present }],
+      present: entry.state,
+      future,
+    }, true);
+  }, [apply]);
+
+  // Replaces the present state and drops all history, e.g. after loading data.
+  const reset = useCallback((state: T) => {
+    apply({ past: [], present: state, future: [] }, false);
+  }, [apply]);
+
+  return {
+    present: history.present,
+    commit,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.label ?? null,
+    redoLabel: history.future[0]?.label ?? null,
+  };
+};
@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import type { LatLngTuple } from 'leaflet';
+import type { RoutingProfile } from '../types';
+import { createStraightLineRoute, getRoute, type Route } from '../services/routing';
+import { isAbortError } from '../utils/abort';
+
+export type RouteStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+interface RouteState {
+  route: Route | null;
+  status: RouteStatus;
+  // The waypoints `route` was computed for, as a `routeWaypointsKey`.
+  waypointsKey: string | null;
+}
+
+// Identifies a list of waypoints, order included.
+export const routeWaypointsKey = (waypoints: LatLngTuple[]): string =>
+  waypoints.map(([lat, lon]) => `${lat},${lon}`).join(';');
+
+// Waits for edits to settle (e.g. several quick reorders) before asking the router.
+const ROUTE_DEBOUNCE_MS = 400;
+
+// Keeps a route through `waypoints` up to date. While a new route loads the
+// previous one stays visible; if routing fails, straight lines stand in for it.
+export const useRoute = (waypoints: LatLngTuple[], profile: RoutingProfile): RouteState => {
+  const [state, setState] = useState<RouteState>({ route: null, status: 'idle', waypointsKey: null });
+  const waypointsKey = routeWaypointsKey(waypoints);
+
+  useEffect(() => {
+    if (waypoints.length < 2) {
+      setState({ route: null, status: 'idle', waypointsKey: null });
+      return;
+    }
+
+    if (profile === 'straight') {
+      setState({ route: createStraightLineRoute(waypoints), status: 'ready', waypointsKey });
+      return;
+    }
+
+    const controller = new AbortController();
+    setState(prev => ({ ...prev, status: 'loading' }));
+    const timer = setTimeout(async () => {
+      try {
+        const route = await getRoute(waypoints, profile, { signal: controller.signal });
+        setState({ route, status: 'ready', waypointsKey });
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error('Routing failed, falling back to straight lines:', error);
+        setState({ route: createStraightLineRoute(waypoints), status: 'error', waypointsKey });
+      }
+    }, ROUTE_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  // `waypointsKey` stands in for `waypoints`, which is a new array on every render.
+  }, [waypointsKey, profile]);
+
+  return state;
+};
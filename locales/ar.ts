@@ -0,0 +1,401 @@
+import type { Catalog, CheckedCatalog } from './index';
+
+const ar = {
+  // App.tsx
+  headerTitle: "إدارة الخريطة",
+  headerSubtitle: "أنشئ وأدر دبابيس مواقعك.",
+  importButton: "استيراد",
+  saveButton: "حفظ",
+  exportButton: "تصدير",
+  clearAllButton: "مسح الكل",
+  clearAllConfirmation: "هل أنت متأكد أنك تريد حذف جميع المواقع؟",
+  importConfirmation: "سيؤدي هذا إلى استبدال جميع المواقع الحالية بالمواقع المستوردة. هل أنت متأكد أنك تريد المتابعة؟",
+  importError_file: "حدث خطأ أثناء قراءة الملف.",
+  importError_json: "الملف المحدد ليس ملف JSON صالح.",
+  importError_xml: "الملف المحدد ليس ملف KML أو GPX صالح.",
+  importError_validation: "يحتوي الملف المستورد على بيانات غير صالحة أو ليس بالتنسيق الصحيح.",
+  importSuccess: "تم استيراد المواقع بنجاح!",
+  importReportTitle: "بعض المواقع تحتاج إلى مراجعة",
+  importReportSummary: "{valid} من أصل {total, plural, zero {لا مواقع} one {موقع واحد} two {موقعين} few {# مواقع} many {# موقعًا} other {# موقع}} صالحة.",
+  importReportLocation: "الموقع رقم {number}: {title}",
+  importReportUntitled: "(بدون عنوان)",
+  importReportExpected: "المتوقع {expected}، الموجود {actual}",
+  importReportChoiceLabel: "ماذا تفعل بهذا الموقع",
+  importReportFixChoice: "إصلاح واستيراد",
+  importReportDropChoice: "استبعاد",
+  importReportNotFixable: "غير قابل للإصلاح وسيُستبعد",
+  importReportDropButton: "استبعاد {count} غير صالحة",
+  importReportImportButton: "استيراد {count, plural, zero {لا مواقع} one {موقع واحد} two {موقعين} few {# مواقع} many {# موقعًا} other {# موقع}}",
+  importSkippedFeatures: "تم استيراد {imported, plural, zero {لا مواقع} one {موقع واحد} two {موقعين} few {# مواقع} many {# موقعًا} other {# موقع}}. تم تخطي {count, plural, zero {لا عناصر} one {عنصر واحد} two {عنصرين} few {# عناصر} many {# عنصرًا} other {# عنصر}}:",
+  countryLookupTitle: "جارٍ البحث عن الدول",
+  countryLookupSubtitle: "بعض المواقع المستوردة لا تذكر الدولة التي تقع فيها، لذا يتم البحث عنها من إحداثياتها.",
+  countryLookupProgress: "جارٍ البحث عن الدول ({done} من {total})...",
+  countryLookupSkip: "تخطٍّ واستيراد",
+  importSkippedItem: "#{number} {name}: {reason}",
+  skipReason_geometry: "ليس عنصرًا نقطيًا",
+  skipReason_coordinates: "إحداثيات مفقودة أو خارج النطاق",
+  skipReason_title: "لا يوجد عنوان أو اسم",
+  skipReason_invalid: "تعذر تحويل الخصائص إلى موقع",
+  exportFormatJson: "المواقع (JSON)",
+  exportFormatGeoJson: "GeoJSON",
+  exportFormatKml: "KML (Google Earth)",
+  exportFormatGpx: "GPX (أجهزة GPS)",
+  exportDocumentName: "جولة إدارة الخريطة",
+  csvWizardTitle: "الاستيراد من جدول بيانات",
+  csvWizardMapSubtitle: "طابق أعمدة جدول البيانات مع حقول الموقع. سيتم تحديد إحداثيات الصفوف التي تحتوي على عنوان دون إحداثيات.",
+  csvWizardReviewSubtitle: "راجع كل صف قبل الاستيراد. سيتم تخطي الصفوف التي تحتوي على أخطاء.",
+  csvWizardEmpty: "لا يحتوي الملف على أي صفوف.",
+  csvWizardHasHeader: "الصف الأول يحتوي على أسماء الأعمدة",
+  csvWizardNotMapped: "— لا يتم استيراده —",
+  csvWizardRowCount: "{count, plural, zero {لم يتم العثور على صفوف بيانات.} one {تم العثور على صف بيانات واحد.} two {تم العثور على صفي بيانات.} few {تم العثور على # صفوف بيانات.} many {تم العثور على # صفًا من البيانات.} other {تم العثور على # صف بيانات.}}",
+  csvWizardGeocoding: "جارٍ البحث عن العناوين ({done} من {total})...",
+  csvWizardReviewSummary: "{valid} صف جاهز للاستيراد، {errors} صف يحتوي على أخطاء.",
+  csvWizardRow: "الصف",
+  csvWizardStatus: "الحالة",
+  csvWizardReady: "جاهز",
+  csvWizardPending: "بانتظار تحديد الإحداثيات...",
+  csvWizardModeAppend: "إضافة إلى المواقع الحالية",
+  csvWizardModeReplace: "استبدال المواقع الحالية",
+  csvWizardImportButton: "استيراد {count, plural, zero {لا مواقع} one {موقع واحد} two {موقعين} few {# مواقع} many {# موقعًا} other {# موقع}}",
+  csvColumn: "العمود {number}",
+  csvFieldLat: "خط العرض",
+  csvFieldLon: "خط الطول",
+  csvFieldAddress: "العنوان البريدي",
+  csvError_title: "العنوان مفقود.",
+  csvError_coordinates: "خط العرض أو خط الطول غير صالح.",
+  csvError_noLocation: "لا توجد إحداثيات أو عنوان.",
+  csvError_geocode: "تعذر العثور على العنوان.",
+  alert_noCountry: "تعذر تحديد البلد للموقع المختار. يرجى تجربة بقعة مختلفة.",
+  alert_countryError: "حدث خطأ أثناء تحديد البلد.",
+  alert_noExport: "لا توجد مواقع لتصديرها.",
+  alert_noSave: "لا توجد مواقع لحفظها.",
+  alert_saveSuccess: "تم حفظ المواقع بنجاح!",
+  alert_saveError: "فشل حفظ المواقع. يرجى المحاولة مرة أخرى.",
+  alert_saveMissingParams: "معلمات URL المطلوبة مفقودة (userId، token، artifact_id، base_url). لا يمكن الحفظ على الخادم.",
+  alert_draftStorageFailed: "تعذّر حفظ تغييراتك في هذا المتصفح، على الأرجح لامتلاء مساحة التخزين. احفظ على الخادم أو صدّر نسخة احتياطية، واحذف ملفات الوسائط الكبيرة المضمّنة.",
+  saveStatus_saved: "تم حفظ جميع التغييرات",
+  saveStatus_saving: "جارٍ الحفظ...",
+  saveStatus_unsaved: "تغييرات غير محفوظة",
+  saveStatus_error: "تعذّر الحفظ. جارٍ إعادة المحاولة...",
+  saveStatusRetryNow: "أعد المحاولة الآن",
+  saveStatus_paused: "المزامنة مع الاستوديو متوقفة حتى تتم مراجعة مواقعه",
+  saveStatusReview: "مراجعة",
+  loadingArtifact: "جارٍ تحميل بيانات الأثر...",
+  alert_searchNotFound: "لم يتم العثور على المكان. يرجى المحاولة مرة أخرى.",
+  alert_searchError: "حدث خطأ أثناء البحث.",
+  startTourTooltip: "ابدأ الجولة الإرشادية",
+  previewTooltip: "معاينة كمتعلم",
+  exitPreviewTooltip: "إنهاء المعاينة",
+  toggleSidebarTooltip: "تبديل الشريط الجانبي",
+  undoButton: "تراجع",
+  redoButton: "إعادة",
+  undoTooltip: "تراجع: {action} (Ctrl+Z)",
+  redoTooltip: "إعادة: {action} (Ctrl+Shift+Z)",
+  history_added: 'إضافة "{title}"',
+  history_edited: 'تعديل "{title}"',
+  history_deleted: 'حذف "{title}"',
+  history_reordered: 'إعادة ترتيب "{title}"',
+  history_cleared: "مسح جميع المواقع",
+  history_imported: "استيراد المواقع",
+  history_moved: 'نقل "{title}" على الخريطة',
+  history_tourCreated: 'إنشاء الجولة "{title}"',
+  history_tourEdited: 'تعديل الجولة "{title}"',
+  history_tourDeleted: 'حذف الجولة "{title}"',
+  history_movedToTour: 'نقل "{title}" إلى "{tour}"',
+  history_copiedToTour: 'نسخ "{title}" إلى "{tour}"',
+  moveModeOffTooltip: "انقل المواقع بسحب علاماتها",
+  moveModeOnTooltip: "إيقاف نقل المواقع (اضغط Esc أثناء السحب للإلغاء)",
+  mapPickHint: "انقر على الخريطة لتحديد الإجابة",
+
+  // LanguageSwitcher.tsx
+  toggleLanguageTooltip: "تغيير اللغة",
+
+  // LocationForm.tsx
+  editingTitle: 'تعديل "{title}"',
+  step2Title: "الخطوة 2: أضف تفاصيل الموقع",
+  step1Title: "الخطوة 1: اختر موقعًا",
+  step1Instruction: "انقر على الخريطة لاختيار بقعة لموقعك الجديد.",
+  coordinatesLabel: "الإحداثيات",
+  detectingCountry: "جارٍ تحديد البلد...",
+  countryLabel: "البلد",
+  titleLabel: "العنوان",
+  contentLanguageTabsLabel: "لغة المحتوى",
+  fallbackLanguageBadge: "(الأساسية)",
+  translationMissingTooltip: "الترجمة غير مكتملة",
+  translationTabHint: "اترك الحقل فارغاً لعرض النص باللغة {language} بدلاً منه.",
+  translateIntoButton: "ترجمة إلى {language}",
+  translateTooltip: "ترجمة العنوان والوصف والاختبار في هذا التبويب بالذكاء الاصطناعي. لا يُحفظ شيء حتى توافق عليه.",
+  translating: "جارٍ الترجمة...",
+  translateMissingContentAlert: "أضف عنواناً ووصفاً قبل الترجمة.",
+  translateErrorAlert: "فشلت الترجمة أو لم تحافظ على بنية المحتوى. يرجى المحاولة مرة أخرى.",
+  translationReviewTitle: "مراجعة الترجمة إلى {language}",
+  translationReviewSubtitle: "لا يُحفظ شيء حتى توافق. النص المشطوب هو ما ستحل الترجمة محله.",
+  translationReviewQuestion: "السؤال {number}",
+  translationReviewPairs: "الأزواج",
+  translationReviewApprove: "اعتماد الترجمة",
+  translationReviewDiscard: "تجاهل",
+  descriptionLabel: "الوصف",
+  descriptionPlaceholder: "أدخل وصفًا غنيًا للموقع...",
+  mediaUrlsLegend: "روابط الوسائط (اختياري)",
+  mediaUploadDropHint_image: "أفلت صورة هنا أو",
+  mediaUploadDropHint_video: "أفلت مقطع فيديو هنا أو",
+  mediaUploadDropHint_audio: "أفلت مقطعًا صوتيًا هنا أو",
+  mediaUploadBrowseButton: "اختر ملفًا",
+  mediaUploadCompressing: "جارٍ تصغير الصورة...",
+  mediaUploadProgress: "جارٍ الرفع... {percent, number}%",
+  mediaUploadWrongType_image: "يرجى اختيار ملف صورة.",
+  mediaUploadWrongType_video: "يرجى اختيار ملف فيديو MP4 أو OGG.",
+  mediaUploadWrongType_audio: "يرجى اختيار ملف صوتي MP3 أو OGG.",
+  mediaUploadError: "تعذر رفع الملف. يرجى المحاولة مرة أخرى.",
+  mediaUploadTooLarge: "هذا الملف كبير جداً. الحد الأقصى لهذا النوع من الملفات هو {size, number} ميغابايت.",
+  mediaUploadUnavailable: "الرفع غير مُعدّ لهذه الأداة. افتحها من الاستوديو، أو الصق رابطاً بدلاً من ذلك.",
+  imageUrlLabel: "رابط الصورة",
+  videoUrlLabel: "رابط الفيديو",
+  audioUrlLabel: "رابط الصوت",
+  mediaUnrecognized_video: "استخدم رابطًا من YouTube أو Vimeo، أو رابطًا مباشرًا لملف فيديو MP4 أو OGG.",
+  mediaUnrecognized_audio: "استخدم رابطًا مباشرًا لملف صوتي MP3 أو OGG.",
+  mediaChecking: "جارٍ التحقق من الرابط...",
+  mediaBroken: "تعذر تحميل هذا الرابط. قد يكون معطلًا أو خاصًا أو غير متاح.",
+  mediaUnsupported: "لا يستطيع هذا المتصفح تشغيل صيغة هذا الملف، وقد تستطيع متصفحات أخرى ذلك.",
+  mediaBrokenConfirm: "تعذر تحميل رابط فيديو أو صوت وقد يكون معطلًا. هل تريد الحفظ على أي حال؟",
+  mediaUnsupportedConfirm: "لا يستطيع هذا المتصفح تشغيل صيغة ملف فيديو أو صوت. هل تريد الحفظ على أي حال؟",
+  markerStyleLegend: "نمط العلامة",
+  markerIconLabel: "الأيقونة",
+  markerColorLabel: "اللون",
+  markerIconNone: "رقم المحطة فقط",
+  markerColorDefault: "اللون الافتراضي",
+  markerIcon_landmark: "معلم",
+  markerIcon_nature: "طبيعة",
+  markerIcon_water: "ماء",
+  markerIcon_viewpoint: "نقطة مشاهدة",
+  markerIcon_star: "أبرز المحطات",
+  markerIcon_flag: "بداية أو نهاية",
+  markerIcon_heart: "مفضلة",
+  markerIcon_info: "معلومات",
+  markerColor_teal: "أزرق مخضر",
+  markerColor_sky: "أزرق سماوي",
+  markerColor_indigo: "نيلي",
+  markerColor_violet: "بنفسجي",
+  markerColor_rose: "وردي",
+  markerColor_red: "أحمر",
+  markerColor_amber: "كهرماني",
+  markerColor_green: "أخضر",
+  markerColor_slate: "رمادي",
+  saveChangesButton: "حفظ التغييرات",
+  addLocationButton: "أضف الموقع إلى الخريطة",
+  cancelButton: "إلغاء",
+  formAlert: "يرجى ملء جميع الحقول المطلوبة، بما في ذلك الوصف، واختيار موقع، وانتظار تحديد البلد.",
+  alert_aiError: "فشل إنشاء الوصف. يرجى المحاولة مرة أخرى.",
+  aiNotConfiguredAlert: "ميزات الذكاء الاصطناعي غير مُعدّة لهذه الأداة. افتحها من الاستوديو، أو اطلب من المسؤول إعداد مزوّد للذكاء الاصطناعي.",
+  generateDescriptionButton: "إنشاء",
+  generateDescriptionTooltip: "إنشاء وصف باستخدام الذكاء الاصطناعي",
+  generatingDescription: "جارٍ الإنشاء...",
+  questionsLegend: "أسئلة الاختبار (اختياري)",
+  questionsLegendLanguage: "أسئلة الاختبار باللغة {language} (اختياري)",
+  fallbackQuizNotice: "تستخدم هذه اللغة الاختبار باللغة {language}.",
+  translateQuizButton: "ترجم الاختبار",
+  useFallbackQuizButton: "استخدم الاختبار باللغة {language} بدلاً من ذلك",
+  questionsSubtitle: "أشرك المستخدمين بإضافة اختبار لهذا الموقع.",
+  noQuestionsTitle: "لا توجد أسئلة بعد.",
+  addQuestionButton: "أضف سؤال",
+  addAnotherQuestionButton: "أضف سؤالاً آخر",
+  generateQuestionsButton: "إنشاء أسئلة",
+  generateQuestionsTooltip: "اقتراح أسئلة اختبار من العنوان والوصف باستخدام الذكاء الاصطناعي",
+  generatingQuestions: "جارٍ الإنشاء...",
+  aiStopGenerating: "إيقاف",
+  generateQuestionsMissingContentAlert: "اكتب عنوانًا ووصفًا أولًا، فالأسئلة تُنشأ منهما.",
+  generateQuestionsEmptyAlert: "لم يقترح الذكاء الاصطناعي أي أسئلة صالحة. يرجى المحاولة مرة أخرى.",
+  generateQuestionsErrorAlert: "فشل إنشاء الأسئلة. يرجى المحاولة مرة أخرى.",
+  generatedQuestionsTitle: "{count, plural, zero {لا أسئلة مقترحة} one {سؤال مقترح واحد} two {سؤالان مقترحان} few {# أسئلة مقترحة} many {# سؤالًا مقترحًا} other {# سؤال مقترح}}",
+  generatedQuestionsAcceptAll: "قبول الكل",
+  generatedQuestionsDiscardAll: "تجاهل الكل",
+  generatedQuestionAccept: "قبول",
+  generatedQuestionEdit: "تعديل",
+  generatedQuestionDoneEditing: "تم",
+  generatedQuestionDiscard: "تجاهل",
+  generatedQuestionIncompleteAlert: "هذا السؤال غير مكتمل. أكمل السؤال وحدد إجابته الصحيحة قبل قبوله.",
+  removeQuestionButton: "إزالة السؤال",
+  questionTextLabel: "السؤال",
+  questionTextPlaceholder: "أدخل نص السؤال...",
+  questionTypeLabel: "نوع السؤال",
+  questionTypeShortAnswer: "إجابة قصيرة",
+  questionTypeTrueFalse: "صح / خطأ",
+  questionTypeMultipleChoice: "اختيار من متعدد",
+  questionTypeMultiSelect: "اختيار متعدد الإجابات",
+  questionTypeOrdering: "ترتيب",
+  questionTypeMatching: "مطابقة",
+  questionTypeMapLocation: "حدده على الخريطة",
+  mapTargetPointMode: "نقطة ونصف قطر",
+  mapTargetPolygonMode: "منطقة",
+  mapTargetSetButton: "حدد الهدف على الخريطة",
+  mapTargetMoveButton: "انقل الهدف",
+  mapTargetPickingButton: "انقر على الخريطة…",
+  mapTargetDrawButton: "ارسم المنطقة على الخريطة",
+  mapTargetFinishDrawingButton: "إنهاء الرسم",
+  mapTargetClearButton: "مسح",
+  mapTargetPointSummary: "الهدف: {coords}",
+  mapTargetRadiusLabel: "نصف القطر (م)",
+  mapTargetPolygonTooFew: "{count, plural, zero {لم توضع أي زاوية} one {تم وضع زاوية واحدة} two {تم وضع زاويتين} few {تم وضع # زوايا} many {تم وضع # زاوية} other {تم وضع # زاوية}}؛ تحتاج المنطقة إلى 3 زوايا على الأقل.",
+  mapTargetPolygonSummary: "منطقة {count, plural, zero {بلا زوايا} one {بزاوية واحدة} two {بزاويتين} few {من # زوايا} many {من # زاوية} other {من # زاوية}}.",
+  mapTargetScoringHint: "الإجابات داخل الهدف تحصل على كامل النقاط، والإجابات خارجه تحصل على نقاط أقل كلما ابتعدت.",
+  mapTargetMissingAlert: "يحتاج كل سؤال من نوع \"حدده على الخريطة\" إلى نقطة هدف أو منطقة من 3 زوايا على الأقل.",
+  answerLabel: "الإجابة الصحيحة",
+  optionsLabel: "الخيارات",
+  addOptionButton: "أضف خيار",
+  removeOptionAriaLabel: "إزالة الخيار",
+  markAsCorrectAriaLabel: "تحديد كإجابة صحيحة",
+  multiSelectOptionsLabel: "الخيارات (حدد كل الإجابات الصحيحة)",
+  orderingItemsLabel: "العناصر بالترتيب الصحيح",
+  addItemButton: "أضف عنصر",
+  removeItemButton: "إزالة العنصر",
+  moveItemUpButton: "تحريك لأعلى",
+  moveItemDownButton: "تحريك لأسفل",
+  matchingPromptLabel: "العبارة",
+  matchingMatchLabel: "المطابقة الصحيحة",
+  addPairButton: "أضف زوج",
+  removePairButton: "إزالة الزوج",
+  questionIncompleteAlert: "السؤال رقم {number} غير مكتمل. أدخل عنصرين على الأقل وحدد الإجابات الصحيحة.",
+  blockNavigationLabel: "منع التنقل",
+  blockNavigationDescription: "إذا تم تحديده، يجب على المستخدمين الإجابة بشكل صحيح على سؤال قبل المتابعة إلى الموقع التالي في الجولة.",
+  questionPointsLabel: "النقاط",
+  feedbackCorrectLabel: "ملاحظة عند الإجابة الصحيحة",
+  feedbackIncorrectLabel: "ملاحظة عند الإجابة الخاطئة",
+  explanationLabel: "الشرح",
+  explanationPlaceholder: "لماذا هذه هي الإجابة؟ يظهر بعد أن يجيب المتعلم.",
+  locationPassMarkLabel: "درجة النجاح",
+  locationPassMarkDescription: "النسبة المئوية من نقاط هذا الموقع التي يحتاجها المتعلم للنجاح. اتركه فارغاً لعدم التحديد.",
+
+  // LocationsList.tsx
+  createdLocationsTitle: "المواقع المنشأة",
+  searchPlaceholder: "ابحث باسم البلد...",
+  toggleSearchTooltip: "البحث عن مواقع",
+  noLocationsTitle: "لا توجد مواقع بعد",
+  noLocationsSubtitle: "ابدأ بتحديد نقطة على الخريطة.",
+  noMatchTitle: "لا توجد مواقع مطابقة",
+  noMatchSubtitle: "جرب اسم بلد مختلف.",
+  routingProfileLabel: "المسار بين المحطات",
+  routingProfile_straight: "خط مستقيم",
+  routingProfile_walking: "مشياً",
+  routingProfile_cycling: "بالدراجة",
+  routingProfile_driving: "بالسيارة",
+  routeTotalDistance: "الإجمالي: {distance}",
+  routeTotalDistanceDuration: "الإجمالي: {distance} · {duration}",
+  routeLoading: "جارٍ حساب المسار…",
+  routeError: "تعذر حساب المسار، لذا تُعرض المسافات بخط مستقيم.",
+  routeLegDistance: "{distance} إلى المحطة التالية",
+  routeLegDistanceDuration: "{distance} · {duration} إلى المحطة التالية",
+  searchLocationsAriaLabel: "ابحث عن مواقع حسب البلد",
+
+  // TourSwitcher.tsx & TourDetailsDialog.tsx
+  tourSelectLabel: "الجولة الحالية",
+  contentLanguageLabel: "عرض المحتوى باللغة",
+  contentLanguageFallbackOption: "{language} (الأساسية)",
+  tourOption: "{title} ({count})",
+  untitledTour: "جولة بلا عنوان",
+  editTourTooltip: "تعديل تفاصيل الجولة",
+  newTourTooltip: "جولة جديدة",
+  deleteTourTooltip: "حذف الجولة",
+  deleteTourConfirmation: 'هل تريد حذف الجولة "{title}" وجميع مواقعها؟',
+  tourDetailsCreateTitle: "جولة جديدة",
+  tourDetailsEditTitle: "تفاصيل الجولة",
+  tourTitleLabel: "عنوان الجولة",
+  tourIntroLabel: "المقدمة",
+  tourCoverImageLabel: "رابط صورة الغلاف",
+  tourLanguageLabel: "لغة المحتوى",
+  tourLanguageDescription: "العناوين والأوصاف والاختبارات مطلوبة بهذه اللغة، وتُستخدم بدلاً من أي ترجمة ناقصة.",
+  tourTranslationLanguagesLabel: "الترجمات",
+  tourTranslationLanguagesDescription: "اللغات الأخرى التي يُكتب بها المحتوى. يحصل كل موقع على علامة تبويب لكل لغة.",
+  tourBaseLayerLabel: "الخريطة الأساسية",
+  tourBaseLayerDefault: "الخريطة الأساسية الافتراضية",
+  tourBaseLayerUnavailable: "{id} (غير متوفرة هنا)",
+  tourPassMarkLabel: "درجة النجاح",
+  tourPassMarkDescription: "النسبة المئوية من مجموع نقاط الجولة التي يحتاجها المتعلم للنجاح. اتركه فارغاً لعدم التحديد.",
+  tourDetailsCreateButton: "إنشاء الجولة",
+  tourDetailsSaveButton: "حفظ التفاصيل",
+
+  // TransferLocationDialog.tsx
+  transferLocationTitle: 'نقل أو نسخ "{title}"',
+  transferLocationSubtitle: "تُضاف المواقع المنقولة والمنسوخة إلى نهاية الجولة المختارة.",
+  transferTargetLabel: "الجولة الوجهة",
+  moveToTourButton: "نقل",
+  copyToTourButton: "نسخ",
+
+  // MapComponent.tsx
+  newLocationPopup: "إحداثيات الموقع الجديد:",
+  baseLayer_osm: "خريطة الشوارع",
+  baseLayer_satellite: "قمر صناعي",
+  baseLayer_minimal: "مبسطة",
+  baseLayer_custom: "بلاطات محلية",
+  quizTitle: "اختبار قصير",
+  quizTrue: "صحيح",
+  quizFalse: "خطأ",
+  quizShortAnswerHint: "مطلوب إجابة قصيرة.",
+  quizMapLocationHint: "تتم الإجابة بالنقر على الخريطة.",
+  quizMultiSelectHint: "اختر كل ما ينطبق.",
+  quizOrderingHint: "رتب هذه العناصر بالترتيب الصحيح.",
+  quizMatchingHint: "طابق كل عنصر في اليمين مع عنصر في اليسار.",
+
+  // TourPlayer.tsx & QuizQuestion.tsx
+  playerPreviewBadge: "معاينة المتعلم",
+  playerExitButton: "إنهاء المعاينة",
+  playerStopCount: "{count, plural, zero {لا محطات في هذه الجولة} one {محطة واحدة في هذه الجولة} two {محطتان في هذه الجولة} few {# محطات في هذه الجولة} many {# محطة في هذه الجولة} other {# محطة في هذه الجولة}}",
+  playerStartButton: "ابدأ الجولة",
+  playerStopProgress: "المحطة {current} من {total}",
+  playerQuestionLegend: "السؤال {number}",
+  playerQuestionPoints: "{points, plural, zero {لا نقاط} one {نقطة واحدة} two {نقطتان} few {# نقاط} many {# نقطة} other {# نقطة}}",
+  playerExplanationLabel: "السبب:",
+  playerAnswerPlaceholder: "اكتب إجابتك",
+  playerPickOnMapButton: "أجب على الخريطة",
+  playerPickAgainButton: "غيّر إجابتي",
+  playerPickingOnMap: "انقر على الخريطة…",
+  playerPickedLocation: "إجابتك: {coords}",
+  playerMoveItemUp: "تحريك \"{item}\" لأعلى",
+  playerMoveItemDown: "تحريك \"{item}\" لأسفل",
+  playerChooseMatch: "اختر المطابقة…",
+  playerMissedBy: "كنت على بعد {distance} من الهدف.",
+  playerCheckAnswersButton: "تحقق من الإجابات",
+  playerCorrect: "إجابة صحيحة!",
+  playerIncorrect: "ليست صحيحة تماماً. حاول مرة أخرى.",
+  playerBlockedHint: "أجب عن جميع أسئلة هذه المحطة بشكل صحيح للمتابعة.",
+  playerPreviousButton: "السابق",
+  playerNextButton: "المحطة التالية",
+  playerFinishButton: "إنهاء",
+  playerSummaryTitle: "اكتملت الجولة",
+  playerSummaryScore: "النتيجة: {earned} من {possible} نقطة ({percent}٪)",
+  playerSummaryNoQuestions: "لا تحتوي هذه الجولة على أسئلة لاحتساب النتيجة.",
+  playerStopScore: "{earned}/{possible}",
+  playerPassed: "ناجح",
+  playerNotPassed: "غير ناجح",
+  playerPassMarkResult: "{result} (درجة النجاح {passMark}٪)",
+  playerPassMarkHint: "درجة النجاح: {passMark}٪",
+  playerSummaryFirstTryNote: "تُمنح النقاط فقط للإجابات الصحيحة من المحاولة الأولى.",
+  playerRestartButton: "العب مرة أخرى",
+
+  // MapSearchControl.tsx
+  searchPlacePlaceholder: "ابحث عن مكان...",
+  searchButton: "بحث",
+  searchingButton: "جارٍ البحث",
+  searchAriaLabel: "ابحث عن مكان لنقل الخريطة إليه",
+
+  // SortableLocationItem.tsx
+  dragAriaLabel: "اسحب لإعادة الترتيب",
+  viewAriaLabel: "عرض {title} على الخريطة",
+  translationMissingBadge: "ترجمة ناقصة: {languages}",
+  moreOptionsAriaLabel: "خيارات إضافية لـ {title}",
+  editMenuItem: "تعديل",
+  transferMenuItem: "نقل أو نسخ إلى جولة",
+  deleteMenuItem: "حذف",
+
+  // TourGuide.tsx
+  tourStep1Content: "اكتب اسم مدينة هنا للبحث عنها 🚩",
+  tourStep2Content: "انقر على الخريطة لتحديد موقعك 🗺️",
+  tourStep3Content: "بعد تحديد موقع على الخريطة، أدخل العنوان ووصفًا غنيًا هنا.",
+  tourStep4Content: "اختياريًا، أضف روابط لصورة وفيديو وصوت لإثراء دبوس موقعك.",
+  tourStep5Content: "ستظهر المواقع التي أنشأتها في هذه القائمة. يمكنك إعادة ترتيبها أو عرضها أو تعديلها أو حذفها.",
+  tourSkipButton: "تخطي",
+  tourBackButton: "رجوع",
+  tourNextButton: "التالي",
+  tourFinishButton: "إنهاء",
+} as const satisfies Catalog;
+
+export default ar satisfies CheckedCatalog<typeof ar>;
@@ -0,0 +1,403 @@
+// The source catalog. Its keys are the only valid translation keys, and each
+// message's arguments are typed from the strings here, so it stays `as const`.
+// Messages use ICU syntax: `{name}`, `{count, number}` and
+// `{count, plural, one {# stop} other {# stops}}`.
+const en = {
+  // App.tsx
+  headerTitle: "Map Admin",
+  headerSubtitle: "Create and manage your location pins.",
+  importButton: "Import",
+  saveButton: "Save",
+  exportButton: "Export",
+  clearAllButton: "Clear All",
+  clearAllConfirmation: "Are you sure you want to delete all locations?",
+  importConfirmation: "This will replace all current locations with the imported ones. Are you sure you want to continue?",
+  importError_file: "There was an error reading the file.",
+  importError_json: "The selected file is not valid JSON.",
+  importError_xml: "The selected file is not valid KML or GPX.",
+  importError_validation: "The imported file contains invalid data or is not in the correct format.",
+  importSuccess: "Locations imported successfully!",
+  importReportTitle: "Some locations need attention",
+  importReportSummary: "{valid} of {total, plural, one {# location is} other {# locations are}} valid.",
+  importReportLocation: "Location #{number}: {title}",
+  importReportUntitled: "(untitled)",
+  importReportExpected: "expected {expected}, got {actual}",
+  importReportChoiceLabel: "What to do with this location",
+  importReportFixChoice: "Fix and import",
+  importReportDropChoice: "Drop",
+  importReportNotFixable: "Cannot be fixed; will be dropped",
+  importReportDropButton: "Drop {count} invalid",
+  importReportImportButton: "Import {count, plural, one {# location} other {# locations}}",
+  importSkippedFeatures: "Imported {imported, plural, one {# location} other {# locations}}. {count, plural, one {# feature was} other {# features were}} skipped:",
+  countryLookupTitle: "Looking up countries",
+  countryLookupSubtitle: "Some imported locations don't say which country they are in, so it is looked up from their coordinates.",
+  countryLookupProgress: "Looking up countries ({done} of {total})...",
+  countryLookupSkip: "Skip and import",
+  importSkippedItem: "#{number} {name}: {reason}",
+  skipReason_geometry: "not a point feature",
+  skipReason_coordinates: "missing or out-of-range coordinates",
+  skipReason_title: "no title or name",
+  skipReason_invalid: "properties could not be converted to a location",
+  exportFormatJson: "Locations (JSON)",
+  exportFormatGeoJson: "GeoJSON",
+  exportFormatKml: "KML (Google Earth)",
+  exportFormatGpx: "GPX (GPS devices)",
+  exportDocumentName: "Map Admin tour",
+  csvWizardTitle: "Import from spreadsheet",
+  csvWizardMapSubtitle: "Match the spreadsheet columns to location fields. Rows with an address but no coordinates will be geocoded.",
+  csvWizardReviewSubtitle: "Check each row before importing. Rows with errors will be skipped.",
+  csvWizardEmpty: "The file does not contain any rows.",
+  csvWizardHasHeader: "First row contains column names",
+  csvWizardNotMapped: "— Not imported —",
+  csvWizardRowCount: "{count, plural, =0 {No data rows found.} one {# data row found.} other {# data rows found.}}",
+  csvWizardGeocoding: "Looking up addresses ({done} of {total})...",
+  csvWizardReviewSummary: "{valid} rows ready to import, {errors} rows with errors.",
+  csvWizardRow: "Row",
+  csvWizardStatus: "Status",
+  csvWizardReady: "Ready",
+  csvWizardPending: "Waiting for geocoding...",
+  csvWizardModeAppend: "Add to existing locations",
+  csvWizardModeReplace: "Replace existing locations",
+  csvWizardImportButton: "Import {count, plural, one {# location} other {# locations}}",
+  csvColumn: "Column {number}",
+  csvFieldLat: "Latitude",
+  csvFieldLon: "Longitude",
+  csvFieldAddress: "Address",
+  csvError_title: "Missing title.",
+  csvError_coordinates: "Invalid latitude or longitude.",
+  csvError_noLocation: "No coordinates or address.",
+  csvError_geocode: "Address could not be found.",
+  alert_noCountry: "Could not determine the country for the selected location. Please try a different spot.",
+  alert_countryError: "An error occurred while determining the country.",
+  alert_noExport: "No locations to export.",
+  alert_noSave: "No locations to save.",
+  alert_saveSuccess: "Locations saved successfully!",
+  alert_saveError: "Failed to save locations. Please try again.",
+  alert_saveMissingParams: "Missing required URL parameters (userId, token, artifact_id, base_url). Cannot save to server.",
+  alert_draftStorageFailed: "Your changes could not be stored in this browser, probably because its storage is full. Save to the server or export a backup, and remove large embedded media files.",
+  saveStatus_saved: "All changes saved",
+  saveStatus_saving: "Saving...",
+  saveStatus_unsaved: "Unsaved changes",
+  saveStatus_error: "Couldn't save. Retrying...",
+  saveStatusRetryNow: "Retry now",
+  saveStatus_paused: "Not syncing with the studio until its locations are reviewed",
+  saveStatusReview: "Review",
+  loadingArtifact: "Loading artifact data...",
+  alert_searchNotFound: "Place not found. Please try again.",
+  alert_searchError: "An error occurred while searching.",
+  startTourTooltip: "Start Guided Tour",
+  previewTooltip: "Preview as a learner",
+  exitPreviewTooltip: "Exit preview",
+  toggleSidebarTooltip: "Toggle sidebar",
+  undoButton: "Undo",
+  redoButton: "Redo",
+  undoTooltip: "Undo: {action} (Ctrl+Z)",
+  redoTooltip: "Redo: {action} (Ctrl+Shift+Z)",
+  history_added: 'Added "{title}"',
+  history_edited: 'Edited "{title}"',
+  history_deleted: 'Deleted "{title}"',
+  history_reordered: 'Reordered "{title}"',
+  history_cleared: "Cleared all locations",
+  history_imported: "Imported locations",
+  history_moved: 'Moved "{title}" on the map',
+  history_tourCreated: 'Created tour "{title}"',
+  history_tourEdited: 'Edited tour "{title}"',
+  history_tourDeleted: 'Deleted tour "{title}"',
+  history_movedToTour: 'Moved "{title}" to "{tour}"',
+  history_copiedToTour: 'Copied "{title}" to "{tour}"',
+  moveModeOffTooltip: "Move locations by dragging their markers",
+  moveModeOnTooltip: "Stop moving locations (press Esc while dragging to cancel)",
+  mapPickHint: "Click the map to place the answer",
+
+  // LanguageSwitcher.tsx
+  toggleLanguageTooltip: "Switch language",
+
+  // LocationForm.tsx
+  editingTitle: 'Editing "{title}"',
+  step2Title: "Step 2: Add Location Details",
+  step1Title: "Step 1: Select a Location",
+  step1Instruction: "Click on the map to choose a spot for your new location.",
+  coordinatesLabel: "Coordinates",
+  detectingCountry: "Detecting country...",
+  countryLabel: "Country",
+  titleLabel: "Title",
+  contentLanguageTabsLabel: "Content language",
+  fallbackLanguageBadge: "(fallback)",
+  translationMissingTooltip: "Translation incomplete",
+  translationTabHint: "Leave a field empty to show the {language} text instead.",
+  translateIntoButton: "Translate into {language}",
+  translateTooltip: "Translate the title, description and quiz on this tab with AI. Nothing is stored until you approve it.",
+  translating: "Translating...",
+  translateMissingContentAlert: "Add a title and description before translating.",
+  translateErrorAlert: "The translation failed or did not keep the content's structure. Please try again.",
+  translationReviewTitle: "Review the {language} translation",
+  translationReviewSubtitle: "Nothing is stored until you approve. Crossed-out text is what the translation replaces.",
+  translationReviewQuestion: "Question {number}",
+  translationReviewPairs: "Pairs",
+  translationReviewApprove: "Approve translation",
+  translationReviewDiscard: "Discard",
+  descriptionLabel: "Description",
+  descriptionPlaceholder: "Enter a rich description for the location...",
+  mediaUrlsLegend: "Media URLs (Optional)",
+  mediaUploadDropHint_image: "Drop a photo here or",
+  mediaUploadDropHint_video: "Drop a video here or",
+  mediaUploadDropHint_audio: "Drop an audio clip here or",
+  mediaUploadBrowseButton: "choose a file",
+  mediaUploadCompressing: "Shrinking image...",
+  mediaUploadProgress: "Uploading... {percent, number}%",
+  mediaUploadWrongType_image: "Please choose an image file.",
+  mediaUploadWrongType_video: "Please choose an MP4 or OGG video file.",
+  mediaUploadWrongType_audio: "Please choose an MP3 or OGG audio file.",
+  mediaUploadError: "The file could not be uploaded. Please try again.",
+  mediaUploadTooLarge: "This file is too large. Files of this kind can be at most {size, number} MB.",
+  mediaUploadUnavailable: "Uploading is not set up for this builder. Open it from the studio, or paste a link instead.",
+  imageUrlLabel: "Image URL",
+  videoUrlLabel: "Video URL",
+  audioUrlLabel: "Audio URL",
+  mediaUnrecognized_video: "Use a YouTube or Vimeo link, or a direct link to an MP4 or OGG video file.",
+  mediaUnrecognized_audio: "Use a direct link to an MP3 or OGG audio file.",
+  mediaChecking: "Checking the link...",
+  mediaBroken: "This link couldn't be loaded. It may be broken, private or offline.",
+  mediaUnsupported: "This browser can't play this file's format, though others may.",
+  mediaBrokenConfirm: "A video or audio link couldn't be loaded and may be broken. Save anyway?",
+  mediaUnsupportedConfirm: "This browser can't play the format of a video or audio file. Save anyway?",
+  markerStyleLegend: "Marker Style",
+  markerIconLabel: "Icon",
+  markerColorLabel: "Color",
+  markerIconNone: "Stop number only",
+  markerColorDefault: "Default color",
+  markerIcon_landmark: "Landmark",
+  markerIcon_nature: "Nature",
+  markerIcon_water: "Water",
+  markerIcon_viewpoint: "Viewpoint",
+  markerIcon_star: "Highlight",
+  markerIcon_flag: "Start or finish",
+  markerIcon_heart: "Favorite",
+  markerIcon_info: "Information",
+  markerColor_teal: "Teal",
+  markerColor_sky: "Sky blue",
+  markerColor_indigo: "Indigo",
+  markerColor_violet: "Violet",
+  markerColor_rose: "Rose",
+  markerColor_red: "Red",
+  markerColor_amber: "Amber",
+  markerColor_green: "Green",
+  markerColor_slate: "Slate",
+  saveChangesButton: "Save Changes",
+  addLocationButton: "Add Location to Map",
+  cancelButton: "Cancel",
+  formAlert: "Please fill all required fields, including description, select a location, and wait for country detection.",
+  alert_aiError: "Failed to generate description. Please try again.",
+  aiNotConfiguredAlert: "AI features are not set up for this builder. Open it from the studio, or ask your administrator to configure an AI provider.",
+  generateDescriptionButton: "Generate",
+  generateDescriptionTooltip: "Generate description using AI",
+  generatingDescription: "Generating...",
+  questionsLegend: "Quiz Questions (Optional)",
+  questionsLegendLanguage: "Quiz Questions in {language} (Optional)",
+  fallbackQuizNotice: "This language uses the {language} quiz.",
+  translateQuizButton: "Translate the quiz",
+  useFallbackQuizButton: "Use the {language} quiz instead",
+  questionsSubtitle: "Engage users by adding a quiz to this location.",
+  noQuestionsTitle: "No questions yet.",
+  addQuestionButton: "Add Question",
+  addAnotherQuestionButton: "Add Another Question",
+  generateQuestionsButton: "Generate Questions",
+  generateQuestionsTooltip: "Propose quiz questions from the title and description using AI",
+  generatingQuestions: "Generating...",
+  aiStopGenerating: "Stop",
+  generateQuestionsMissingContentAlert: "Write a title and description first; questions are generated from them.",
+  generateQuestionsEmptyAlert: "The AI didn't propose any usable questions. Please try again.",
+  generateQuestionsErrorAlert: "Failed to generate questions. Please try again.",
+  generatedQuestionsTitle: "{count, plural, one {# proposed question} other {# proposed questions}}",
+  generatedQuestionsAcceptAll: "Accept all",
+  generatedQuestionsDiscardAll: "Discard all",
+  generatedQuestionAccept: "Accept",
+  generatedQuestionEdit: "Edit",
+  generatedQuestionDoneEditing: "Done",
+  generatedQuestionDiscard: "Discard",
+  generatedQuestionIncompleteAlert: "This question is incomplete. Fill in the question and mark its correct answer before accepting it.",
+  removeQuestionButton: "Remove Question",
+  questionTextLabel: "Question",
+  questionTextPlaceholder: "Enter the question text...",
+  questionTypeLabel: "Question Type",
+  questionTypeShortAnswer: "Short Answer",
+  questionTypeTrueFalse: "True/False",
+  questionTypeMultipleChoice: "Multiple Choice",
+  questionTypeMultiSelect: "Multiple Select",
+  questionTypeOrdering: "Ordering",
+  questionTypeMatching: "Matching",
+  questionTypeMapLocation: "Find It on the Map",
+  mapTargetPointMode: "Point and radius",
+  mapTargetPolygonMode: "Area",
+  mapTargetSetButton: "Set target on map",
+  mapTargetMoveButton: "Move target",
+  mapTargetPickingButton: "Click the map…",
+  mapTargetDrawButton: "Draw area on map",
+  mapTargetFinishDrawingButton: "Finish drawing",
+  mapTargetClearButton: "Clear",
+  mapTargetPointSummary: "Target: {coords}",
+  mapTargetRadiusLabel: "Radius (m)",
+  mapTargetPolygonTooFew: "{count, plural, =0 {No corners placed} one {# corner placed} other {# corners placed}}; an area needs at least 3.",
+  mapTargetPolygonSummary: "Area with {count, plural, one {# corner} other {# corners}}.",
+  mapTargetScoringHint: "Answers inside the target earn full points; answers outside earn less the further away they land.",
+  mapTargetMissingAlert: "Every \"Find it on the map\" question needs a target point or an area with at least 3 corners.",
+  answerLabel: "Correct Answer",
+  optionsLabel: "Options",
+  addOptionButton: "Add Option",
+  removeOptionAriaLabel: "Remove option",
+  markAsCorrectAriaLabel: "Mark as correct answer",
+  multiSelectOptionsLabel: "Options (mark every correct one)",
+  orderingItemsLabel: "Items, in the correct order",
+  addItemButton: "Add Item",
+  removeItemButton: "Remove item",
+  moveItemUpButton: "Move up",
+  moveItemDownButton: "Move down",
+  matchingPromptLabel: "Prompt",
+  matchingMatchLabel: "Correct match",
+  addPairButton: "Add Pair",
+  removePairButton: "Remove pair",
+  questionIncompleteAlert: "Question #{number} is incomplete. Fill in at least two entries and mark the correct answers.",
+  blockNavigationLabel: "Block Navigation",
+  blockNavigationDescription: "If checked, users must correctly answer a question before proceeding to the next location in a tour.",
+  questionPointsLabel: "Points",
+  feedbackCorrectLabel: "Feedback when right",
+  feedbackIncorrectLabel: "Feedback when wrong",
+  explanationLabel: "Explanation",
+  explanationPlaceholder: "Why is this the answer? Shown after the learner answers.",
+  locationPassMarkLabel: "Pass Mark",
+  locationPassMarkDescription: "Percentage of this location's points a learner needs to pass it. Leave empty for none.",
+  
+  // LocationsList.tsx
+  createdLocationsTitle: "Created Locations",
+  searchPlaceholder: "Search by country name...",
+  toggleSearchTooltip: "Search locations",
+  noLocationsTitle: "No locations yet",
+  noLocationsSubtitle: "Get started by selecting a point on the map.",
+  noMatchTitle: "No matching locations",
+  noMatchSubtitle: "Try a different country name.",
+  routingProfileLabel: "Route between stops",
+  routingProfile_straight: "Straight line",
+  routingProfile_walking: "Walking",
+  routingProfile_cycling: "Cycling",
+  routingProfile_driving: "Driving",
+  routeTotalDistance: "Total: {distance}",
+  routeTotalDistanceDuration: "Total: {distance} · {duration}",
+  routeLoading: "Calculating route…",
+  routeError: "The route could not be calculated, so straight-line distances are shown.",
+  routeLegDistance: "{distance} to the next stop",
+  routeLegDistanceDuration: "{distance} · {duration} to the next stop",
+  searchLocationsAriaLabel: "Search locations by country",
+
+  // TourSwitcher.tsx & TourDetailsDialog.tsx
+  tourSelectLabel: "Current tour",
+  contentLanguageLabel: "Show content in",
+  contentLanguageFallbackOption: "{language} (fallback)",
+  tourOption: "{title} ({count})",
+  untitledTour: "Untitled tour",
+  editTourTooltip: "Edit tour details",
+  newTourTooltip: "New tour",
+  deleteTourTooltip: "Delete tour",
+  deleteTourConfirmation: 'Delete the tour "{title}" and all of its locations?',
+  tourDetailsCreateTitle: "New Tour",
+  tourDetailsEditTitle: "Tour Details",
+  tourTitleLabel: "Tour Title",
+  tourIntroLabel: "Introduction",
+  tourCoverImageLabel: "Cover Image URL",
+  tourLanguageLabel: "Content Language",
+  tourLanguageDescription: "Titles, descriptions and quizzes are required in this language; translations fall back to it.",
+  tourTranslationLanguagesLabel: "Translations",
+  tourTranslationLanguagesDescription: "Languages the content is also written in. Each location gets a tab per language.",
+  tourBaseLayerLabel: "Basemap",
+  tourBaseLayerDefault: "Default basemap",
+  tourBaseLayerUnavailable: "{id} (not available here)",
+  tourPassMarkLabel: "Pass Mark",
+  tourPassMarkDescription: "Percentage of all the tour's points a learner needs to pass. Leave empty for none.",
+  tourDetailsCreateButton: "Create Tour",
+  tourDetailsSaveButton: "Save Details",
+
+  // TransferLocationDialog.tsx
+  transferLocationTitle: 'Move or copy "{title}"',
+  transferLocationSubtitle: "Moved and copied locations are added to the end of the chosen tour.",
+  transferTargetLabel: "Destination tour",
+  moveToTourButton: "Move",
+  copyToTourButton: "Copy",
+
+  // MapComponent.tsx
+  newLocationPopup: "New location coordinates:",
+  baseLayer_osm: "Street map",
+  baseLayer_satellite: "Satellite",
+  baseLayer_minimal: "Minimal",
+  baseLayer_custom: "Local tiles",
+  quizTitle: "Quiz",
+  quizTrue: "True",
+  quizFalse: "False",
+  quizShortAnswerHint: "A short answer is required.",
+  quizMapLocationHint: "Answered by clicking the map.",
+  quizMultiSelectHint: "Select all that apply.",
+  quizOrderingHint: "Put these in the right order.",
+  quizMatchingHint: "Match each item on the left with one on the right.",
+
+  // TourPlayer.tsx & QuizQuestion.tsx
+  playerPreviewBadge: "Learner preview",
+  playerExitButton: "Exit preview",
+  playerStopCount: "{count, plural, one {# stop in this tour} other {# stops in this tour}}",
+  playerStartButton: "Start the tour",
+  playerStopProgress: "Stop {current} of {total}",
+  playerQuestionLegend: "Question {number}",
+  playerQuestionPoints: "{points, plural, one {# point} other {# points}}",
+  playerExplanationLabel: "Why:",
+  playerAnswerPlaceholder: "Type your answer",
+  playerPickOnMapButton: "Answer on the map",
+  playerPickAgainButton: "Change my answer",
+  playerPickingOnMap: "Click the map…",
+  playerPickedLocation: "Your answer: {coords}",
+  playerMoveItemUp: "Move \"{item}\" up",
+  playerMoveItemDown: "Move \"{item}\" down",
+  playerChooseMatch: "Choose a match…",
+  playerMissedBy: "You were {distance} from the target.",
+  playerCheckAnswersButton: "Check answers",
+  playerCorrect: "Correct!",
+  playerIncorrect: "Not quite. Try again.",
+  playerBlockedHint: "Answer every question on this stop correctly to continue.",
+  playerPreviousButton: "Previous",
+  playerNextButton: "Next stop",
+  playerFinishButton: "Finish",
+  playerSummaryTitle: "Tour complete",
+  playerSummaryScore: "Score: {earned} of {possible} points ({percent}%)",
+  playerSummaryNoQuestions: "This tour has no questions to score.",
+  playerStopScore: "{earned}/{possible}",
+  playerPassed: "Passed",
+  playerNotPassed: "Not passed",
+  playerPassMarkResult: "{result} (pass mark {passMark}%)",
+  playerPassMarkHint: "Pass mark: {passMark}%",
+  playerSummaryFirstTryNote: "Only answers that were right the first time earn points.",
+  playerRestartButton: "Play again",
+
+  // MapSearchControl.tsx
+  searchPlacePlaceholder: "Search for a place...",
+  searchButton: "Search",
+  searchingButton: "Searching",
+  searchAriaLabel: "Search for a place to move the map",
+
+  // SortableLocationItem.tsx
+  dragAriaLabel: "Drag to reorder",
+  viewAriaLabel: "View {title} on map",
+  translationMissingBadge: "Missing translation: {languages}",
+  moreOptionsAriaLabel: "More options for {title}",
+  editMenuItem: "Edit",
+  transferMenuItem: "Move or copy to tour",
+  deleteMenuItem: "Delete",
+
+  // TourGuide.tsx
+  tourStep1Content: "Type a city name here to search for it 🚩",
+  tourStep2Content: "Click on the map to define your location 🗺️",
+  tourStep3Content: "After selecting a location on the map, enter the title and a rich description here.",
+  tourStep4Content: "Optionally, add URLs for an image, video, and audio to enrich your location pin.",
+  tourStep5Content: "Your created locations will appear in this list. You can reorder, view, edit, or delete them.",
+  tourSkipButton: "Skip",
+  tourBackButton: "Back",
+  tourNextButton: "Next",
+  tourFinishButton: "Finish",
+} as const;
+
+export default en;
@@ -0,0 +1,53 @@
+import en from './en';
+import type { MessageArgs } from '../utils/messageFormat';
+
+// English is the source catalog: it defines the keys and arguments every
+// other locale must provide, and fills in for any message a locale lacks.
+export const SOURCE_LOCALE = 'en';
+
+export type SourceMessages = typeof en;
+export type TranslationKey = keyof SourceMessages;
+
+// Other locales must translate every key; a missing or misspelled one is a
+// type error in that locale's file.
+export type Catalog = { readonly [K in TranslationKey]: string };
+
+// The values a message's placeholders need, e.g. `{ count: number }`.
+export type MessageParams<K extends TranslationKey> = MessageArgs<SourceMessages[K]>;
+
+type Placeholders<S extends string> = keyof MessageArgs<S> & string;
+
+type SamePlaceholders<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+
+// A locale's catalog, `satisfies`-checked against its own type: each message
+// must use exactly the source message's placeholders, so a dropped, added or
+// misspelled one is a type error naming the placeholders it should have.
+export type CheckedCatalog<C extends Catalog> = {
+  [K in TranslationKey]: SamePlaceholders<Placeholders<C[K]>, Placeholders<SourceMessages[K]>> extends true
+    ? C[K]
+    : [Placeholders<SourceMessages[K]>] extends [never]
+      ? 'Expected no placeholders'
+      : `Expected the placeholders {${Placeholders<SourceMessages[K]>}}`;
+};
+
+export const sourceCatalog: Catalog = en;
+
+// Every other file in this folder is a locale, named by its language code.
+// Each one is only downloaded when someone switches to it.
+const loaders = import.meta.glob<{ default: Catalog }>(['./*.ts', '!./index.ts', '!./en.ts']);
+
+const localeOf = (path: string): string => path.replace(/^\.\/(.*)\.ts$/, '$1');
+
+export const LOCALES: string[] = [
+  SOURCE_LOCALE,
+  ...Object.keys(loaders).map(localeOf).sort(),
+];
+
+export const isLocale = (value: string | null): value is string => value !== null && LOCALES.includes(value);
+
+export const loadCatalog = async (locale: string): Promise<Catalog> => {
+  if (locale === SOURCE_LOCALE) return sourceCatalog;
+  const loader = loaders[`./${locale}.ts`];
+  if (!loader) throw new Error(`Unknown locale "${locale}"`);
+  return (await loader()).default;
+};
@@ -0,0 +1,41 @@
+import { GoogleGenAI, type Schema, type Type } from '@google/genai';
+import type { AiProvider, AiRequest, AiSchema } from './types';
+import { renderPrompt } from './prompts';
+
+// Gemini names schema types in upper case.
+const toGeminiSchema = ({ type, properties, items, ...rest }: AiSchema): Schema => ({
+  ...rest,
+  type: type.toUpperCase() as Type,
+  properties: properties && Object.fromEntries(Object.entries(properties).map(([name, schema]) => [name, toGeminiSchema(schema)])),
+  items: items && toGeminiSchema(items),
+});
+
+const toParams = (request: AiRequest) => ({
+  model: request.model,
+  contents: renderPrompt(request.prompt, request.values),
+  config: {
+    abortSignal: request.signal,
+    ...(request.schema && { responseMimeType: 'application/json', responseSchema: toGeminiSchema(request.schema) }),
+  },
+});
+
+// Calls Gemini straight from the browser. The key ends up in the bundle, so
+// this is only for local development; deployments go through the proxy.
+export const createGeminiProvider = (apiKey: string): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    id: 'gemini',
+    generate: async (request) => {
+      const response = await ai.models.generateContent(toParams(request));
+      request.signal?.throwIfAborted();
+      return response.text ?? '';
+    },
+    stream: async function* (request) {
+      const stream = await ai.models.generateContentStream(toParams(request));
+      for await (const chunk of stream) {
+        request.signal?.throwIfAborted();
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+};
@@ -0,0 +1,14 @@
+// `config` means no usable provider is set up.
+export type AiErrorKind = 'config' | 'network' | 'http' | 'parse';
+
+export class AiError extends Error {
+  kind: AiErrorKind;
+  status?: number;
+
+  constructor(kind: AiErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'AiError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
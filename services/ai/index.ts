@@ -0,0 +1,66 @@
+import type { AiConfig, AiProvider, AiProviderName, AiRequest } from './types';
+import type { PromptName } from './prompts';
+import { createProxyProvider } from './proxy';
+import { createGeminiProvider } from './gemini';
+import { createStubProvider } from './stub';
+import { AiError } from './http';
+import { getURLParams } from '../../utils/urlParams';
+
+export type { AiConfig, AiProvider, AiProviderName, AiRequest, AiSchema } from './types';
+export { PROMPT_TEMPLATES, renderPrompt, type PromptName, type PromptValues } from './prompts';
+export { AiError } from './http';
+
+const PROVIDER_NAMES: AiProviderName[] = ['proxy', 'gemini', 'stub'];
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+const DEFAULT_PROXY_PATH = '/studio/ai/generate/';
+
+// Values are injected at build time by vite.config.ts. Without a configured
+// provider, requests go through the studio when the builder was opened from
+// one. Otherwise the stub answers in development, and AI is unavailable in a
+// production build rather than writing placeholder text into real tours.
+export const getAiConfig = (): AiConfig => {
+  const requestedProvider = process.env.AI_PROVIDER as AiProviderName | undefined;
+  const proxyPath = process.env.AI_PROXY_PATH || DEFAULT_PROXY_PATH;
+  return {
+    provider: requestedProvider && PROVIDER_NAMES.includes(requestedProvider)
+      ? requestedProvider
+      : (getURLParams().baseUrl ? 'proxy' : import.meta.env.DEV ? 'stub' : null),
+    model: process.env.AI_MODEL || DEFAULT_MODEL,
+    proxyPath: proxyPath.startsWith('/') ? proxyPath : `/${proxyPath}`,
+  };
+};
+
+export const createAiProvider = (config: AiConfig): AiProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      if (!process.env.GEMINI_API_KEY) {
+        throw new AiError('config', 'The Gemini provider requires GEMINI_API_KEY to be set.');
+      }
+      return createGeminiProvider(process.env.GEMINI_API_KEY);
+    case 'stub':
+      return createStubProvider();
+    case 'proxy': {
+      const { baseUrl, token } = getURLParams();
+      if (!baseUrl) {
+        throw new AiError('config', 'The AI proxy requires the base_url URL parameter.');
+      }
+      return createProxyProvider({ baseUrl, token, path: config.proxyPath });
+    }
+    default:
+      throw new AiError('config', 'No AI provider is configured; set AI_PROVIDER or open the builder from the studio.');
+  }
+};
+
+const config = getAiConfig();
+
+type AiCall<N extends PromptName> = Omit<AiRequest<N>, 'model'> & { model?: string };
+
+const toRequest = <N extends PromptName>(call: AiCall<N>): AiRequest => ({ model: config.model, ...call } as AiRequest);
+
+// The whole reply at once.
+export const generateText = <N extends PromptName>(call: AiCall<N>): Promise<string> =>
+  createAiProvider(config).generate(toRequest(call));
+
+// The reply as it is written. Abort `signal` to stop it.
+export const streamText = <N extends PromptName>(call: AiCall<N>): AsyncIterable<string> =>
+  createAiProvider(config).stream(toRequest(call));
@@ -0,0 +1,29 @@
+import { formatMessage, type MessageArgs } from '../../utils/messageFormat';
+
+// Every prompt the builder sends, with `{placeholders}` for its inputs. Values
+// are inserted as they are, so text from authors can't add placeholders.
+export const PROMPT_TEMPLATES = {
+  locationDescription: 'Generate a captivating, single-paragraph description for a tourist location at latitude {lat}, longitude {lon}. Include any interesting landmarks or facts. The location is in {country}. The description should be suitable for a travel guide app. Respond in {language}.',
+  quizQuestions: `Write {count} quiz questions for visitors of "{title}" in {country}, using only facts from this description:
+{description}
+Mix these question types: {types}.
+- multiple_choice: 3 or 4 "options" and the correct one, copied exactly, as "answer".
+- multi_select: 3 to 5 "options" and every correct one, copied exactly, in "answers".
+- true_false: "answer" is "true" or "false".
+- short_answer: "answer" is a word or short phrase.
+- ordering: 3 to 5 "items" in the correct order.
+- matching: 3 or 4 "pairs" of a prompt and its match.
+Give each question a one-sentence "explanation" of the answer.
+Write everything in {language}, except that true_false answers stay "true" or "false".`,
+  locationTranslation: `Translate this tour stop from {source} into {target}. Reply with the same JSON, translating every text value.
+Keep each "id" as it is, and keep every list in the same order and the same length.
+"description" is HTML: translate only the text and keep every tag and attribute exactly as it is.
+{content}`,
+} as const;
+
+export type PromptName = keyof typeof PROMPT_TEMPLATES;
+
+export type PromptValues<N extends PromptName> = MessageArgs<(typeof PROMPT_TEMPLATES)[N]>;
+
+export const renderPrompt = <N extends PromptName>(name: N, values: PromptValues<N>): string =>
+  formatMessage(PROMPT_TEMPLATES[name], values as { [name: string]: string | number }, 'en');
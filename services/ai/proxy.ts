@@ -0,0 +1,81 @@
+import type { AiProvider, AiRequest } from './types';
+import { renderPrompt } from './prompts';
+import { AiError } from './http';
+import { isAbortError } from '../../utils/abort';
+
+interface ProxyTarget {
+  baseUrl: string;
+  token: string | null;
+  path: string;
+}
+
+// Sends the rendered prompt to the studio, which holds the model credentials:
+//   POST { model, prompt, stream, response_mime_type?, response_schema? }
+// A plain request gets `{ "text": "..." }` back; a streamed one gets the reply
+// as a plain-text body written as it is generated.
+export const createProxyProvider = ({ baseUrl, token, path }: ProxyTarget): AiProvider => {
+  const post = async (request: AiRequest, stream: boolean): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          prompt: renderPrompt(request.prompt, request.values),
+          stream,
+          ...(request.schema && { response_mime_type: 'application/json', response_schema: request.schema }),
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new AiError('network', `AI request failed: ${String(error)}`);
+    }
+    if (!response.ok) {
+      throw new AiError('http', `AI request failed with status ${response.status}`, response.status);
+    }
+    return response;
+  };
+
+  return {
+    id: 'proxy',
+    generate: async (request) => {
+      const response = await post(request, false);
+      let data: any;
+      try {
+        data = await response.json();
+      } catch {
+        throw new AiError('parse', 'AI response was not valid JSON');
+      }
+      if (typeof data?.text !== 'string') {
+        throw new AiError('parse', 'AI response had no text');
+      }
+      return data.text;
+    },
+    stream: async function* (request) {
+      const response = await post(request, true);
+      if (!response.body) {
+        yield await response.text();
+        return;
+      }
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          const text = decoder.decode(value, { stream: true });
+          if (text) yield text;
+        }
+        const rest = decoder.decode();
+        if (rest) yield rest;
+      } finally {
+        reader.releaseLock();
+      }
+    },
+  };
+};
@@ -0,0 +1,70 @@
+import type { AiProvider, AiRequest } from './types';
+import type { PromptName, PromptValues } from './prompts';
+
+const STREAM_DELAY_MS = 30;
+
+// Canned replies built only from the request, so the same request always gets
+// the same answer.
+const REPLIES: { [N in PromptName]: (values: PromptValues<N>) => string } = {
+  locationDescription: ({ lat, lon, country, language }) =>
+    `This is a placeholder description for the place at ${lat}, ${lon} in ${country}. ` +
+    `A configured AI provider would describe its landmarks here, in ${language}.`,
+  quizQuestions: ({ title, count }) => JSON.stringify({
+    questions: [
+      {
+        type: 'multiple_choice',
+        text: `Which of these is ${title}?`,
+        options: [String(title), 'A harbour', 'A mountain pass'],
+        answer: String(title),
+        explanation: 'The placeholder always names the location itself.',
+      },
+      { type: 'true_false', text: `${title} is part of this tour.`, answer: 'true', explanation: 'Every stop belongs to its tour.' },
+      { type: 'short_answer', text: 'What is the name of this stop?', answer: String(title) },
+      { type: 'ordering', text: 'Put these in alphabetical order.', items: ['Alpha', 'Bravo', 'Charlie'] },
+      {
+        type: 'matching',
+        text: 'Match each number to its word.',
+        pairs: [{ prompt: '1', match: 'One' }, { prompt: '2', match: 'Two' }, { prompt: '3', match: 'Three' }],
+      },
+    ].slice(0, Math.max(1, Number(count) || 1)),
+  }),
+  // Marks each text with the target language and leaves the description's
+  // markup and every id alone.
+  locationTranslation: ({ target, content }) => JSON.stringify(JSON.parse(String(content)), (key, value) =>
+    typeof value === 'string' && key !== 'id' && key !== 'description' && value ? `[${target}] ${value}` : value
+  ),
+};
+
+const reply = (request: AiRequest): string =>
+  (REPLIES[request.prompt] as (values: AiRequest['values']) => string)(request.values);
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Answers without a model or network, for development and tests.
+export const createStubProvider = (): AiProvider => ({
+  id: 'stub',
+  generate: async (request) => {
+    await wait(STREAM_DELAY_MS, request.signal);
+    return reply(request);
+  },
+  stream: async function* (request) {
+    for (const word of reply(request).match(/\S+\s*/g) ?? []) {
+      await wait(STREAM_DELAY_MS, request.signal);
+      yield word;
+    }
+  },
+});
@@ -0,0 +1,37 @@
+import type { PromptName, PromptValues } from './prompts';
+
+// The JSON Schema subset structured replies are described with.
+export interface AiSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: { [name: string]: AiSchema };
+  items?: AiSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface AiRequest<N extends PromptName = PromptName> {
+  // The prompt template to fill in, and the values for its placeholders.
+  prompt: N;
+  values: PromptValues<N>;
+  model: string;
+  // When set, the reply is JSON matching this schema.
+  schema?: AiSchema;
+  signal?: AbortSignal;
+}
+
+export interface AiProvider {
+  id: string;
+  generate: (request: AiRequest) => Promise<string>;
+  // Yields the reply piece by piece as it is written.
+  stream: (request: AiRequest) => AsyncIterable<string>;
+}
+
+export type AiProviderName = 'proxy' | 'gemini' | 'stub';
+
+export interface AiConfig {
+  // Null when no provider is available.
+  provider: AiProviderName | null;
+  model: string;
+  // Path of the studio's AI endpoint under its base URL.
+  proxyPath: string;
+}
@@ -0,0 +1,37 @@
+import type { URLParams } from '../utils/urlParams';
+
+export class ArtifactSaveError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ArtifactSaveError';
+    this.status = status;
+  }
+}
+
+// Replaces the artifact's stored data on the studio with `artifactData`, a
+// serialized artifact. Aborts are re-thrown untouched.
+export const saveArtifact = async (
+  { baseUrl, token, artifactId }: Pick<URLParams, 'baseUrl' | 'token' | 'artifactId'>,
+  artifactData: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<void> => {
+  const response = await fetch(`${baseUrl}/studio/artifacts/update/${artifactId}/`, {
+    method: 'PUT',
+    headers: {
+      'Accept': 'application/json, text/plain, */*',
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      artifacts: parseInt(artifactId!),
+      artifact_data: artifactData,
+    }),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    throw new ArtifactSaveError(`HTTP error! status: ${response.status}`, response.status);
+  }
+};
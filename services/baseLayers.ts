@@ -0,0 +1,73 @@
+export interface BaseLayer {
+  id: string;
+  // Display name for layers defined by the deployment; built-in layers are
+  // named through the `baseLayer_<id>` translation keys instead.
+  name?: string;
+  // Leaflet URL template, e.g. `https://{s}.example.org/{z}/{x}/{y}.png`.
+  url: string;
+  attribution: string;
+  maxZoom: number;
+  subdomains?: string;
+}
+
+// The id of the tile server configured through TILE_URL.
+export const CUSTOM_BASE_LAYER_ID = 'custom';
+
+const OSM_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export const BUILT_IN_BASE_LAYERS: BaseLayer[] = [
+  {
+    id: 'osm',
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: OSM_ATTRIBUTION,
+    maxZoom: 19,
+  },
+  {
+    id: 'satellite',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri &mdash; Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community',
+    maxZoom: 19,
+  },
+  {
+    id: 'minimal',
+    url: 'https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png',
+    attribution: `${OSM_ATTRIBUTION} &copy; <a href="https://carto.com/attributions">CARTO</a>`,
+    maxZoom: 20,
+    subdomains: 'abcd',
+  },
+];
+
+const DEFAULT_CUSTOM_MAX_ZOOM = 19;
+
+// Values are injected at build time by vite.config.ts. A configured tile server
+// is listed first, so it is the default wherever the public servers are blocked.
+export const getBaseLayers = (): BaseLayer[] => {
+  const layers = [...BUILT_IN_BASE_LAYERS];
+  if (process.env.TILE_URL) {
+    const maxZoom = parseInt(process.env.TILE_MAX_ZOOM ?? '', 10);
+    layers.unshift({
+      id: CUSTOM_BASE_LAYER_ID,
+      name: process.env.TILE_NAME || undefined,
+      url: process.env.TILE_URL,
+      attribution: process.env.TILE_ATTRIBUTION || '',
+      maxZoom: Number.isFinite(maxZoom) && maxZoom > 0 ? maxZoom : DEFAULT_CUSTOM_MAX_ZOOM,
+      subdomains: process.env.TILE_SUBDOMAINS || undefined,
+    });
+  }
+
+  // BASE_LAYERS limits which layers are offered, e.g. `custom,satellite`.
+  const allowed = (process.env.BASE_LAYERS ?? '').split(',').map(id => id.trim()).filter(Boolean);
+  if (allowed.length === 0) return layers;
+  const offered = allowed
+    .map(id => layers.find(layer => layer.id === id))
+    .filter((layer): layer is BaseLayer => !!layer);
+  // A misconfigured list shouldn't leave the map without any tiles.
+  return offered.length > 0 ? offered : layers;
+};
+
+export const BASE_LAYERS = getBaseLayers();
+
+// Tours name their basemap by id; an id this deployment doesn't offer (or none
+// at all) falls back to the first available layer.
+export const resolveBaseLayer = (id: string | null | undefined): BaseLayer =>
+  BASE_LAYERS.find(layer => layer.id === id) ?? BASE_LAYERS[0];
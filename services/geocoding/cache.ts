@@ -0,0 +1,72 @@
+import type { LatLngTuple } from 'leaflet';
+
+const STORAGE_KEY = 'geocodingCache';
+const DEFAULT_MAX_ENTRIES = 500;
+const PERSIST_DELAY_MS = 1000;
+// 4 decimal places is roughly 11 m, well below the size of anything we look up.
+const COORDINATE_PRECISION = 4;
+
+export const coordinateCacheKey = ([lat, lon]: LatLngTuple): string =>
+  `${lat.toFixed(COORDINATE_PRECISION)},${lon.toFixed(COORDINATE_PRECISION)}`;
+
+export const queryCacheKey = (query: string): string =>
+  query.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ');
+
+export interface GeocodingCache {
+  get: <T>(key: string) => T | undefined;
+  set: (key: string, value: unknown) => void;
+  clear: () => void;
+}
+
+// Least-recently-used cache, persisted to localStorage so lookups survive reloads.
+export const createPersistentLruCache = (maxEntries: number = DEFAULT_MAX_ENTRIES): GeocodingCache => {
+  // Map iteration follows insertion order, so the first key is the least recently used.
+  const entries = new Map<string, unknown>();
+  let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        parsed.slice(-maxEntries).forEach(([key, value]: [string, unknown]) => entries.set(key, value));
+      }
+    }
+  } catch (e) {
+    console.warn('Failed to read the geocoding cache, starting empty.', e);
+  }
+
+  const persist = () => {
+    if (persistTimer !== null) return;
+    persistTimer = setTimeout(() => {
+      persistTimer = null;
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(entries.entries())));
+      } catch (e) {
+        console.warn('Failed to persist the geocoding cache.', e);
+      }
+    }, PERSIST_DELAY_MS);
+  };
+
+  return {
+    get: <T,>(key: string): T | undefined => {
+      if (!entries.has(key)) return undefined;
+      const value = entries.get(key);
+      entries.delete(key);
+      entries.set(key, value);
+      return value as T;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, value);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+      persist();
+    },
+    clear: () => {
+      entries.clear();
+      localStorage.removeItem(STORAGE_KEY);
+    },
+  };
+};
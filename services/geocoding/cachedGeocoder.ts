@@ -0,0 +1,33 @@
+import type { GeocodingOptions, GeocodingProvider } from './types';
+import type { GeocodingCache } from './cache';
+import { coordinateCacheKey, queryCacheKey } from './cache';
+import type { RequestScheduler } from './scheduler';
+
+interface CachedGeocoderOptions {
+  cache: GeocodingCache;
+  scheduler: RequestScheduler;
+}
+
+// Wraps a provider so repeated lookups are answered from the cache and network
+// requests go through the provider's rate-limited scheduler.
+export const withCacheAndRateLimit = (provider: GeocodingProvider, { cache, scheduler }: CachedGeocoderOptions): GeocodingProvider => {
+  const run = async <T,>(key: string, request: (options: GeocodingOptions) => Promise<T>, options: GeocodingOptions): Promise<T> => {
+    const cacheKey = `${provider.id}:${options.language ?? ''}:${key}`;
+    const cached = cache.get<T>(cacheKey);
+    if (cached !== undefined) return cached;
+
+    const result = await scheduler.schedule(signal => request({ ...options, signal }), options.signal);
+    cache.set(cacheKey, result);
+    return result;
+  };
+
+  return {
+    id: provider.id,
+    forward: (query, options = {}) =>
+      run(`forward:${options.limit ?? 1}:${queryCacheKey(query)}`, opts => provider.forward(query, opts), options),
+    reverse: (coords, options = {}) =>
+      run(`reverse:${coordinateCacheKey(coords)}`, opts => provider.reverse(coords, opts), options),
+    suggest: (query, options = {}) =>
+      run(`suggest:${options.limit ?? 5}:${queryCacheKey(query)}`, opts => provider.suggest(query, opts), options),
+  };
+};
@@ -0,0 +1,49 @@
+import type { Place } from '../../types';
+import type { GeocodingProvider } from './types';
+import { haversineDistance } from '../../utils/geo';
+
+// A handful of well-known places so the builder works offline and in tests.
+export const DEFAULT_FIXTURE_PLACES: Place[] = [
+  { place_id: 'fixture-amman', lat: 31.9539, lon: 35.9106, boundingbox: [31.7, 32.1, 35.7, 36.1], display_name: 'Amman, Jordan', country: 'Jordan' },
+  { place_id: 'fixture-petra', lat: 30.3285, lon: 35.4444, display_name: 'Petra, Ma\'an, Jordan', country: 'Jordan' },
+  { place_id: 'fixture-jerash', lat: 32.2747, lon: 35.8961, display_name: 'Jerash, Jordan', country: 'Jordan' },
+  { place_id: 'fixture-aqaba', lat: 29.5320, lon: 35.0063, display_name: 'Aqaba, Jordan', country: 'Jordan' },
+  { place_id: 'fixture-wadi-rum', lat: 29.5730, lon: 35.4200, display_name: 'Wadi Rum, Aqaba, Jordan', country: 'Jordan' },
+  { place_id: 'fixture-jerusalem', lat: 31.7767, lon: 35.2345, display_name: 'Jerusalem', country: 'Palestine' },
+  { place_id: 'fixture-cairo', lat: 30.0444, lon: 31.2357, boundingbox: [29.8, 30.3, 31.0, 31.6], display_name: 'Cairo, Egypt', country: 'Egypt' },
+  { place_id: 'fixture-giza', lat: 29.9792, lon: 31.1342, display_name: 'Giza Pyramids, Giza, Egypt', country: 'Egypt' },
+  { place_id: 'fixture-damascus', lat: 33.5138, lon: 36.2765, display_name: 'Damascus, Syria', country: 'Syria' },
+  { place_id: 'fixture-beirut', lat: 33.8938, lon: 35.5018, display_name: 'Beirut, Lebanon', country: 'Lebanon' },
+  { place_id: 'fixture-istanbul', lat: 41.0082, lon: 28.9784, boundingbox: [40.8, 41.3, 28.5, 29.5], display_name: 'Istanbul, Türkiye', country: 'Türkiye' },
+  { place_id: 'fixture-paris', lat: 48.8566, lon: 2.3522, boundingbox: [48.8, 48.9, 2.2, 2.5], display_name: 'Paris, France', country: 'France' },
+  { place_id: 'fixture-london', lat: 51.5074, lon: -0.1278, boundingbox: [51.3, 51.7, -0.5, 0.3], display_name: 'London, United Kingdom', country: 'United Kingdom' },
+];
+
+// Reverse lookups snap to the nearest fixture within this distance.
+const REVERSE_RADIUS_METERS = 100000;
+
+export const createFixtureProvider = (places: Place[] = DEFAULT_FIXTURE_PLACES): GeocodingProvider => {
+  const match = (query: string, limit: number): Place[] => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+    return places.filter(place => place.display_name.toLowerCase().includes(needle)).slice(0, limit);
+  };
+
+  return {
+    id: 'fixture',
+    forward: async (query, options = {}) => match(query, options.limit ?? 1),
+    reverse: async (coords) => {
+      let nearest: Place | null = null;
+      let nearestDistance = REVERSE_RADIUS_METERS;
+      places.forEach(place => {
+        const distance = haversineDistance(coords, [place.lat, place.lon]);
+        if (distance <= nearestDistance) {
+          nearest = place;
+          nearestDistance = distance;
+        }
+      });
+      return nearest;
+    },
+    suggest: async (query, options = {}) => match(query, options.limit ?? 5),
+  };
+};
@@ -0,0 +1,48 @@
+import { isAbortError } from '../../utils/abort';
+
+export type GeocodingErrorKind = 'network' | 'http' | 'parse';
+
+export class GeocodingError extends Error {
+  kind: GeocodingErrorKind;
+  status?: number;
+
+  constructor(kind: GeocodingErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'GeocodingError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+
+export const buildUrl = (baseUrl: string, path: string, params: { [key: string]: string | number | undefined }): string => {
+  const url = new URL(`${baseUrl.replace(/\/$/, '')}${path}`);
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      url.searchParams.set(key, String(value));
+    }
+  });
+  return url.toString();
+};
+
+// Fetches JSON and normalizes every failure into a GeocodingError. Aborts are
+// re-thrown untouched so callers can tell cancellation apart from real errors.
+export const fetchJson = async (url: string, init: RequestInit = {}): Promise<any> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new GeocodingError('network', `Geocoding request failed: ${String(error)}`);
+  }
+
+  if (!response.ok) {
+    throw new GeocodingError('http', `Geocoding request failed with status ${response.status}`, response.status);
+  }
+
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new GeocodingError('parse', 'Geocoding response was not valid JSON');
+  }
+};
@@ -0,0 +1,65 @@
+import type { GeocodingConfig, GeocodingProvider, GeocodingProviderName } from './types';
+import { createNominatimProvider } from './nominatim';
+import { createPhotonProvider, createPeliasProvider } from './photon';
+import { createFixtureProvider } from './fixture';
+import { createPersistentLruCache } from './cache';
+import { createRequestScheduler } from './scheduler';
+import { withCacheAndRateLimit } from './cachedGeocoder';
+
+export type { GeocodingConfig, GeocodingOptions, GeocodingProvider, GeocodingProviderName } from './types';
+export { GeocodingError } from './http';
+
+const PROVIDER_NAMES: GeocodingProviderName[] = ['nominatim', 'photon', 'pelias', 'fixture'];
+
+// Minimum time between requests per provider. Nominatim's public usage policy
+// allows one request per second; self-hosted instances can lower this.
+const DEFAULT_MIN_INTERVAL_MS: { [provider in GeocodingProviderName]: number } = {
+  nominatim: 1000,
+  photon: 200,
+  pelias: 100,
+  fixture: 0,
+};
+
+export const createGeocoder = (config: GeocodingConfig): GeocodingProvider => {
+  switch (config.provider) {
+    case 'photon':
+      return createPhotonProvider(config.url);
+    case 'pelias':
+      if (!config.url) {
+        throw new Error('The Pelias geocoder requires GEOCODER_URL to be set.');
+      }
+      return createPeliasProvider(config.url, config.apiKey);
+    case 'fixture':
+      return createFixtureProvider();
+    case 'nominatim':
+    default:
+      return createNominatimProvider(config.url);
+  }
+};
+
+// Values are injected at build time by vite.config.ts.
+export const getGeocodingConfig = (): GeocodingConfig => {
+  const requestedProvider = process.env.GEOCODER_PROVIDER as GeocodingProviderName | undefined;
+  let provider = requestedProvider && PROVIDER_NAMES.includes(requestedProvider) ? requestedProvider : 'nominatim';
+  // The geocoder is created on import, so a config mistake mustn't throw and
+  // take the whole builder down with it.
+  if (provider === 'pelias' && !process.env.GEOCODER_URL) {
+    console.warn('The Pelias geocoder requires GEOCODER_URL to be set; using Nominatim instead.');
+    provider = 'nominatim';
+  }
+  const minIntervalMs = parseInt(process.env.GEOCODER_MIN_INTERVAL_MS ?? '', 10);
+  return {
+    provider,
+    url: process.env.GEOCODER_URL || undefined,
+    apiKey: process.env.GEOCODER_API_KEY || undefined,
+    minIntervalMs: Number.isFinite(minIntervalMs) ? minIntervalMs : DEFAULT_MIN_INTERVAL_MS[provider],
+  };
+};
+
+const config = getGeocodingConfig();
+
+// Shared by every component so the rate limit and cache apply app-wide.
+export const geocoder: GeocodingProvider = withCacheAndRateLimit(createGeocoder(config), {
+  cache: createPersistentLruCache(),
+  scheduler: createRequestScheduler(config.minIntervalMs ?? 0),
+});
@@ -0,0 +1,40 @@
+import type { Place } from '../../types';
+import type { GeocodingOptions, GeocodingProvider } from './types';
+import { buildUrl, fetchJson } from './http';
+
+export const NOMINATIM_DEFAULT_URL = 'https://nominatim.openstreetmap.org';
+
+const toPlace = (item: any): Place => ({
+  place_id: String(item.place_id),
+  lat: parseFloat(item.lat),
+  lon: parseFloat(item.lon),
+  boundingbox: Array.isArray(item.boundingbox)
+    ? item.boundingbox.map((value: string) => parseFloat(value)) as [number, number, number, number]
+    : undefined,
+  display_name: item.display_name,
+  country: item.address?.country,
+});
+
+export const createNominatimProvider = (baseUrl: string = NOMINATIM_DEFAULT_URL): GeocodingProvider => {
+  const request = (path: string, params: { [key: string]: string | number | undefined }, options: GeocodingOptions) =>
+    fetchJson(buildUrl(baseUrl, path, { format: 'jsonv2', addressdetails: 1, ...params }), {
+      headers: options.language ? { 'Accept-Language': options.language } : undefined,
+      signal: options.signal,
+    });
+
+  const forward = async (query: string, options: GeocodingOptions = {}): Promise<Place[]> => {
+    const data = await request('/search', { q: query, limit: options.limit ?? 1 }, options);
+    return Array.isArray(data) ? data.map(toPlace) : [];
+  };
+
+  return {
+    id: 'nominatim',
+    forward,
+    reverse: async (coords, options = {}) => {
+      const data = await request('/reverse', { lat: coords[0], lon: coords[1] }, options);
+      // Nominatim answers 200 with an `error` field when nothing is found.
+      return data && !data.error && data.address ? toPlace(data) : null;
+    },
+    suggest: (query, options = {}) => forward(query, { limit: 5, ...options }),
+  };
+};
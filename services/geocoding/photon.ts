@@ -0,0 +1,90 @@
+import type { Place } from '../../types';
+import type { GeocodingOptions, GeocodingProvider } from './types';
+import { buildUrl, fetchJson } from './http';
+
+// Photon and Pelias both answer with GeoJSON FeatureCollections, but differ in
+// endpoint names, query parameters and which properties they fill in.
+
+export const PHOTON_DEFAULT_URL = 'https://photon.komoot.io';
+
+// Photon rejects languages it has no index for, so others fall back to local names.
+const PHOTON_LANGUAGES = ['en', 'de', 'fr', 'it'];
+
+const toFeatures = (data: any): any[] => Array.isArray(data?.features) ? data.features : [];
+
+const photonFeatureToPlace = (feature: any): Place => {
+  const props = feature.properties ?? {};
+  const [lon, lat] = feature.geometry.coordinates;
+  const parts = [props.name, props.street, props.city, props.state, props.country]
+    .filter((part: any, i: number, all: any[]) => part && all.indexOf(part) === i);
+  // Photon's extent is [minLon, maxLat, maxLon, minLat].
+  const extent = Array.isArray(props.extent) && props.extent.length === 4 ? props.extent : null;
+  return {
+    place_id: `${props.osm_type ?? ''}${props.osm_id ?? `${lat},${lon}`}`,
+    lat,
+    lon,
+    boundingbox: extent ? [extent[3], extent[1], extent[0], extent[2]] : undefined,
+    display_name: parts.join(', '),
+    country: props.country,
+  };
+};
+
+export const createPhotonProvider = (baseUrl: string = PHOTON_DEFAULT_URL): GeocodingProvider => {
+  const request = (path: string, params: { [key: string]: string | number | undefined }, options: GeocodingOptions) => {
+    const lang = options.language && PHOTON_LANGUAGES.includes(options.language) ? options.language : undefined;
+    return fetchJson(buildUrl(baseUrl, path, { ...params, lang }), { signal: options.signal });
+  };
+
+  const forward = async (query: string, options: GeocodingOptions = {}): Promise<Place[]> => {
+    const data = await request('/api', { q: query, limit: options.limit ?? 1 }, options);
+    return toFeatures(data).map(photonFeatureToPlace);
+  };
+
+  return {
+    id: 'photon',
+    forward,
+    reverse: async (coords, options = {}) => {
+      const data = await request('/reverse', { lat: coords[0], lon: coords[1], limit: 1 }, options);
+      const [feature] = toFeatures(data);
+      return feature ? photonFeatureToPlace(feature) : null;
+    },
+    suggest: (query, options = {}) => forward(query, { limit: 5, ...options }),
+  };
+};
+
+const peliasFeatureToPlace = (feature: any): Place => {
+  const props = feature.properties ?? {};
+  const [lon, lat] = feature.geometry.coordinates;
+  // GeoJSON bbox is [minLon, minLat, maxLon, maxLat].
+  const bbox = Array.isArray(feature.bbox) && feature.bbox.length === 4 ? feature.bbox : null;
+  return {
+    place_id: props.gid ?? props.id ?? `${lat},${lon}`,
+    lat,
+    lon,
+    boundingbox: bbox ? [bbox[1], bbox[3], bbox[0], bbox[2]] : undefined,
+    display_name: props.label ?? props.name ?? '',
+    country: props.country,
+  };
+};
+
+export const createPeliasProvider = (baseUrl: string, apiKey?: string): GeocodingProvider => {
+  const request = (path: string, params: { [key: string]: string | number | undefined }, options: GeocodingOptions) =>
+    fetchJson(buildUrl(baseUrl, `/v1${path}`, { ...params, lang: options.language, api_key: apiKey }), { signal: options.signal });
+
+  return {
+    id: 'pelias',
+    forward: async (query, options = {}) => {
+      const data = await request('/search', { text: query, size: options.limit ?? 1 }, options);
+      return toFeatures(data).map(peliasFeatureToPlace);
+    },
+    reverse: async (coords, options = {}) => {
+      const data = await request('/reverse', { 'point.lat': coords[0], 'point.lon': coords[1], size: 1 }, options);
+      const [feature] = toFeatures(data);
+      return feature ? peliasFeatureToPlace(feature) : null;
+    },
+    suggest: async (query, options = {}) => {
+      const data = await request('/autocomplete', { text: query, size: options.limit ?? 5 }, options);
+      return toFeatures(data).map(peliasFeatureToPlace);
+    },
+  };
+};
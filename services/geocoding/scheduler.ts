@@ -0,0 +1,63 @@
+export const createAbortError = (): DOMException =>
+  new DOMException('The geocoding request was cancelled.', 'AbortError');
+
+interface QueuedRequest {
+  start: () => void;
+}
+
+export interface RequestScheduler {
+  // Runs `task` once a rate-limit slot is free. Aborting `signal` while the task is
+  // still queued removes it from the queue so it doesn't use up a slot.
+  schedule: <T>(task: (signal?: AbortSignal) => Promise<T>, signal?: AbortSignal) => Promise<T>;
+}
+
+// Starts at most one request per `minIntervalMs`, in the order they were scheduled.
+export const createRequestScheduler = (minIntervalMs: number): RequestScheduler => {
+  const queue: QueuedRequest[] = [];
+  let lastStartedAt = -Infinity;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const pump = () => {
+    timer = null;
+    if (queue.length === 0) return;
+
+    const waitMs = lastStartedAt + minIntervalMs - Date.now();
+    if (waitMs > 0) {
+      timer = setTimeout(pump, waitMs);
+      return;
+    }
+
+    const next = queue.shift()!;
+    lastStartedAt = Date.now();
+    next.start();
+    pump();
+  };
+
+  const schedule = <T,>(task: (signal?: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const onAbort = () => {
+        const index = queue.indexOf(entry);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          reject(createAbortError());
+        }
+      };
+      const entry: QueuedRequest = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          task(signal).then(resolve, reject);
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      queue.push(entry);
+      if (timer === null) pump();
+    });
+
+  return { schedule };
+};
@@ -0,0 +1,30 @@
+import type { LatLngTuple } from 'leaflet';
+import type { Place } from '../../types';
+
+export interface GeocodingOptions {
+  // Preferred language for place names, e.g. the UI language.
+  language?: string;
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+export interface GeocodingProvider {
+  id: string;
+  // Finds places matching a free-text query, best match first.
+  forward: (query: string, options?: GeocodingOptions) => Promise<Place[]>;
+  // Finds the place at a coordinate, or null if there is nothing there (e.g. open sea).
+  reverse: (coords: LatLngTuple, options?: GeocodingOptions) => Promise<Place | null>;
+  // Autocomplete suggestions for a partially typed query.
+  suggest: (query: string, options?: GeocodingOptions) => Promise<Place[]>;
+}
+
+export type GeocodingProviderName = 'nominatim' | 'photon' | 'pelias' | 'fixture';
+
+export interface GeocodingConfig {
+  provider: GeocodingProviderName;
+  // Base URL of a self-hosted geocoder; each provider has a public default.
+  url?: string;
+  apiKey?: string;
+  // Minimum delay between two requests to the provider.
+  minIntervalMs?: number;
+}
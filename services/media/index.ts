@@ -0,0 +1,77 @@
+import type { MediaKind, MediaUploadConfig, MediaUploadProvider, MediaUploadProviderName, UploadedMedia, UploadOptions } from './types';
+import { createStudioUploadProvider, MediaUploadError } from './studio';
+import { createMockUploadProvider } from './mock';
+import { getURLParams } from '../../utils/urlParams';
+import { compressImage } from '../../utils/imageCompression';
+import { PLAYABLE_TYPES } from '../../utils/media';
+
+export type { MediaKind, MediaUploadConfig, MediaUploadProvider, MediaUploadProviderName, UploadedMedia, UploadOptions } from './types';
+export { MediaUploadError } from './studio';
+export { probeMedia, type MediaProbeResult } from './probe';
+
+const PROVIDER_NAMES: MediaUploadProviderName[] = ['studio', 'mock'];
+const DEFAULT_UPLOAD_PATH = '/studio/media/upload/';
+const DEFAULT_MAX_IMAGE_DIMENSION = 1920;
+
+const MB = 1024 * 1024;
+
+// Largest file accepted per kind, after images are compressed.
+const MAX_UPLOAD_BYTES: { [kind in MediaKind]: number } = {
+  image: 10 * MB,
+  video: 200 * MB,
+  audio: 50 * MB,
+};
+
+// The mock keeps files inside the artifact, which is also stored in the
+// browser's few megabytes of localStorage.
+const MAX_MOCK_UPLOAD_BYTES = 1 * MB;
+
+// Values are injected at build time by vite.config.ts. Without a configured
+// provider, uploads go to the studio when the builder was opened from one.
+// Otherwise the mock endpoint stands in during development, and a production
+// build has nowhere to upload to.
+export const getMediaUploadConfig = (): MediaUploadConfig => {
+  const requestedProvider = process.env.MEDIA_UPLOAD_PROVIDER as MediaUploadProviderName | undefined;
+  const maxImageDimension = parseInt(process.env.MEDIA_MAX_IMAGE_DIMENSION ?? '', 10);
+  const path = process.env.MEDIA_UPLOAD_PATH || DEFAULT_UPLOAD_PATH;
+  return {
+    provider: requestedProvider && PROVIDER_NAMES.includes(requestedProvider)
+      ? requestedProvider
+      : (getURLParams().baseUrl ? 'studio' : import.meta.env.DEV ? 'mock' : null),
+    path: path.startsWith('/') ? path : `/${path}`,
+    maxImageDimension: maxImageDimension > 0 ? maxImageDimension : DEFAULT_MAX_IMAGE_DIMENSION,
+  };
+};
+
+export const createMediaUploader = (config: MediaUploadConfig): MediaUploadProvider => {
+  if (config.provider === 'mock') return createMockUploadProvider();
+  const { baseUrl, token, artifactId } = getURLParams();
+  if (!config.provider || !baseUrl) {
+    throw new MediaUploadError('config', 'Uploading requires MEDIA_UPLOAD_PROVIDER or the base_url URL parameter.');
+  }
+  return createStudioUploadProvider({ baseUrl, token, artifactId, path: config.path });
+};
+
+const config = getMediaUploadConfig();
+
+// Any image can be uploaded; video and audio must be in a format the
+// builder can play.
+export const acceptedTypes = (kind: MediaKind): string[] => (kind === 'image' ? ['image/*'] : PLAYABLE_TYPES[kind]);
+
+// The size limit for files of `kind` with the configured provider.
+export const maxUploadBytes = (kind: MediaKind): number =>
+  config.provider === 'mock' ? Math.min(MAX_UPLOAD_BYTES[kind], MAX_MOCK_UPLOAD_BYTES) : MAX_UPLOAD_BYTES[kind];
+
+export const isMediaOfKind = (file: File, kind: MediaKind): boolean =>
+  kind === 'image' ? file.type.startsWith('image/') : PLAYABLE_TYPES[kind].includes(file.type);
+
+// Images are scaled down and recompressed in the browser first; other media is
+// sent as it is.
+export const uploadMedia = async (file: File, kind: MediaKind, options: UploadOptions = {}): Promise<UploadedMedia> => {
+  const uploader = createMediaUploader(config);
+  const prepared = kind === 'image' ? await compressImage(file, { maxDimension: config.maxImageDimension }) : file;
+  if (prepared.size > maxUploadBytes(kind)) {
+    throw new MediaUploadError('too_large', `${kind} files can be at most ${maxUploadBytes(kind)} bytes`);
+  }
+  return uploader.upload(prepared, options);
+};
@@ -0,0 +1,22 @@
+import type { MediaUploadProvider } from './types';
+import { fileToBase64 } from '../../utils/fileUtils';
+
+const PROGRESS_STEPS = 10;
+const STEP_DELAY_MS = 80;
+
+// Stands in for the storage endpoint during development: reports progress like
+// a real upload, then hands back the file itself as a data URL. Nothing leaves
+// the browser, so large files make saved artifacts large too.
+export const createMockUploadProvider = (): MediaUploadProvider => ({
+  id: 'mock',
+  upload: async (file, options = {}) => {
+    const { onProgress, signal } = options;
+    for (let step = 1; step <= PROGRESS_STEPS; step++) {
+      if (signal?.aborted) throw new DOMException('Upload aborted', 'AbortError');
+      await new Promise(resolve => setTimeout(resolve, STEP_DELAY_MS));
+      onProgress?.(step / PROGRESS_STEPS);
+    }
+    if (signal?.aborted) throw new DOMException('Upload aborted', 'AbortError');
+    return { url: await fileToBase64(file) };
+  },
+});
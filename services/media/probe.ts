@@ -0,0 +1,79 @@
+import type { MediaSource } from '../../utils/media';
+
+// 'broken' covers links that are gone as well as ones that can't be reached;
+// 'unsupported' means this browser can't play the file's format.
+export type MediaProbeResult = 'ok' | 'broken' | 'unsupported';
+
+const PROBE_TIMEOUT_MS = 10000;
+
+// YouTube serves a 120px wide placeholder thumbnail for videos that don't exist.
+const YOUTUBE_PLACEHOLDER_WIDTH = 120;
+
+const withTimeout = (probe: Promise<MediaProbeResult>): Promise<MediaProbeResult> =>
+  Promise.race([
+    probe,
+    new Promise<MediaProbeResult>(resolve => setTimeout(() => resolve('broken'), PROBE_TIMEOUT_MS)),
+  ]);
+
+const probeYoutube = (id: string): Promise<MediaProbeResult> => new Promise(resolve => {
+  const image = new Image();
+  image.onload = () => resolve(image.naturalWidth <= YOUTUBE_PLACEHOLDER_WIDTH ? 'broken' : 'ok');
+  image.onerror = () => resolve('broken');
+  image.src = `https://img.youtube.com/vi/${id}/mqdefault.jpg`;
+});
+
+// Vimeo's oEmbed endpoint allows cross-origin requests and answers 404 for
+// videos that are gone or private.
+const probeVimeo = async (embedUrl: string): Promise<MediaProbeResult> => {
+  try {
+    const response = await fetch(`https://vimeo.com/api/oembed.json?url=${encodeURIComponent(embedUrl)}`);
+    return response.ok ? 'ok' : 'broken';
+  } catch {
+    return 'broken';
+  }
+};
+
+// Loads just the file's metadata into a detached player.
+const probeFile = (field: 'video' | 'audio', url: string, mimeType: string): Promise<MediaProbeResult> => new Promise(resolve => {
+  const player = document.createElement(field);
+  if (!player.canPlayType(mimeType)) {
+    resolve('unsupported');
+    return;
+  }
+  const finish = (result: MediaProbeResult) => {
+    player.removeAttribute('src');
+    player.load();
+    resolve(result);
+  };
+  player.preload = 'metadata';
+  player.onloadedmetadata = () => finish('ok');
+  player.onerror = () => finish('broken');
+  player.src = url;
+});
+
+// The same link is usually probed while typing and again on save.
+const cache = new Map<string, Promise<MediaProbeResult>>();
+
+// Checks that a recognized link actually plays.
+export const probeMedia = (source: MediaSource): Promise<MediaProbeResult> => {
+  const key = source.type === 'file' ? `${source.field}:${source.url}` : source.embedUrl;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  let probe: Promise<MediaProbeResult>;
+  switch (source.type) {
+    case 'youtube':
+      probe = probeYoutube(source.id);
+      break;
+    case 'vimeo':
+      probe = probeVimeo(source.embedUrl);
+      break;
+    default:
+      probe = probeFile(source.field, source.url, source.mimeType);
+  }
+  const result = withTimeout(probe);
+  cache.set(key, result);
+  // A failure may be a passing network problem, so only successes are kept.
+  result.then(outcome => { if (outcome !== 'ok') cache.delete(key); });
+  return result;
+};
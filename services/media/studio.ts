@@ -0,0 +1,68 @@
+import type { MediaUploadProvider, UploadedMedia } from './types';
+
+// `config` means no storage is set up; `too_large` that the file is over the
+// size limit for its kind.
+export type MediaUploadErrorKind = 'config' | 'too_large' | 'network' | 'http' | 'parse';
+
+export class MediaUploadError extends Error {
+  kind: MediaUploadErrorKind;
+  status?: number;
+
+  constructor(kind: MediaUploadErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'MediaUploadError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+interface StudioUploadTarget {
+  baseUrl: string;
+  token: string | null;
+  artifactId: string | null;
+  path: string;
+}
+
+// Posts the file as multipart form data and expects `{ "url": "..." }` back;
+// a relative URL is resolved against the studio. Uses XMLHttpRequest because
+// fetch can't report upload progress.
+export const createStudioUploadProvider = ({ baseUrl, token, artifactId, path }: StudioUploadTarget): MediaUploadProvider => ({
+  id: 'studio',
+  upload: (file, options = {}) => new Promise<UploadedMedia>((resolve, reject) => {
+    const { onProgress, signal } = options;
+    if (signal?.aborted) {
+      reject(new DOMException('Upload aborted', 'AbortError'));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `${baseUrl}${path}`);
+    xhr.setRequestHeader('Accept', 'application/json');
+    if (token) xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new MediaUploadError('http', `Upload failed with status ${xhr.status}`, xhr.status));
+        return;
+      }
+      try {
+        const data = JSON.parse(xhr.responseText);
+        if (typeof data?.url !== 'string' || !data.url) throw new Error('missing url');
+        resolve({ url: new URL(data.url, `${baseUrl}/`).toString() });
+      } catch {
+        reject(new MediaUploadError('parse', 'Upload response did not include a file URL'));
+      }
+    };
+    xhr.onerror = () => reject(new MediaUploadError('network', 'Upload request failed'));
+    xhr.onabort = () => reject(new DOMException('Upload aborted', 'AbortError'));
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+
+    const body = new FormData();
+    body.append('file', file, file.name);
+    if (artifactId) body.append('artifact', artifactId);
+    xhr.send(body);
+  }),
+});
@@ -0,0 +1,28 @@
+export type MediaKind = 'image' | 'video' | 'audio';
+
+export interface UploadOptions {
+  // Called with the share of the file sent so far, from 0 to 1.
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface UploadedMedia {
+  // Where the file can be fetched from; stored on the location.
+  url: string;
+}
+
+export interface MediaUploadProvider {
+  id: string;
+  upload: (file: File, options?: UploadOptions) => Promise<UploadedMedia>;
+}
+
+export type MediaUploadProviderName = 'studio' | 'mock';
+
+export interface MediaUploadConfig {
+  // Null when there is nowhere to upload to.
+  provider: MediaUploadProviderName | null;
+  // Path of the storage endpoint under the studio's base URL.
+  path: string;
+  // Longest side, in pixels, images are scaled down to before upload.
+  maxImageDimension: number;
+}
@@ -0,0 +1,51 @@
+import type { LatLngTuple } from 'leaflet';
+import type { RoutingProfile } from '../../types';
+import type { Route, RoutingConfig, RoutingOptions, RoutingProvider, RoutingProviderName } from './types';
+import { createOsrmProvider } from './osrm';
+import { createFixtureRoutingProvider } from './fixture';
+import { createStraightLineRoute } from './straight';
+
+export type { Route, RouteLeg, RoutingConfig, RoutingOptions, RoutingProvider, RoutingProviderName, TravelProfile } from './types';
+export { RoutingError } from './osrm';
+export { createStraightLineRoute } from './straight';
+
+export const ROUTING_PROFILES: RoutingProfile[] = ['straight', 'walking', 'cycling', 'driving'];
+
+const PROVIDER_NAMES: RoutingProviderName[] = ['osrm', 'fixture'];
+const MAX_CACHED_ROUTES = 50;
+
+export const createRouter = (config: RoutingConfig): RoutingProvider =>
+  config.provider === 'fixture' ? createFixtureRoutingProvider() : createOsrmProvider(config.url);
+
+// Values are injected at build time by vite.config.ts.
+export const getRoutingConfig = (): RoutingConfig => {
+  const requestedProvider = process.env.ROUTER_PROVIDER as RoutingProviderName | undefined;
+  return {
+    provider: requestedProvider && PROVIDER_NAMES.includes(requestedProvider) ? requestedProvider : 'osrm',
+    url: process.env.ROUTER_URL || undefined,
+  };
+};
+
+const router = createRouter(getRoutingConfig());
+
+// Reordering back and forth or undoing a change asks for the same route again,
+// so recent answers are kept in memory.
+const cache = new Map<string, Route>();
+
+const cacheKey = (waypoints: LatLngTuple[], profile: RoutingProfile): string =>
+  `${profile}:${waypoints.map(([lat, lon]) => `${lat},${lon}`).join(';')}`;
+
+export const getRoute = async (waypoints: LatLngTuple[], profile: RoutingProfile, options: RoutingOptions = {}): Promise<Route> => {
+  if (profile === 'straight') return createStraightLineRoute(waypoints);
+
+  const key = cacheKey(waypoints, profile);
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const route = await router.route(waypoints, profile, options);
+  cache.set(key, route);
+  if (cache.size > MAX_CACHED_ROUTES) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  return route;
+};
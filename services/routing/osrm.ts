@@ -0,0 +1,75 @@
+import type { LatLngTuple } from 'leaflet';
+import type { RoutingProvider, TravelProfile } from './types';
+import { buildRoute } from './straight';
+import { buildUrl } from '../geocoding/http';
+import { isAbortError } from '../../utils/abort';
+
+export type RoutingErrorKind = 'network' | 'http' | 'parse' | 'no_route';
+
+export class RoutingError extends Error {
+  kind: RoutingErrorKind;
+  status?: number;
+
+  constructor(kind: RoutingErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'RoutingError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+// The public FOSSGIS servers run one OSRM instance per profile.
+export const OSRM_DEFAULT_URLS: { [profile in TravelProfile]: string } = {
+  walking: 'https://routing.openstreetmap.de/routed-foot',
+  cycling: 'https://routing.openstreetmap.de/routed-bike',
+  driving: 'https://routing.openstreetmap.de/routed-car',
+};
+
+const toOsrmCoordinates = (waypoints: LatLngTuple[]): string =>
+  waypoints.map(([lat, lon]) => `${lon.toFixed(6)},${lat.toFixed(6)}`).join(';');
+
+export const createOsrmProvider = (urlTemplate?: string): RoutingProvider => ({
+  id: 'osrm',
+  route: async (waypoints, profile, options = {}) => {
+    const baseUrl = urlTemplate ? urlTemplate.replace('{profile}', profile) : OSRM_DEFAULT_URLS[profile];
+    const url = buildUrl(baseUrl, `/route/v1/${profile}/${toOsrmCoordinates(waypoints)}`, {
+      overview: 'full',
+      geometries: 'geojson',
+      steps: 'false',
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: options.signal });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new RoutingError('network', `Routing request failed: ${String(error)}`);
+    }
+
+    let data: any;
+    try {
+      data = await response.json();
+    } catch (error) {
+      throw new RoutingError('parse', 'Routing response was not valid JSON', response.status);
+    }
+
+    // OSRM reports unroutable waypoints with a 400 and a `code` such as "NoRoute".
+    if (data?.code && data.code !== 'Ok') {
+      throw new RoutingError('no_route', data.message || data.code, response.status);
+    }
+    if (!response.ok) {
+      throw new RoutingError('http', `Routing request failed with status ${response.status}`, response.status);
+    }
+
+    const route = data?.routes?.[0];
+    if (!route || !Array.isArray(route.legs) || !Array.isArray(route.geometry?.coordinates)) {
+      throw new RoutingError('parse', 'Routing response did not contain a route');
+    }
+
+    return buildRoute(
+      profile,
+      route.legs.map((leg: any) => ({ distance: leg.distance, duration: leg.duration })),
+      route.geometry.coordinates.map(([lon, lat]: number[]): LatLngTuple => [lat, lon]),
+    );
+  },
+});
@@ -0,0 +1,21 @@
+import type { LatLngTuple } from 'leaflet';
+import type { Route, RouteLeg } from './types';
+import { haversineDistance } from '../../utils/geo';
+
+const sumDurations = (legs: RouteLeg[]): number | null =>
+  legs.some(leg => leg.duration === null) ? null : legs.reduce((total, leg) => total + leg.duration!, 0);
+
+export const buildRoute = (profile: Route['profile'], legs: RouteLeg[], geometry: LatLngTuple[]): Route => ({
+  profile,
+  legs,
+  distance: legs.reduce((total, leg) => total + leg.distance, 0),
+  duration: sumDurations(legs),
+  geometry,
+});
+
+export const straightLineLegs = (waypoints: LatLngTuple[]): RouteLeg[] =>
+  waypoints.slice(1).map((to, i) => ({ distance: haversineDistance(waypoints[i], to), duration: null }));
+
+// As-the-crow-flies distances, with no travel time.
+export const createStraightLineRoute = (waypoints: LatLngTuple[]): Route =>
+  buildRoute('straight', straightLineLegs(waypoints), waypoints);
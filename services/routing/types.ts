@@ -0,0 +1,40 @@
+import type { LatLngTuple } from 'leaflet';
+import type { RoutingProfile } from '../../types';
+
+export interface RouteLeg {
+  // In meters.
+  distance: number;
+  // In seconds, or null when the profile has no travel speed (straight lines).
+  duration: number | null;
+}
+
+export interface Route {
+  profile: RoutingProfile;
+  // legs[i] runs from waypoint i to waypoint i + 1.
+  legs: RouteLeg[];
+  distance: number;
+  duration: number | null;
+  geometry: LatLngTuple[];
+}
+
+export interface RoutingOptions {
+  signal?: AbortSignal;
+}
+
+export interface RoutingProvider {
+  id: string;
+  // Routes through the waypoints in order. Only called for travel profiles;
+  // straight lines are computed locally.
+  route: (waypoints: LatLngTuple[], profile: TravelProfile, options?: RoutingOptions) => Promise<Route>;
+}
+
+export type TravelProfile = Exclude<RoutingProfile, 'straight'>;
+
+export type RoutingProviderName = 'osrm' | 'fixture';
+
+export interface RoutingConfig {
+  provider: RoutingProviderName;
+  // Base URL of an OSRM-compatible service. `{profile}` is replaced with the
+  // profile name for services that host one instance per profile.
+  url?: string;
+}
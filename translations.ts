@@ -1,230 +0,0 @@
-export const translations = {
-  en: {
-    // App.tsx
-    headerTitle: "Map Admin",
-    headerSubtitle: "Create and manage your location pins.",
-    importButton: "Import",
-    saveButton: "Save",
-    exportButton: "Export",
-    clearAllButton: "Clear All",
-    clearAllConfirmation: "Are you sure you want to delete all locations? This action cannot be undone.",
-    importConfirmation: "This will replace all current locations with the imported ones. Are you sure you want to continue?",
-    importError_file: "There was an error reading the file.",
-    importError_json: "The selected file is not valid JSON.",
-    importError_validation: "The imported file contains invalid data or is not in the correct format.",
-    importSuccess: "Locations imported successfully!",
-    alert_noCountry: "Could not determine the country for the selected location. Please try a different spot.",
-    alert_countryError: "An error occurred while determining the country.",
-    alert_noExport: "No locations to export.",
-    alert_noSave: "No locations to save.",
-    alert_saveSuccess: "Locations saved successfully!",
-    alert_saveError: "Failed to save locations. Please try again.",
-    alert_saveMissingParams: "Missing required URL parameters (userId, token, artifact_id, base_url). Cannot save to server.",
-    loadingArtifact: "Loading artifact data...",
-    alert_searchNotFound: "Place not found. Please try again.",
-    alert_searchError: "An error occurred while searching.",
-    startTourTooltip: "Start Guided Tour",
-    toggleSidebarTooltip: "Toggle sidebar",
-
-    // LanguageSwitcher.tsx
-    toggleLanguageTooltip: "Switch language",
-
-    // LocationForm.tsx
-    editingTitle: 'Editing "{title}"',
-    step2Title: "Step 2: Add Location Details",
-    step1Title: "Step 1: Select a Location",
-    step1Instruction: "Click on the map to choose a spot for your new location.",
-    coordinatesLabel: "Coordinates",
-    detectingCountry: "Detecting country...",
-    countryLabel: "Country",
-    titleLabel: "Title",
-    descriptionLabel: "Description",
-    descriptionPlaceholder: "Enter a rich description for the location...",
-    mediaUrlsLegend: "Media URLs (Optional)",
-    imageUrlLabel: "Image URL",
-    videoUrlLabel: "Video URL",
-    audioUrlLabel: "Audio URL",
-    saveChangesButton: "Save Changes",
-    addLocationButton: "Add Location to Map",
-    cancelButton: "Cancel",
-    formAlert: "Please fill all required fields, including description, select a location, and wait for country detection.",
-    alert_aiError: "Failed to generate description. Please try again.",
-    generateDescriptionButton: "Generate",
-    generateDescriptionTooltip: "Generate description using AI",
-    generatingDescription: "Generating...",
-    questionsLegend: "Quiz Questions (Optional)",
-    questionsSubtitle: "Engage users by adding a quiz to this location.",
-    noQuestionsTitle: "No questions yet.",
-    addQuestionButton: "Add Question",
-    addAnotherQuestionButton: "Add Another Question",
-    removeQuestionButton: "Remove Question",
-    questionTextLabel: "Question",
-    questionTextPlaceholder: "Enter the question text...",
-    questionTypeLabel: "Question Type",
-    questionTypeShortAnswer: "Short Answer",
-    questionTypeTrueFalse: "True/False",
-    questionTypeMultipleChoice: "Multiple Choice",
-    answerLabel: "Correct Answer",
-    optionsLabel: "Options",
-    addOptionButton: "Add Option",
-    removeOptionAriaLabel: "Remove option",
-    markAsCorrectAriaLabel: "Mark as correct answer",
-    blockNavigationLabel: "Block Navigation",
-    blockNavigationDescription: "If checked, users must correctly answer a question before proceeding to the next location in a tour.",
-    
-    // LocationsList.tsx
-    createdLocationsTitle: "Created Locations",
-    searchPlaceholder: "Search by country name...",
-    toggleSearchTooltip: "Search locations",
-    noLocationsTitle: "No locations yet",
-    noLocationsSubtitle: "Get started by selecting a point on the map.",
-    noMatchTitle: "No matching locations",
-    noMatchSubtitle: "Try a different country name.",
-    searchLocationsAriaLabel: "Search locations by country",
-
-    // MapComponent.tsx
-    newLocationPopup: "New location coordinates:",
-    quizTitle: "Quiz",
-    quizTrue: "True",
-    quizFalse: "False",
-    quizShortAnswerHint: "A short answer is required.",
-
-    // MapSearchControl.tsx
-    searchPlacePlaceholder: "Search for a place...",
-    searchButton: "Search",
-    searchingButton: "Searching",
-    searchAriaLabel: "Search for a place to move the map",
-
-    // SortableLocationItem.tsx
-    dragAriaLabel: "Drag to reorder",
-    viewAriaLabel: "View {title} on map",
-    moreOptionsAriaLabel: "More options for {title}",
-    editMenuItem: "Edit",
-    deleteMenuItem: "Delete",
-
-    // TourGuide.tsx
-    tourStep1Content: "Type a city name here to search for it 🚩",
-    tourStep2Content: "Click on the map to define your location 🗺️",
-    tourStep3Content: "After selecting a location on the map, enter the title and a rich description here.",
-    tourStep4Content: "Optionally, add URLs for an image, video, and audio to enrich your location pin.",
-    tourStep5Content: "Your created locations will appear in this list. You can reorder, view, edit, or delete them.",
-    tourSkipButton: "Skip",
-    tourBackButton: "Back",
-    tourNextButton: "Next",
-    tourFinishButton: "Finish",
-  },
-  ar: {
-    // App.tsx
-    headerTitle: "إدارة الخريطة",
-    headerSubtitle: "أنشئ وأدر دبابيس مواقعك.",
-    importButton: "استيراد",
-    saveButton: "حفظ",
-    exportButton: "تصدير",
-    clearAllButton: "مسح الكل",
-    clearAllConfirmation: "هل أنت متأكد أنك تريد حذف جميع المواقع؟ لا يمكن التراجع عن هذا الإجراء.",
-    importConfirmation: "سيؤدي هذا إلى استبدال جميع المواقع الحالية بالمواقع المستوردة. هل أنت متأكد أنك تريد المتابعة؟",
-    importError_file: "حدث خطأ أثناء قراءة الملف.",
-    importError_json: "الملف المحدد ليس ملف JSON صالح.",
-    importError_validation: "يحتوي الملف المستورد على بيانات غير صالحة أو ليس بالتنسيق الصحيح.",
-    importSuccess: "تم استيراد المواقع بنجاح!",
-    alert_noCountry: "تعذر تحديد البلد للموقع المختار. يرجى تجربة بقعة مختلفة.",
-    alert_countryError: "حدث خطأ أثناء تحديد البلد.",
-    alert_noExport: "لا توجد مواقع لتصديرها.",
-    alert_noSave: "لا توجد مواقع لحفظها.",
-    alert_saveSuccess: "تم حفظ المواقع بنجاح!",
-    alert_saveError: "فشل حفظ المواقع. يرجى المحاولة مرة أخرى.",
-    alert_saveMissingParams: "معلمات URL المطلوبة مفقودة (userId، token، artifact_id، base_url). لا يمكن الحفظ على الخادم.",
-    loadingArtifact: "جارٍ تحميل بيانات الأثر...",
-    alert_searchNotFound: "لم يتم العثور على المكان. يرجى المحاولة مرة أخرى.",
-    alert_searchError: "حدث خطأ أثناء البحث.",
-    startTourTooltip: "ابدأ الجولة الإرشادية",
-    toggleSidebarTooltip: "تبديل الشريط الجانبي",
-
-    // LanguageSwitcher.tsx
-    toggleLanguageTooltip: "تغيير اللغة",
-
-    // LocationForm.tsx
-    editingTitle: 'تعديل "{title}"',
-    step2Title: "الخطوة 2: أضف تفاصيل الموقع",
-    step1Title: "الخطوة 1: اختر موقعًا",
-    step1Instruction: "انقر على الخريطة لاختيار بقعة لموقعك الجديد.",
-    coordinatesLabel: "الإحداثيات",
-    detectingCountry: "جارٍ تحديد البلد...",
-    countryLabel: "البلد",
-    titleLabel: "العنوان",
-    descriptionLabel: "الوصف",
-    descriptionPlaceholder: "أدخل وصفًا غنيًا للموقع...",
-    mediaUrlsLegend: "روابط الوسائط (اختياري)",
-    imageUrlLabel: "رابط الصورة",
-    videoUrlLabel: "رابط الفيديو",
-    audioUrlLabel: "رابط الصوت",
-    saveChangesButton: "حفظ التغييرات",
-    addLocationButton: "أضف الموقع إلى الخريطة",
-    cancelButton: "إلغاء",
-    formAlert: "يرجى ملء جميع الحقول المطلوبة، بما في ذلك الوصف، واختيار موقع، وانتظار تحديد البلد.",
-    alert_aiError: "فشل إنشاء الوصف. يرجى المحاولة مرة أخرى.",
-    generateDescriptionButton: "إنشاء",
-    generateDescriptionTooltip: "إنشاء وصف باستخدام الذكاء الاصطناعي",
-    generatingDescription: "جارٍ الإنشاء...",
-    questionsLegend: "أسئلة الاختبار (اختياري)",
-    questionsSubtitle: "أشرك المستخدمين بإضافة اختبار لهذا الموقع.",
-    noQuestionsTitle: "لا توجد أسئلة بعد.",
-    addQuestionButton: "أضف سؤال",
-    addAnotherQuestionButton: "أضف سؤالاً آخر",
-    removeQuestionButton: "إزالة السؤال",
-    questionTextLabel: "السؤال",
-    questionTextPlaceholder: "أدخل نص السؤال...",
-    questionTypeLabel: "نوع السؤال",
-    questionTypeShortAnswer: "إجابة قصيرة",
-    questionTypeTrueFalse: "صح / خطأ",
-    questionTypeMultipleChoice: "اختيار من متعدد",
-    answerLabel: "الإجابة الصحيحة",
-    optionsLabel: "الخيارات",
-    addOptionButton: "أضف خيار",
-    removeOptionAriaLabel: "إزالة الخيار",
-    markAsCorrectAriaLabel: "تحديد كإجابة صحيحة",
-    blockNavigationLabel: "منع التنقل",
-    blockNavigationDescription: "إذا تم تحديده، يجب على المستخدمين الإجابة بشكل صحيح على سؤال قبل المتابعة إلى الموقع التالي في الجولة.",
-
-    // LocationsList.tsx
-    createdLocationsTitle: "المواقع المنشأة",
-    searchPlaceholder: "ابحث باسم البلد...",
-    toggleSearchTooltip: "البحث عن مواقع",
-    noLocationsTitle: "لا توجد مواقع بعد",
-    noLocationsSubtitle: "ابدأ بتحديد نقطة على الخريطة.",
-    noMatchTitle: "لا توجد مواقع مطابقة",
-    noMatchSubtitle: "جرب اسم بلد مختلف.",
-    searchLocationsAriaLabel: "ابحث عن مواقع حسب البلد",
-
-    // MapComponent.tsx
-    newLocationPopup: "إحداثيات الموقع الجديد:",
-    quizTitle: "اختبار قصير",
-    quizTrue: "صحيح",
-    quizFalse: "خطأ",
-    quizShortAnswerHint: "مطلوب إجابة قصيرة.",
-
-    // MapSearchControl.tsx
-    searchPlacePlaceholder: "ابحث عن مكان...",
-    searchButton: "بحث",
-    searchingButton: "جارٍ البحث",
-    searchAriaLabel: "ابحث عن مكان لنقل الخريطة إليه",
-
-    // SortableLocationItem.tsx
-    dragAriaLabel: "اسحب لإعادة الترتيب",
-    viewAriaLabel: "عرض {title} على الخريطة",
-    moreOptionsAriaLabel: "خيارات إضافية لـ {title}",
-    editMenuItem: "تعديل",
-    deleteMenuItem: "حذف",
-
-    // TourGuide.tsx
-    tourStep1Content: "اكتب اسم مدينة هنا للبحث عنها 🚩",
-    tourStep2Content: "انقر على الخريطة لتحديد موقعك 🗺️",
-    tourStep3Content: "بعد تحديد موقع على الخريطة، أدخل العنوان ووصفًا غنيًا هنا.",
-    tourStep4Content: "اختياريًا، أضف روابط لصورة وفيديو وصوت لإثراء دبوس موقعك.",
-    tourStep5Content: "ستظهر المواقع التي أنشأتها في هذه القائمة. يمكنك إعادة ترتيبها أو عرضها أو تعديلها أو حذفها.",
-    tourSkipButton: "تخطي",
-    tourBackButton: "رجوع",
-    tourNextButton: "التالي",
-    tourFinishButton: "إنهاء",
-  }
-};
\ No newline at end of file
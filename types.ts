@@ -1,13 +1,69 @@
 import type { LatLngTuple } from 'leaflet';
 
-export type QuestionType = 'short_answer' | 'true_false' | 'multiple_choice';
+export type QuestionType =
+  | 'short_answer'
+  | 'true_false'
+  | 'multiple_choice'
+  | 'multi_select'
+  | 'ordering'
+  | 'matching'
+  | 'map_location';
+
+export interface MatchingPair {
+  prompt: string;
+  match: string;
+}
+
+// Where a "find it on the map" answer counts as right: within `radius` meters
+// of a point, or inside a polygon.
+export type MapTarget =
+  | { type: 'point'; coordinates: LatLngTuple; radius: number }
+  | { type: 'polygon'; coordinates: LatLngTuple[] };
+
+// A learner's answer: text or an option for the single-answer types, the
+// chosen options, the items in the chosen order, or the match chosen for each
+// prompt.
+export type QuizResponse = string | string[];
+
+// Quiz targets and the learner's map answers, drawn on the map while a quiz
+// is being authored or played.
+export interface QuizMapOverlay {
+  targets: MapTarget[];
+  picks: LatLngTuple[];
+}
 
 export interface Question {
   id: string;
   text: string;
   type: QuestionType;
   options?: string[];
+  // The correct value for short answer, true/false and multiple choice
+  // questions; the other types keep their answers in the fields below.
   answer: string;
+  // Every correct option of a `multi_select` question.
+  answers?: string[];
+  // The items of an `ordering` question, in the correct order.
+  items?: string[];
+  // The prompts of a `matching` question, each with its correct match.
+  pairs?: MatchingPair[];
+  // Weight of the question in the score; 1 when unset.
+  points?: number;
+  // Shown instead of the generic messages after a right or wrong answer.
+  feedbackCorrect?: string;
+  feedbackIncorrect?: string;
+  // Why the answer is what it is, shown once the question has been answered.
+  explanation?: string;
+  // The answer area of a `map_location` question, whose `answer` is unused.
+  target?: MapTarget;
+}
+
+// A location's text in one of its tour's translation languages. Empty fields
+// fall back to the location's own text, which is in the tour's `language`.
+export interface LocalizedContent {
+  title: string;
+  description: string;
+  // Unset until the quiz is translated; the untranslated quiz is used meanwhile.
+  questions?: Question[];
 }
 
 export interface Location {
@@ -21,12 +77,50 @@ export interface Location {
   coordinates: LatLngTuple;
   questions?: Question[];
   block_navigation?: boolean;
+  // Percentage of the stop's points needed to pass it.
+  passMark?: number;
+  // Optional marker styling; the icon also picks a default color.
+  markerIcon?: MarkerIconName;
+  markerColor?: MarkerColorName;
+  // Title, description and quiz in other languages, keyed by language code.
+  translations?: { [language: string]: LocalizedContent };
+}
+
+export type MarkerIconName = 'landmark' | 'nature' | 'water' | 'viewpoint' | 'star' | 'flag' | 'heart' | 'info';
+
+export type MarkerColorName = 'teal' | 'sky' | 'indigo' | 'violet' | 'rose' | 'red' | 'amber' | 'green' | 'slate';
+
+// How the path between consecutive stops is drawn and measured.
+export type RoutingProfile = 'straight' | 'walking' | 'cycling' | 'driving';
+
+export interface TourMetadata {
+  id: string;
+  title: string;
+  // Plain-text introduction shown before the first stop.
+  intro: string;
+  coverImage: string;
+  // Language the tour's content is written in, e.g. 'en' or 'ar'.
+  language: string;
+  // Languages the content is also translated into; `language` is the fallback.
+  translationLanguages: string[];
+  routingProfile: RoutingProfile;
+  // Id of the basemap the tour opens on, or null for the deployment's default.
+  baseLayer: string | null;
+  // Percentage of the tour's points needed to pass it, or null for no pass mark.
+  passMark: number | null;
+}
+
+export interface Tour extends TourMetadata {
+  // The stops, in visiting order.
+  locations: Location[];
 }
 
 export interface Place {
-  place_id: number;
-  lat: string;
-  lon: string;
-  boundingbox?: [string, string, string, string];
+  place_id: string;
+  lat: number;
+  lon: number;
+  // [south, north, west, east], in the same order Nominatim uses.
+  boundingbox?: [number, number, number, number];
   display_name: string;
+  country?: string;
 }
\ No newline at end of file
@@ -0,0 +1,4 @@
+// Whether `error` is the rejection of a request that was cancelled through an
+// AbortSignal, as opposed to one that failed.
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
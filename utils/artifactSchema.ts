@@ -0,0 +1,477 @@
+import type { LatLngTuple } from 'leaflet';
+import type { Location, Question, RoutingProfile, Tour, TourMetadata } from '../types';
+
+// Bump this whenever the stored document shape changes, and register a
+// migration from the previous version below.
+export const CURRENT_SCHEMA_VERSION = 6;
+
+export const DEFAULT_ROUTING_PROFILE: RoutingProfile = 'straight';
+export const DEFAULT_TOUR_LANGUAGE = 'en';
+
+export interface ArtifactDocument {
+  schemaVersion: number;
+  tours: Tour[];
+}
+
+export interface ValidationError {
+  // Index of the location within its tour, or -1 for document-level errors.
+  index: number;
+  path: string;
+  expected: string;
+  actual: string;
+}
+
+export interface ValidationReportEntry {
+  tourIndex: number;
+  index: number;
+  title: string | null;
+  errors: ValidationError[];
+  // The location as-is when valid, otherwise null.
+  location: Location | null;
+  // A best-effort corrected copy of an invalid location, or null if it can't be fixed.
+  repaired: Location | null;
+}
+
+export interface ValidationReport {
+  schemaVersion: number | null;
+  documentErrors: ValidationError[];
+  // Tour metadata, in document order; locations are reported in `entries`.
+  tours: TourMetadata[];
+  entries: ValidationReportEntry[];
+}
+
+export type ReportResolution = 'drop' | 'fix';
+// One resolution for every invalid entry, or a choice per entry.
+export type ReportResolver = ReportResolution | ((entry: ValidationReportEntry) => ReportResolution);
+
+const QUESTION_TYPES = ['short_answer', 'true_false', 'multiple_choice', 'multi_select', 'ordering', 'matching', 'map_location'];
+const ROUTING_PROFILES = ['straight', 'walking', 'cycling', 'driving'];
+const MARKER_ICONS = ['landmark', 'nature', 'water', 'viewpoint', 'star', 'flag', 'heart', 'info'];
+const MARKER_COLORS = ['teal', 'sky', 'indigo', 'violet', 'rose', 'red', 'amber', 'green', 'slate'];
+
+// Each migration upgrades a document from `version` to `version + 1`.
+const migrations: { [version: number]: (doc: any) => any } = {
+  // Version 0 is the original bare `Location[]` payload.
+  0: (locations: any) => ({ schemaVersion: 1, locations }),
+  // Version 2 adds the tour's routing profile; older tours were drawn as straight lines.
+  1: (doc: any) => ({ ...doc, schemaVersion: 2, routingProfile: DEFAULT_ROUTING_PROFILE }),
+  // Version 3 holds several tours; the single path becomes the first one.
+  2: ({ routingProfile, locations }: any) => ({
+    schemaVersion: 3,
+    tours: [{
+      id: 'tour_1',
+      title: '',
+      intro: '',
+      coverImage: '',
+      language: DEFAULT_TOUR_LANGUAGE,
+      routingProfile,
+      locations,
+    }],
+  }),
+  // Version 4 lets each tour pick its basemap; existing tours use the default.
+  3: (doc: any) => ({
+    ...doc,
+    schemaVersion: 4,
+    tours: Array.isArray(doc.tours)
+      ? doc.tours.map((tour: any) => tour && typeof tour === 'object' ? { baseLayer: null, ...tour } : tour)
+      : doc.tours,
+  }),
+  // Version 5 adds an optional pass mark per tour.
+  4: (doc: any) => ({
+    ...doc,
+    schemaVersion: 5,
+    tours: Array.isArray(doc.tours)
+      ? doc.tours.map((tour: any) => tour && typeof tour === 'object' ? { passMark: null, ...tour } : tour)
+      : doc.tours,
+  }),
+  // Version 6 lists the languages a tour is translated into; older tours have none.
+  5: (doc: any) => ({
+    ...doc,
+    schemaVersion: 6,
+    tours: Array.isArray(doc.tours)
+      ? doc.tours.map((tour: any) => tour && typeof tour === 'object' ? { translationLanguages: [], ...tour } : tour)
+      : doc.tours,
+  }),
+};
+
+export const describeValue = (value: any): string => {
+  if (value === undefined) return 'undefined';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `array (length ${value.length})`;
+  if (typeof value === 'string') {
+    return value.length > 40 ? `string "${value.slice(0, 40)}…"` : `string "${value}"`;
+  }
+  if (typeof value === 'object') return 'object';
+  return `${typeof value} ${String(value)}`;
+};
+
+const detectVersion = (raw: any): number | null => {
+  if (Array.isArray(raw)) return 0;
+  if (raw && typeof raw === 'object' && Number.isInteger(raw.schemaVersion)) return raw.schemaVersion;
+  return null;
+};
+
+// Pass marks are percentages of the points available.
+const isPassMark = (value: any): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+
+const isPoints = (value: any): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isLatLng = (value: any): boolean =>
+  Array.isArray(value) && value.length === 2 &&
+  typeof value[0] === 'number' && value[0] >= -90 && value[0] <= 90 &&
+  typeof value[1] === 'number' && value[1] >= -180 && value[1] <= 180;
+
+const isMapTarget = (target: any): boolean => {
+  if (!target || typeof target !== 'object') return false;
+  if (target.type === 'point') {
+    return isLatLng(target.coordinates) && typeof target.radius === 'number' && Number.isFinite(target.radius) && target.radius > 0;
+  }
+  return target.type === 'polygon' &&
+    Array.isArray(target.coordinates) && target.coordinates.length >= 3 && target.coordinates.every(isLatLng);
+};
+
+const isStringArray = (value: any): value is string[] =>
+  Array.isArray(value) && value.every((item: any) => typeof item === 'string');
+
+const isMatchingPairs = (value: any): boolean =>
+  Array.isArray(value) &&
+  value.every((pair: any) => pair && typeof pair === 'object' && typeof pair.prompt === 'string' && typeof pair.match === 'string');
+
+export const validateQuestion = (q: any, index: number, path: string): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const check = (ok: boolean, field: string, expected: string, actual: any) => {
+    if (!ok) errors.push({ index, path: `${path}.${field}`, expected, actual: describeValue(actual) });
+  };
+
+  if (!q || typeof q !== 'object') {
+    return [{ index, path, expected: 'question object', actual: describeValue(q) }];
+  }
+  check(typeof q.id === 'string', 'id', 'string', q.id);
+  check(typeof q.text === 'string', 'text', 'string', q.text);
+  check(QUESTION_TYPES.includes(q.type), 'type', QUESTION_TYPES.join(' | '), q.type);
+  check(typeof q.answer === 'string', 'answer', 'string', q.answer);
+  check(
+    q.options === undefined || isStringArray(q.options),
+    'options',
+    'array of strings or undefined',
+    q.options
+  );
+  // Each list type needs its own answer field; the others may carry it, well-formed.
+  const requiredFor = (type: string, field: string, isValid: (value: any) => boolean, expected: string) => {
+    if (q.type === type) {
+      check(isValid(q[field]), field, expected, q[field]);
+    } else {
+      check(q[field] === undefined || isValid(q[field]), field, `${expected} or undefined`, q[field]);
+    }
+  };
+  requiredFor('multi_select', 'answers', isStringArray, 'array of strings');
+  requiredFor('ordering', 'items', isStringArray, 'array of strings');
+  requiredFor('matching', 'pairs', isMatchingPairs, 'array of { prompt, match }');
+  if (q.type === 'multi_select' && isStringArray(q.answers) && isStringArray(q.options)) {
+    check(q.answers.every((answer: string) => q.options.includes(answer)), 'answers', 'options of the question', q.answers);
+  }
+  check(q.points === undefined || isPoints(q.points), 'points', 'number of at least 0 or undefined', q.points);
+  ['feedbackCorrect', 'feedbackIncorrect', 'explanation'].forEach(field => {
+    check(q[field] === undefined || typeof q[field] === 'string', field, 'string or undefined', q[field]);
+  });
+  const expectedTarget = '{ type: "point", coordinates, radius } or { type: "polygon", coordinates }';
+  if (q.type === 'map_location') {
+    check(isMapTarget(q.target), 'target', expectedTarget, q.target);
+  } else {
+    check(q.target === undefined || isMapTarget(q.target), 'target', `${expectedTarget} or undefined`, q.target);
+  }
+  return errors;
+};
+
+// Drops scoring and feedback fields that don't validate, so a bad weight or
+// explanation doesn't cost the whole question.
+const repairQuestion = (q: any): any => {
+  if (!q || typeof q !== 'object') return q;
+  const optionalText = (value: any) => typeof value === 'string' ? value : undefined;
+  return {
+    ...q,
+    points: isPoints(q.points) ? q.points : undefined,
+    feedbackCorrect: optionalText(q.feedbackCorrect),
+    feedbackIncorrect: optionalText(q.feedbackIncorrect),
+    explanation: optionalText(q.explanation),
+  };
+};
+
+const isPlainObject = (value: any): boolean =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const validateLocation = (loc: any, index: number): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const check = (ok: boolean, path: string, expected: string, actual: any) => {
+    if (!ok) errors.push({ index, path, expected, actual: describeValue(actual) });
+  };
+
+  if (!loc || typeof loc !== 'object' || Array.isArray(loc)) {
+    return [{ index, path: '', expected: 'location object', actual: describeValue(loc) }];
+  }
+
+  check(typeof loc.id === 'string', 'id', 'string', loc.id);
+  check(typeof loc.title === 'string', 'title', 'string', loc.title);
+  check(typeof loc.country === 'string', 'country', 'string', loc.country);
+  check(typeof loc.description === 'string', 'description', 'string', loc.description);
+  check(typeof loc.image === 'string', 'image', 'string', loc.image);
+  check(loc.video === null || typeof loc.video === 'string', 'video', 'string or null', loc.video);
+  check(loc.audio === null || typeof loc.audio === 'string', 'audio', 'string or null', loc.audio);
+
+  if (!Array.isArray(loc.coordinates) || loc.coordinates.length !== 2) {
+    check(false, 'coordinates', '[latitude, longitude]', loc.coordinates);
+  } else {
+    const [lat, lon] = loc.coordinates;
+    check(typeof lat === 'number' && lat >= -90 && lat <= 90, 'coordinates[0]', 'number between -90 and 90', lat);
+    check(typeof lon === 'number' && lon >= -180 && lon <= 180, 'coordinates[1]', 'number between -180 and 180', lon);
+  }
+
+  const checkQuestions = (questions: any, path: string) => {
+    if (questions === undefined) return;
+    if (!Array.isArray(questions)) {
+      check(false, path, 'array or undefined', questions);
+    } else {
+      questions.forEach((q: any, qIndex: number) => {
+        errors.push(...validateQuestion(q, index, `${path}[${qIndex}]`));
+      });
+    }
+  };
+  checkQuestions(loc.questions, 'questions');
+
+  if (loc.translations !== undefined) {
+    if (!isPlainObject(loc.translations)) {
+      check(false, 'translations', 'object keyed by language or undefined', loc.translations);
+    } else {
+      Object.entries(loc.translations).forEach(([language, content]: [string, any]) => {
+        const path = `translations.${language}`;
+        if (!isPlainObject(content)) {
+          check(false, path, '{ title, description, questions? }', content);
+          return;
+        }
+        check(typeof content.title === 'string', `${path}.title`, 'string', content.title);
+        check(typeof content.description === 'string', `${path}.description`, 'string', content.description);
+        checkQuestions(content.questions, `${path}.questions`);
+      });
+    }
+  }
+
+  check(
+    loc.block_navigation === undefined || typeof loc.block_navigation === 'boolean',
+    'block_navigation',
+    'boolean or undefined',
+    loc.block_navigation
+  );
+  check(
+    loc.markerIcon === undefined || MARKER_ICONS.includes(loc.markerIcon),
+    'markerIcon',
+    `${MARKER_ICONS.join(' | ')} or undefined`,
+    loc.markerIcon
+  );
+  check(
+    loc.markerColor === undefined || MARKER_COLORS.includes(loc.markerColor),
+    'markerColor',
+    `${MARKER_COLORS.join(' | ')} or undefined`,
+    loc.markerColor
+  );
+  check(loc.passMark === undefined || isPassMark(loc.passMark), 'passMark', 'number between 0 and 100 or undefined', loc.passMark);
+
+  return errors;
+};
+
+const toCoordinate = (value: any): number | null => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : null;
+};
+
+const repairCoordinates = (value: any): LatLngTuple | null => {
+  let lat: number | null = null;
+  let lon: number | null = null;
+  if (Array.isArray(value) && value.length === 2) {
+    lat = toCoordinate(value[0]);
+    lon = toCoordinate(value[1]);
+  } else if (value && typeof value === 'object') {
+    lat = toCoordinate(value.lat ?? value.latitude);
+    lon = toCoordinate(value.lng ?? value.lon ?? value.longitude);
+  }
+  if (lat === null || lon === null || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    return null;
+  }
+  return [lat, lon];
+};
+
+const optionalString = (value: any): string | null =>
+  typeof value === 'string' && value.trim() !== '' ? value : null;
+
+// Attempts to coerce an invalid location into a valid one. Only fields that can be
+// filled in safely are fixed; a missing title or unusable coordinates can't be.
+export const repairLocation = (loc: any, index: number): Location | null => {
+  if (!loc || typeof loc !== 'object' || Array.isArray(loc)) return null;
+
+  const title = typeof loc.title === 'string' || typeof loc.title === 'number' ? String(loc.title) : null;
+  const coordinates = repairCoordinates(loc.coordinates);
+  if (!title || !coordinates) return null;
+
+  const repairQuestions = (value: any): Question[] | undefined =>
+    Array.isArray(value)
+      ? value
+          .map(repairQuestion)
+          .filter((q: any, qIndex: number) => validateQuestion(q, index, `questions[${qIndex}]`).length === 0) as Question[]
+      : undefined;
+  const questions = repairQuestions(loc.questions);
+
+  // A malformed translation is dropped; the location falls back to its own text.
+  let translations: Location['translations'];
+  if (isPlainObject(loc.translations)) {
+    translations = {};
+    Object.entries(loc.translations).forEach(([language, content]: [string, any]) => {
+      if (!isPlainObject(content)) return;
+      translations![language] = {
+        title: typeof content.title === 'string' ? content.title : '',
+        description: typeof content.description === 'string' ? content.description : '',
+        questions: repairQuestions(content.questions),
+      };
+    });
+  }
+
+  const repaired: Location = {
+    id: typeof loc.id === 'string' && loc.id ? loc.id : `${new Date().toISOString()}_${index}`,
+    title,
+    country: typeof loc.country === 'string' ? loc.country : '',
+    description: typeof loc.description === 'string' ? loc.description : '',
+    image: typeof loc.image === 'string' ? loc.image : '',
+    video: optionalString(loc.video),
+    audio: optionalString(loc.audio),
+    coordinates,
+    questions,
+    block_navigation: typeof loc.block_navigation === 'boolean' ? loc.block_navigation : undefined,
+    // An unknown style falls back to the default marker rather than losing the stop.
+    markerIcon: MARKER_ICONS.includes(loc.markerIcon) ? loc.markerIcon : undefined,
+    markerColor: MARKER_COLORS.includes(loc.markerColor) ? loc.markerColor : undefined,
+    passMark: isPassMark(loc.passMark) ? loc.passMark : undefined,
+    translations,
+  };
+
+  return validateLocation(repaired, index).length === 0 ? repaired : null;
+};
+
+// An unknown profile isn't worth rejecting a tour over; it is drawn with straight lines.
+const toRoutingProfile = (value: any): RoutingProfile =>
+  ROUTING_PROFILES.includes(value) ? value : DEFAULT_ROUTING_PROFILE;
+
+const stringOr = (value: any, fallback: string): string =>
+  typeof value === 'string' ? value : fallback;
+
+// Tour metadata is descriptive only, so missing or malformed fields fall back
+// to defaults instead of blocking the import.
+const toTourMetadata = (tour: any, index: number, usedIds: Set<string>): TourMetadata => {
+  let id = typeof tour.id === 'string' && tour.id ? tour.id : `tour_${index + 1}`;
+  if (usedIds.has(id)) id = `${id}_${index + 1}`;
+  usedIds.add(id);
+  const language = typeof tour.language === 'string' && tour.language ? tour.language : DEFAULT_TOUR_LANGUAGE;
+  return {
+    id,
+    title: stringOr(tour.title, ''),
+    intro: stringOr(tour.intro, ''),
+    coverImage: stringOr(tour.coverImage, ''),
+    language,
+    translationLanguages: Array.isArray(tour.translationLanguages)
+      ? tour.translationLanguages.filter((code: any, i: number, codes: any[]) =>
+          typeof code === 'string' && code && code !== language && codes.indexOf(code) === i)
+      : [],
+    routingProfile: toRoutingProfile(tour.routingProfile),
+    baseLayer: typeof tour.baseLayer === 'string' && tour.baseLayer ? tour.baseLayer : null,
+    passMark: isPassMark(tour.passMark) ? tour.passMark : null,
+  };
+};
+
+const validateTourLocations = (data: any, tourIndex: number): ValidationReportEntry[] =>
+  data.map((loc: any, index: number): ValidationReportEntry => {
+    const errors = validateLocation(loc, index);
+    const valid = errors.length === 0;
+    return {
+      tourIndex,
+      index,
+      title: loc && typeof loc.title === 'string' ? loc.title : null,
+      errors,
+      location: valid ? loc as Location : null,
+      repaired: valid ? null : repairLocation(loc, index),
+    };
+  });
+
+export const validateTours = (data: any, schemaVersion: number | null = CURRENT_SCHEMA_VERSION): ValidationReport => {
+  const report: ValidationReport = { schemaVersion, documentErrors: [], tours: [], entries: [] };
+  if (!Array.isArray(data)) {
+    report.documentErrors.push({ index: -1, path: 'tours', expected: 'array of tours', actual: describeValue(data) });
+    return report;
+  }
+
+  const usedIds = new Set<string>();
+  data.forEach((tour: any, tourIndex: number) => {
+    if (!tour || typeof tour !== 'object' || Array.isArray(tour)) {
+      report.documentErrors.push({ index: -1, path: `tours[${tourIndex}]`, expected: 'tour object', actual: describeValue(tour) });
+      return;
+    }
+    if (!Array.isArray(tour.locations)) {
+      report.documentErrors.push({ index: -1, path: `tours[${tourIndex}].locations`, expected: 'array of locations', actual: describeValue(tour.locations) });
+      return;
+    }
+    report.entries.push(...validateTourLocations(tour.locations, report.tours.length));
+    report.tours.push(toTourMetadata(tour, tourIndex, usedIds));
+  });
+  return report;
+};
+
+// Upgrades any known document shape to the current schema and validates it.
+export const parseArtifact = (raw: any): ValidationReport => {
+  const version = detectVersion(raw);
+  if (version === null) {
+    return {
+      schemaVersion: null,
+      documentErrors: [{ index: -1, path: 'schemaVersion', expected: 'integer', actual: describeValue(raw?.schemaVersion) }],
+      tours: [],
+      entries: [],
+    };
+  }
+  // Only versions with a migration path to the current one can be read.
+  if (version < 0 || version > CURRENT_SCHEMA_VERSION) {
+    return {
+      schemaVersion: version,
+      documentErrors: [{ index: -1, path: 'schemaVersion', expected: `0 to ${CURRENT_SCHEMA_VERSION}`, actual: describeValue(version) }],
+      tours: [],
+      entries: [],
+    };
+  }
+
+  let doc = raw;
+  for (let v = version; v < CURRENT_SCHEMA_VERSION; v++) {
+    doc = migrations[v](doc);
+  }
+  return validateTours(doc.tours, version);
+};
+
+export const isReportValid = (report: ValidationReport): boolean =>
+  report.documentErrors.length === 0 && report.entries.every(entry => entry.errors.length === 0);
+
+export const getInvalidEntries = (report: ValidationReport): ValidationReportEntry[] =>
+  report.entries.filter(entry => entry.errors.length > 0);
+
+// Returns the tours with the locations to keep: valid ones, plus repaired ones
+// where they are fixed. Entries that can't be fixed are always dropped.
+export const resolveReport = (report: ValidationReport, resolver: ReportResolver): Tour[] =>
+  report.tours.map((metadata, tourIndex) => ({
+    ...metadata,
+    locations: report.entries.flatMap(entry => {
+      if (entry.tourIndex !== tourIndex) return [];
+      if (entry.location) return [entry.location];
+      const resolution = typeof resolver === 'function' ? resolver(entry) : resolver;
+      if (resolution === 'fix' && entry.repaired) return [entry.repaired];
+      return [];
+    }),
+  }));
+
+export const serializeArtifact = (tours: Tour[], space?: number): string => {
+  const doc: ArtifactDocument = { schemaVersion: CURRENT_SCHEMA_VERSION, tours };
+  return JSON.stringify(doc, null, space);
+};
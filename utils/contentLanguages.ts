@@ -0,0 +1,53 @@
+import type { Location, Tour } from '../types';
+
+// Languages tour content can be written in. These are independent of the
+// languages the builder itself is shown in.
+export const CONTENT_LANGUAGES = ['en', 'ar'];
+
+const RTL_LANGUAGES = ['ar', 'fa', 'he', 'ur'];
+
+export const isRtlLanguage = (language: string): boolean => RTL_LANGUAGES.includes(language.split('-')[0]);
+
+// A language's name in that language itself, e.g. "Français" for `fr`, so
+// readers can find their own language whatever the interface is shown in.
+export const languageName = (language: string): string => {
+  try {
+    const name = new Intl.DisplayNames([language], { type: 'language' }).of(language) ?? language;
+    return name.charAt(0).toLocaleUpperCase(language) + name.slice(1);
+  } catch {
+    return language;
+  }
+};
+
+// A tour's fallback language first, then its translations.
+export const tourContentLanguages = (tour: Pick<Tour, 'language' | 'translationLanguages'>): string[] =>
+  [tour.language, ...tour.translationLanguages];
+
+// A location's text in `language`. Each field falls back separately to the
+// location's own text, which is in `fallbackLanguage`.
+export const localizeLocation = (location: Location, language: string, fallbackLanguage: string): Location => {
+  const content = language === fallbackLanguage ? undefined : location.translations?.[language];
+  if (!content) return location;
+  return {
+    ...location,
+    title: content.title.trim() ? content.title : location.title,
+    description: content.description.trim() ? content.description : location.description,
+    questions: content.questions ?? location.questions,
+  };
+};
+
+export const localizeTour = (tour: Tour, language: string): Tour =>
+  language === tour.language
+    ? tour
+    : { ...tour, locations: tour.locations.map(location => localizeLocation(location, language, tour.language)) };
+
+// The languages, out of `languages`, that a location still lacks a title,
+// description or quiz in. A quiz whose question count differs from the
+// untranslated one is out of date, so it counts as missing too.
+export const missingTranslations = (location: Pick<Location, 'questions' | 'translations'>, languages: string[]): string[] =>
+  languages.filter(language => {
+    const content = location.translations?.[language];
+    if (!content || !content.title.trim() || !content.description.trim()) return true;
+    const questionCount = location.questions?.length ?? 0;
+    return questionCount > 0 && content.questions?.length !== questionCount;
+  });
@@ -0,0 +1,159 @@
+import type { LatLngTuple } from 'leaflet';
+import { isValidLatLng } from './interchange';
+
+export type CsvField =
+  | 'title'
+  | 'lat'
+  | 'lon'
+  | 'description'
+  | 'image'
+  | 'video'
+  | 'audio'
+  | 'country'
+  | 'address';
+
+export const CSV_FIELDS: CsvField[] = ['title', 'lat', 'lon', 'description', 'image', 'video', 'audio', 'country', 'address'];
+
+// Maps each field to a column index, or null when the field is not imported.
+export type CsvColumnMapping = { [field in CsvField]: number | null };
+
+// Translation keys (see locales/en.ts) for problems found in a row.
+export type CsvRowError =
+  | 'csvError_title'
+  | 'csvError_coordinates'
+  | 'csvError_noLocation'
+  | 'csvError_geocode';
+
+export interface CsvRowDraft {
+  rowNumber: number;
+  title: string;
+  coordinates: LatLngTuple | null;
+  description: string;
+  image: string;
+  video: string;
+  audio: string;
+  country: string;
+  address: string;
+  errors: CsvRowError[];
+}
+
+const FIELD_ALIASES: { [field in CsvField]: string[] } = {
+  title: ['title', 'name', 'label', 'الاسم', 'العنوان'],
+  lat: ['lat', 'latitude', 'y', 'خط العرض'],
+  lon: ['lon', 'lng', 'long', 'longitude', 'x', 'خط الطول'],
+  description: ['description', 'desc', 'details', 'notes', 'الوصف'],
+  image: ['image', 'image_url', 'photo', 'picture', 'صورة'],
+  video: ['video', 'video_url', 'فيديو'],
+  audio: ['audio', 'audio_url', 'sound', 'صوت'],
+  country: ['country', 'البلد', 'الدولة'],
+  address: ['address', 'location', 'place', 'city', 'العنوان البريدي', 'المكان'],
+};
+
+// Picks the delimiter that occurs most often on the first line.
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ',');
+};
+
+// RFC 4180 parser: supports quoted fields, escaped quotes and newlines inside quotes.
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export const guessColumnMapping = (headers: string[]): CsvColumnMapping => {
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  const mapping = {} as CsvColumnMapping;
+  CSV_FIELDS.forEach(field => {
+    const index = normalized.findIndex(header => FIELD_ALIASES[field].includes(header));
+    mapping[field] = index === -1 ? null : index;
+  });
+  return mapping;
+};
+
+const parseCoordinate = (value: string): number | null => {
+  if (!value.trim()) return null;
+  // Accept decimal commas, which spreadsheets in many locales produce.
+  const num = Number(value.trim().replace(',', '.'));
+  return Number.isFinite(num) ? num : null;
+};
+
+export const mapCsvRows = (rows: string[][], mapping: CsvColumnMapping, firstRowNumber: number): CsvRowDraft[] =>
+  rows.map((row, i) => {
+    const get = (field: CsvField) => {
+      const index = mapping[field];
+      return index === null ? '' : (row[index] ?? '').trim();
+    };
+    const errors: CsvRowError[] = [];
+
+    const title = get('title');
+    if (!title) errors.push('csvError_title');
+
+    const rawLat = get('lat');
+    const rawLon = get('lon');
+    const lat = parseCoordinate(rawLat);
+    const lon = parseCoordinate(rawLon);
+    let coordinates: LatLngTuple | null = null;
+    if (lat !== null && lon !== null && isValidLatLng(lat, lon)) {
+      coordinates = [lat, lon];
+    } else if (rawLat || rawLon) {
+      errors.push('csvError_coordinates');
+    }
+
+    const address = get('address');
+    if (!coordinates && !address && !errors.includes('csvError_coordinates')) {
+      errors.push('csvError_noLocation');
+    }
+
+    return {
+      rowNumber: firstRowNumber + i,
+      title,
+      coordinates,
+      description: get('description'),
+      image: get('image'),
+      video: get('video'),
+      audio: get('audio'),
+      country: get('country'),
+      address,
+      errors,
+    };
+  });
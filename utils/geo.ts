@@ -0,0 +1,50 @@
+import type { LatLngTuple } from 'leaflet';
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Great-circle distance between two points, in meters.
+export const haversineDistance = ([lat1, lon1]: LatLngTuple, [lat2, lon2]: LatLngTuple): number => {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Ray casting on raw latitude/longitude; fine for the small areas quizzes use.
+export const isPointInPolygon = ([lat, lon]: LatLngTuple, polygon: LatLngTuple[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lonI] = polygon[i];
+    const [latJ, lonJ] = polygon[j];
+    if ((latI > lat) !== (latJ > lat) && lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Shortest distance from a point to a polygon's outline, in meters. Uses an
+// equirectangular projection around the point, which is accurate enough at
+// quiz scales.
+export const distanceToPolygonEdge = (point: LatLngTuple, polygon: LatLngTuple[]): number => {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const cosLat = Math.cos(toRad(point[0]));
+  const project = ([lat, lon]: LatLngTuple): [number, number] => [
+    toRad(lon - point[1]) * cosLat * EARTH_RADIUS_METERS,
+    toRad(lat - point[0]) * EARTH_RADIUS_METERS,
+  ];
+
+  let best = Infinity;
+  polygon.forEach((vertex, i) => {
+    const [ax, ay] = project(vertex);
+    const [bx, by] = project(polygon[(i + 1) % polygon.length]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    // Projected, the point sits at the origin.
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+    best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+  });
+  return best;
+};
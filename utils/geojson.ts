@@ -0,0 +1,111 @@
+import type { Location } from '../types';
+import { isValidLatLng, toImportedLocation, type InterchangeImportResult, type SkippedFeature } from './interchange';
+
+export interface GeoJSONPointFeature {
+  type: 'Feature';
+  geometry: {
+    type: 'Point';
+    // GeoJSON positions are [longitude, latitude], the reverse of Leaflet's LatLngTuple.
+    coordinates: [number, number];
+  };
+  properties: { [key: string]: unknown };
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONPointFeature[];
+}
+
+export const isGeoJSON = (data: any): boolean =>
+  !!data && typeof data === 'object' && (data.type === 'FeatureCollection' || data.type === 'Feature');
+
+export const locationsToGeoJSON = (locations: Location[]): GeoJSONFeatureCollection => ({
+  type: 'FeatureCollection',
+  features: locations.map((loc, index) => ({
+    type: 'Feature',
+    geometry: {
+      type: 'Point',
+      coordinates: [loc.coordinates[1], loc.coordinates[0]],
+    },
+    properties: {
+      id: loc.id,
+      order: index + 1,
+      title: loc.title,
+      country: loc.country,
+      description: loc.description,
+      image: loc.image,
+      video: loc.video,
+      audio: loc.audio,
+      questions: loc.questions ?? [],
+      block_navigation: loc.block_navigation ?? false,
+      ...(loc.passMark !== undefined && { passMark: loc.passMark }),
+      ...(loc.markerIcon && { markerIcon: loc.markerIcon }),
+      ...(loc.markerColor && { markerColor: loc.markerColor }),
+      ...(loc.translations && { translations: loc.translations }),
+    },
+  })),
+});
+
+const pickName = (properties: any): string | null => {
+  for (const key of ['title', 'name', 'Name', 'NAME']) {
+    const value = properties?.[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number') return String(value);
+  }
+  return null;
+};
+
+export const geoJSONToLocations = (data: any): InterchangeImportResult => {
+  const features: any[] = data?.type === 'Feature' ? [data] : Array.isArray(data?.features) ? data.features : [];
+  const skipped: SkippedFeature[] = [];
+  const imported: { order: number; location: Location }[] = [];
+
+  features.forEach((feature, index) => {
+    const properties = feature?.properties ?? {};
+    const name = pickName(properties);
+    const skip = (reason: SkippedFeature['reason']) => skipped.push({ index, name, reason });
+
+    if (feature?.geometry?.type !== 'Point') {
+      skip('skipReason_geometry');
+      return;
+    }
+    const [lon, lat] = Array.isArray(feature.geometry.coordinates) ? feature.geometry.coordinates : [];
+    if (typeof lat !== 'number' || typeof lon !== 'number' || !isValidLatLng(lat, lon)) {
+      skip('skipReason_coordinates');
+      return;
+    }
+    if (!name) {
+      skip('skipReason_title');
+      return;
+    }
+
+    const location = toImportedLocation({
+      id: properties.id,
+      title: name,
+      coordinates: [lat, lon],
+      country: properties.country,
+      description: properties.description,
+      image: properties.image,
+      video: properties.video,
+      audio: properties.audio,
+      questions: properties.questions,
+      block_navigation: properties.block_navigation,
+      passMark: properties.passMark,
+      markerIcon: properties.markerIcon,
+      markerColor: properties.markerColor,
+      translations: properties.translations,
+    }, index);
+    if (!location) {
+      skip('skipReason_invalid');
+      return;
+    }
+
+    // Respect an explicit tour order if present; otherwise keep file order.
+    const order = typeof properties.order === 'number' ? properties.order : Number.MAX_SAFE_INTEGER;
+    imported.push({ order, location });
+  });
+
+  // Array.prototype.sort is stable, so features without an order keep their file position.
+  imported.sort((a, b) => a.order - b.order);
+  return { locations: imported.map(item => item.location), skipped };
+};
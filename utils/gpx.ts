@@ -0,0 +1,78 @@
+import type { Location } from '../types';
+import {
+  escapeXml,
+  getChildText,
+  isValidLatLng,
+  parseXml,
+  toImportedLocation,
+  type InterchangeImportResult,
+  type SkippedFeature,
+} from './interchange';
+
+const toGpxPoint = (tag: 'wpt' | 'rtept', loc: Location, indent: string): string => [
+  `${indent}<${tag} lat="${loc.coordinates[0]}" lon="${loc.coordinates[1]}">`,
+  `${indent}  <name>${escapeXml(loc.title)}</name>`,
+  tag === 'wpt' && loc.description ? `${indent}  <desc>${escapeXml(loc.description)}</desc>` : null,
+  `${indent}</${tag}>`,
+].filter(Boolean).join('\n');
+
+export const locationsToGpx = (locations: Location[], documentName: string): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<gpx version="1.1" creator="Map Admin" xmlns="http://www.topografix.com/GPX/1/1">',
+  '  <metadata>',
+  `    <name>${escapeXml(documentName)}</name>`,
+  '  </metadata>',
+  ...locations.map(loc => toGpxPoint('wpt', loc, '  ')),
+  '  <rte>',
+  `    <name>${escapeXml(documentName)}</name>`,
+  ...locations.map(loc => toGpxPoint('rtept', loc, '    ')),
+  '  </rte>',
+  '</gpx>',
+  '',
+].join('\n');
+
+// Imports waypoints first, then route points. A route point that repeats a
+// waypoint (same name and position, as in our own exports) is not duplicated.
+export const gpxToLocations = (text: string): InterchangeImportResult => {
+  const doc = parseXml(text);
+  const points = [
+    ...Array.from(doc.getElementsByTagNameNS('*', 'wpt')),
+    ...Array.from(doc.getElementsByTagNameNS('*', 'rtept')),
+  ];
+  const locations: Location[] = [];
+  const skipped: SkippedFeature[] = [];
+  const seen = new Set<string>();
+
+  points.forEach((point, index) => {
+    const name = getChildText(point, 'name');
+    const skip = (reason: SkippedFeature['reason']) => skipped.push({ index, name, reason });
+
+    const lat = parseFloat(point.getAttribute('lat') ?? '');
+    const lon = parseFloat(point.getAttribute('lon') ?? '');
+    if (!isValidLatLng(lat, lon)) {
+      skip('skipReason_coordinates');
+      return;
+    }
+    if (!name) {
+      skip('skipReason_title');
+      return;
+    }
+
+    const key = `${name}|${lat}|${lon}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const location = toImportedLocation({
+      title: name,
+      coordinates: [lat, lon],
+      description: getChildText(point, 'desc') ?? getChildText(point, 'cmt') ?? '',
+    }, index);
+    if (!location) {
+      skip('skipReason_invalid');
+      return;
+    }
+    locations.push(location);
+  });
+
+  return { locations, skipped };
+};
@@ -0,0 +1,39 @@
+// Types a canvas can redraw without losing anything that matters. Animated
+// GIFs and SVGs would be flattened, so they are uploaded untouched.
+const COMPRESSIBLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/bmp'];
+
+const DEFAULT_QUALITY = 0.82;
+
+interface CompressionOptions {
+  // Longest side of the result, in pixels.
+  maxDimension: number;
+  // JPEG quality from 0 to 1.
+  quality?: number;
+}
+
+// Scales an image down to fit `maxDimension` and re-encodes it. PNGs stay PNG
+// so transparency survives; everything else becomes JPEG. The original is kept
+// when it is already small enough and re-encoding wouldn't shrink it.
+export const compressImage = async (file: File, { maxDimension, quality = DEFAULT_QUALITY }: CompressionOptions): Promise<File> => {
+  if (!COMPRESSIBLE_TYPES.includes(file.type)) return file;
+
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    return file;
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+  if (!blob || (scale === 1 && blob.size >= file.size)) return file;
+
+  const name = type === 'image/jpeg' ? file.name.replace(/\.[^.]+$/, '') + '.jpg' : file.name;
+  return new File([blob], name, { type, lastModified: file.lastModified });
+};
@@ -0,0 +1,105 @@
+import type { LatLngTuple } from 'leaflet';
+import type { Location } from '../types';
+import { repairLocation, validateLocation } from './artifactSchema';
+
+// Translation keys (see locales/en.ts) explaining why a feature was not imported.
+export type SkipReason =
+  | 'skipReason_geometry'
+  | 'skipReason_coordinates'
+  | 'skipReason_title'
+  | 'skipReason_invalid';
+
+export interface SkippedFeature {
+  index: number;
+  name: string | null;
+  reason: SkipReason;
+}
+
+export interface InterchangeImportResult {
+  locations: Location[];
+  skipped: SkippedFeature[];
+}
+
+export const isValidLatLng = (lat: number, lon: number): boolean =>
+  Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+
+export const createImportedId = (index: number): string => `${new Date().toISOString()}_${index}`;
+
+interface ImportedFields {
+  id?: unknown;
+  title: string;
+  coordinates: LatLngTuple;
+  country?: unknown;
+  description?: unknown;
+  image?: unknown;
+  video?: unknown;
+  audio?: unknown;
+  questions?: unknown;
+  block_navigation?: unknown;
+  passMark?: unknown;
+  markerIcon?: unknown;
+  markerColor?: unknown;
+  translations?: unknown;
+}
+
+// Builds a Location from loosely-typed interchange fields, falling back to the
+// schema repair rules for anything that doesn't validate as-is.
+export const toImportedLocation = (fields: ImportedFields, index: number): Location | null => {
+  const candidate = {
+    id: typeof fields.id === 'string' && fields.id ? fields.id : createImportedId(index),
+    title: fields.title,
+    country: typeof fields.country === 'string' ? fields.country : '',
+    description: typeof fields.description === 'string' ? fields.description : '',
+    image: typeof fields.image === 'string' ? fields.image : '',
+    video: typeof fields.video === 'string' && fields.video ? fields.video : null,
+    audio: typeof fields.audio === 'string' && fields.audio ? fields.audio : null,
+    coordinates: fields.coordinates,
+    questions: fields.questions,
+    block_navigation: fields.block_navigation,
+    passMark: fields.passMark ?? undefined,
+    markerIcon: fields.markerIcon ?? undefined,
+    markerColor: fields.markerColor ?? undefined,
+    translations: fields.translations ?? undefined,
+  };
+  if (validateLocation(candidate, index).length === 0) {
+    return candidate as Location;
+  }
+  return repairLocation(candidate, index);
+};
+
+export type InterchangeFormat = 'json' | 'kml' | 'gpx' | 'csv';
+
+// Sniffs the file content first, since extensions and MIME types from the
+// file picker are unreliable across operating systems.
+export const detectInterchangeFormat = (fileName: string, text: string): InterchangeFormat => {
+  const head = text.slice(0, 2048).toLowerCase();
+  if (head.includes('<kml')) return 'kml';
+  if (head.includes('<gpx')) return 'gpx';
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'kml' || extension === 'gpx') return extension;
+  if (extension === 'csv' || extension === 'tsv' || extension === 'txt') return 'csv';
+  return 'json';
+};
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not well-formed XML.');
+  }
+  return doc;
+};
+
+// Text of the first direct child element with the given local name, ignoring namespaces.
+export const getChildText = (element: Element, localName: string): string | null => {
+  const child = Array.from(element.children).find(el => el.localName === localName);
+  const text = child?.textContent?.trim();
+  return text ? text : null;
+};
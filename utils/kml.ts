@@ -0,0 +1,113 @@
+import type { Location } from '../types';
+import {
+  escapeXml,
+  getChildText,
+  isValidLatLng,
+  parseXml,
+  toImportedLocation,
+  type InterchangeImportResult,
+  type SkippedFeature,
+} from './interchange';
+
+// Placemark id used for the exported tour path so it is not re-imported as a stop.
+const TOUR_PATH_ID = 'tour-path';
+const EXTENDED_FIELDS = ['country', 'image', 'video', 'audio'] as const;
+
+const toKmlCoordinate = ([lat, lon]: [number, number]): string => `${lon},${lat},0`;
+
+export const locationsToKml = (locations: Location[], documentName: string): string => {
+  const placemarks = locations.map(loc => {
+    const extendedData = EXTENDED_FIELDS
+      .filter(field => loc[field])
+      .map(field => `          <Data name="${field}"><value>${escapeXml(loc[field] as string)}</value></Data>`)
+      .join('\n');
+    return [
+      `    <Placemark id="${escapeXml(loc.id)}">`,
+      `      <name>${escapeXml(loc.title)}</name>`,
+      `      <description>${escapeXml(loc.description)}</description>`,
+      extendedData ? `      <ExtendedData>\n${extendedData}\n      </ExtendedData>` : null,
+      `      <Point><coordinates>${toKmlCoordinate(loc.coordinates as [number, number])}</coordinates></Point>`,
+      '    </Placemark>',
+    ].filter(Boolean).join('\n');
+  });
+
+  if (locations.length > 1) {
+    placemarks.push([
+      `    <Placemark id="${TOUR_PATH_ID}">`,
+      `      <name>${escapeXml(documentName)}</name>`,
+      '      <LineString>',
+      '        <tessellate>1</tessellate>',
+      `        <coordinates>${locations.map(loc => toKmlCoordinate(loc.coordinates as [number, number])).join(' ')}</coordinates>`,
+      '      </LineString>',
+      '    </Placemark>',
+    ].join('\n'));
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(documentName)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+};
+
+const getExtendedData = (placemark: Element): { [name: string]: string } => {
+  const data: { [name: string]: string } = {};
+  Array.from(placemark.getElementsByTagNameNS('*', 'Data')).forEach(el => {
+    const name = el.getAttribute('name');
+    const value = getChildText(el, 'value');
+    if (name && value !== null) data[name] = value;
+  });
+  return data;
+};
+
+export const kmlToLocations = (text: string): InterchangeImportResult => {
+  const doc = parseXml(text);
+  const placemarks = Array.from(doc.getElementsByTagNameNS('*', 'Placemark'))
+    .filter(placemark => placemark.getAttribute('id') !== TOUR_PATH_ID);
+  const locations: Location[] = [];
+  const skipped: SkippedFeature[] = [];
+
+  placemarks.forEach((placemark, index) => {
+    const name = getChildText(placemark, 'name');
+    const skip = (reason: SkippedFeature['reason']) => skipped.push({ index, name, reason });
+
+    const point = placemark.getElementsByTagNameNS('*', 'Point')[0];
+    if (!point) {
+      skip('skipReason_geometry');
+      return;
+    }
+    const [lon, lat] = (getChildText(point, 'coordinates') ?? '').split(',').map(part => parseFloat(part));
+    if (!isValidLatLng(lat, lon)) {
+      skip('skipReason_coordinates');
+      return;
+    }
+    if (!name) {
+      skip('skipReason_title');
+      return;
+    }
+
+    const extendedData = getExtendedData(placemark);
+    const location = toImportedLocation({
+      id: placemark.getAttribute('id') ?? undefined,
+      title: name,
+      coordinates: [lat, lon],
+      description: getChildText(placemark, 'description') ?? '',
+      country: extendedData.country,
+      image: extendedData.image,
+      video: extendedData.video,
+      audio: extendedData.audio,
+    }, index);
+    if (!location) {
+      skip('skipReason_invalid');
+      return;
+    }
+    locations.push(location);
+  });
+
+  return { locations, skipped };
+};
@@ -0,0 +1,163 @@
+import type { LocalizedContent, MatchingPair, Question } from '../types';
+import type { AiSchema, PromptValues } from '../services/ai';
+
+// The text of one question as sent for translation. Answers that point at an
+// option are left out and follow their option by position instead, so the
+// translated answer always matches a translated option.
+interface TranslatableQuestion {
+  id: string;
+  text: string;
+  answer?: string;
+  options?: string[];
+  items?: string[];
+  pairs?: MatchingPair[];
+  explanation?: string;
+  feedbackCorrect?: string;
+  feedbackIncorrect?: string;
+}
+
+interface TranslatableContent {
+  title: string;
+  description: string;
+  questions: TranslatableQuestion[];
+}
+
+const stringList: AiSchema = { type: 'array', items: { type: 'string' } };
+
+export const TRANSLATION_SCHEMA: AiSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    description: { type: 'string' },
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          text: { type: 'string' },
+          answer: { type: 'string' },
+          options: stringList,
+          items: stringList,
+          pairs: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { prompt: { type: 'string' }, match: { type: 'string' } },
+              required: ['prompt', 'match'],
+            },
+          },
+          explanation: { type: 'string' },
+          feedbackCorrect: { type: 'string' },
+          feedbackIncorrect: { type: 'string' },
+        },
+        required: ['id', 'text'],
+      },
+    },
+  },
+  required: ['title', 'description', 'questions'],
+};
+
+const toTranslatable = (question: Question): TranslatableQuestion => ({
+  id: question.id,
+  text: question.text,
+  answer: question.type === 'short_answer' ? question.answer : undefined,
+  options: question.options,
+  items: question.items,
+  pairs: question.pairs,
+  explanation: question.explanation,
+  feedbackCorrect: question.feedbackCorrect,
+  feedbackIncorrect: question.feedbackIncorrect,
+});
+
+// Fills in the locationTranslation prompt template. Languages are named in English.
+export const translationPromptValues = (content: LocalizedContent, sourceLanguageName: string, targetLanguageName: string): PromptValues<'locationTranslation'> => {
+  const translatable: TranslatableContent = {
+    title: content.title,
+    description: content.description,
+    questions: (content.questions ?? []).map(toTranslatable),
+  };
+  return { source: sourceLanguageName, target: targetLanguageName, content: JSON.stringify(translatable) };
+};
+
+// Each element's tag and attributes, in document order.
+const markupOf = (html: string): string[] =>
+  Array.from(new DOMParser().parseFromString(html, 'text/html').body.querySelectorAll('*')).map(element =>
+    [element.tagName, ...Array.from(element.attributes).map(attribute => `${attribute.name}=${attribute.value}`).sort()].join(' ')
+  );
+
+// Whether two descriptions differ only in their text, so a translation keeps
+// the author's formatting and links and adds no markup of its own.
+export const sameMarkup = (a: string, b: string): boolean => {
+  const markupA = markupOf(a);
+  const markupB = markupOf(b);
+  return markupA.length === markupB.length && markupA.every((element, i) => element === markupB[i]);
+};
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+// A translated list that lines up item for item with `source`, or null.
+const translatedList = (source: string[] | undefined, value: unknown): string[] | undefined | null => {
+  if (!source) return undefined;
+  if (!Array.isArray(value) || value.length !== source.length || !value.every(isText)) return null;
+  const list = value.map(item => item.trim());
+  return new Set(list).size === new Set(source).size ? list : null;
+};
+
+// An optional text, translated when the source has one.
+const translatedText = (source: string | undefined, value: unknown): string | undefined =>
+  source === undefined ? undefined : isText(value) ? value.trim() : source;
+
+const translateQuestion = (source: Question, raw: any): Question | null => {
+  if (!raw || typeof raw !== 'object' || !isText(raw.text)) return null;
+  const options = translatedList(source.options, raw.options);
+  const items = translatedList(source.items, raw.items);
+  const prompts = translatedList(source.pairs?.map(pair => pair.prompt), Array.isArray(raw.pairs) ? raw.pairs.map((pair: any) => pair?.prompt) : raw.pairs);
+  const matches = translatedList(source.pairs?.map(pair => pair.match), Array.isArray(raw.pairs) ? raw.pairs.map((pair: any) => pair?.match) : raw.pairs);
+  if (options === null || items === null || prompts === null || matches === null) return null;
+  if (source.type === 'short_answer' && !isText(raw.answer)) return null;
+
+  const optionFor = (answer: string) => options?.[source.options?.indexOf(answer) ?? -1] ?? answer;
+  return {
+    ...structuredClone(source),
+    text: raw.text.trim(),
+    options,
+    answer: source.type === 'short_answer' ? raw.answer.trim() : source.type === 'multiple_choice' ? optionFor(source.answer) : source.answer,
+    answers: source.answers?.map(optionFor),
+    items,
+    pairs: prompts && matches ? prompts.map((prompt, i) => ({ prompt, match: matches[i] })) : undefined,
+    explanation: translatedText(source.explanation, raw.explanation),
+    feedbackCorrect: translatedText(source.feedbackCorrect, raw.feedbackCorrect),
+    feedbackIncorrect: translatedText(source.feedbackIncorrect, raw.feedbackIncorrect),
+  };
+};
+
+// Applies the model's JSON reply to `source`. Questions keep their ids, types,
+// points and map targets, so a learner's answers carry over between
+// languages. Null when the reply doesn't line up with the source, e.g. a
+// question or option went missing or the description's markup changed.
+export const parseTranslation = (source: LocalizedContent, json: string): LocalizedContent | null => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!isText(data?.title) || typeof data.description !== 'string') return null;
+  if (source.description && (!data.description.trim() || !sameMarkup(source.description, data.description))) return null;
+
+  let questions: Question[] | undefined;
+  if (source.questions) {
+    const replies: unknown[] = Array.isArray(data.questions) ? data.questions : [];
+    if (replies.length !== source.questions.length) return null;
+    questions = [];
+    for (const [index, question] of source.questions.entries()) {
+      const raw = replies.find((reply: any) => reply?.id === question.id) ?? replies[index];
+      const translated = translateQuestion(question, raw);
+      if (!translated) return null;
+      questions.push(translated);
+    }
+  }
+
+  return { title: data.title.trim(), description: source.description ? data.description.trim() : '', questions };
+};
@@ -0,0 +1,68 @@
+import L from 'leaflet';
+import type { Location, MarkerColorName, MarkerIconName } from '../types';
+
+export const MARKER_COLORS: { [name in MarkerColorName]: string } = {
+  teal: '#0d9488',
+  sky: '#0284c7',
+  indigo: '#4f46e5',
+  violet: '#7c3aed',
+  rose: '#e11d48',
+  red: '#dc2626',
+  amber: '#d97706',
+  green: '#16a34a',
+  slate: '#475569',
+};
+
+// SVG paths drawn on a 20×20 grid, filled with the marker color.
+export const MARKER_ICONS: { [name in MarkerIconName]: { path: string; color: MarkerColorName } } = {
+  landmark: { path: 'M10 1.5l8 4V7H2V5.5zM3 8h2v7H3zm4 0h2v7H7zm4 0h2v7h-2zm4 0h2v7h-2zM2 16h16v2H2z', color: 'amber' },
+  nature: { path: 'M10 1l6 8h-3l4 6h-6v4H9v-4H3l4-6H4z', color: 'green' },
+  water: { path: 'M10 2s-5.5 6.2-5.5 10.3a5.5 5.5 0 0011 0C15.5 8.2 10 2 10 2z', color: 'sky' },
+  viewpoint: { path: 'M7 4L5.5 6H3a1 1 0 00-1 1v9a1 1 0 001 1h14a1 1 0 001-1V7a1 1 0 00-1-1h-2.5L13 4zm3 4a3.5 3.5 0 110 7 3.5 3.5 0 010-7z', color: 'violet' },
+  star: { path: 'M10 1.5l2.6 5.5 5.9.6-4.5 4 1.3 5.9-5.3-3-5.3 3 1.3-5.9-4.5-4 5.9-.6z', color: 'amber' },
+  flag: { path: 'M4 2h1.5v16H4zM6 3h10l-2.5 3.5L16 10H6z', color: 'red' },
+  heart: { path: 'M10 17.5s-7-4.3-7-9.6a3.6 3.6 0 017-1.3 3.6 3.6 0 017 1.3c0 5.3-7 9.6-7 9.6z', color: 'rose' },
+  info: { path: 'M10 2a8 8 0 100 16 8 8 0 000-16zM9 9h2v6H9zm0-4h2v2H9z', color: 'indigo' },
+};
+
+export const MARKER_ICON_NAMES = Object.keys(MARKER_ICONS) as MarkerIconName[];
+export const MARKER_COLOR_NAMES = Object.keys(MARKER_COLORS) as MarkerColorName[];
+
+const DEFAULT_MARKER_COLOR: MarkerColorName = 'teal';
+
+// An explicit color wins over the icon's category color.
+export const getMarkerColor = (location: Pick<Location, 'markerIcon' | 'markerColor'>): string =>
+  MARKER_COLORS[location.markerColor ?? (location.markerIcon ? MARKER_ICONS[location.markerIcon].color : DEFAULT_MARKER_COLOR)];
+
+export type StopMarkerState = 'default' | 'selected' | 'new' | 'editing';
+
+interface StopIconOptions {
+  // Position in the tour, 1-based.
+  number: number;
+  state: StopMarkerState;
+  color: string;
+  icon?: MarkerIconName;
+}
+
+// Identical markers share one icon instance, so re-renders don't rebuild the DOM.
+const iconCache = new Map<string, L.DivIcon>();
+
+export const getStopIcon = ({ number, state, color, icon }: StopIconOptions): L.DivIcon => {
+  const key = `${number}|${state}|${color}|${icon ?? ''}`;
+  let divIcon = iconCache.get(key);
+  if (!divIcon) {
+    const badge = icon
+      ? `<span class="stop-marker__badge"><svg viewBox="0 0 20 20" fill="currentColor" fill-rule="evenodd"><path d="${MARKER_ICONS[icon].path}"/></svg></span>`
+      : '';
+    divIcon = L.divIcon({
+      html: `<div class="stop-marker stop-marker--${state}" style="--marker-color: ${color}"><span class="stop-marker__pin"></span><span class="stop-marker__number${number > 99 ? ' stop-marker__number--small' : ''}">${number}</span>${badge}</div>`,
+      className: 'stop-marker-icon',
+      iconSize: [30, 36],
+      // The tip of the pin.
+      iconAnchor: [15, 35],
+      popupAnchor: [0, -33],
+    });
+    iconCache.set(key, divIcon);
+  }
+  return divIcon;
+};
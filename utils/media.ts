@@ -0,0 +1,96 @@
+// Recognizes the video and audio links a location can carry and describes how
+// to play them: YouTube and Vimeo pages become embedded players, direct MP4,
+// MP3 and OGG files play in the browser's own player.
+
+export type MediaField = 'video' | 'audio';
+
+export type MediaSource =
+  | { type: 'youtube'; id: string; embedUrl: string }
+  | { type: 'vimeo'; id: string; embedUrl: string }
+  | { type: 'file'; field: MediaField; url: string; mimeType: string };
+
+const FILE_TYPES: { [field in MediaField]: { [extension: string]: string } } = {
+  video: { mp4: 'video/mp4', m4v: 'video/mp4', ogv: 'video/ogg', ogg: 'video/ogg' },
+  audio: { mp3: 'audio/mpeg', ogg: 'audio/ogg', oga: 'audio/ogg' },
+};
+
+// The file types each field can play, e.g. for a file picker's `accept`.
+export const PLAYABLE_TYPES: { [field in MediaField]: string[] } = {
+  video: [...new Set(Object.values(FILE_TYPES.video))],
+  audio: [...new Set(Object.values(FILE_TYPES.audio))],
+};
+
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'music.youtube.com', 'youtube-nocookie.com', 'www.youtube-nocookie.com'];
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+// Start offsets come as `90`, `90s` or `1m30s`.
+const parseStartSeconds = (value: string | null): number => {
+  if (!value) return 0;
+  if (/^\d+$/.test(value)) return Number(value);
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!match) return 0;
+  const [, hours = '0', minutes = '0', seconds = '0'] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+};
+
+const youtubeSource = (url: URL): MediaSource | null => {
+  let id: string | null = null;
+  if (url.hostname === 'youtu.be') {
+    id = url.pathname.slice(1).split('/')[0];
+  } else if (YOUTUBE_HOSTS.includes(url.hostname)) {
+    const [section, pathId] = url.pathname.split('/').filter(Boolean);
+    id = section === 'watch' ? url.searchParams.get('v') : ['embed', 'shorts', 'live', 'v'].includes(section) ? pathId : null;
+  }
+  if (!id || !YOUTUBE_ID.test(id)) return null;
+  const start = parseStartSeconds(url.searchParams.get('t') ?? url.searchParams.get('start'));
+  return {
+    type: 'youtube',
+    id,
+    embedUrl: `https://www.youtube-nocookie.com/embed/${id}${start > 0 ? `?start=${start}` : ''}`,
+  };
+};
+
+// Unlisted Vimeo videos carry a privacy hash after the id, which the player needs.
+const vimeoSource = (url: URL): MediaSource | null => {
+  if (!['vimeo.com', 'www.vimeo.com', 'player.vimeo.com'].includes(url.hostname)) return null;
+  const segments = url.pathname.split('/').filter(Boolean);
+  const index = segments.findIndex(segment => /^\d+$/.test(segment));
+  if (index === -1) return null;
+  const id = segments[index];
+  const hash = url.searchParams.get('h') ?? (segments[index + 1] && /^[\da-f]+$/i.test(segments[index + 1]) ? segments[index + 1] : null);
+  return {
+    type: 'vimeo',
+    id,
+    embedUrl: `https://player.vimeo.com/video/${id}${hash ? `?h=${hash}` : ''}`,
+  };
+};
+
+// Uploaded files may be stored as data URLs, which name their type directly.
+const fileSource = (url: URL, raw: string, field: MediaField): MediaSource | null => {
+  const types = FILE_TYPES[field];
+  if (url.protocol === 'data:') {
+    const mimeType = raw.slice(5).split(/[;,]/)[0].toLowerCase();
+    return Object.values(types).includes(mimeType) ? { type: 'file', field, url: raw, mimeType } : null;
+  }
+  const extension = url.pathname.split('.').pop()?.toLowerCase() ?? '';
+  const mimeType = types[extension];
+  return mimeType ? { type: 'file', field, url: raw, mimeType } : null;
+};
+
+// How to play `value` as the location's `field`, or null when it isn't a link
+// the builder knows how to play there.
+export const parseMediaUrl = (value: string, field: MediaField): MediaSource | null => {
+  const raw = value.trim();
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+  if (url.protocol === 'data:') return fileSource(url, raw, field);
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+  if (field === 'video') {
+    return youtubeSource(url) ?? vimeoSource(url) ?? fileSource(url, raw, field);
+  }
+  return fileSource(url, raw, field);
+};
@@ -0,0 +1,101 @@
+// A small ICU MessageFormat subset for the interface catalogs:
+//   {name}                          a value; numbers are formatted for the locale
+//   {name, number}                  a number formatted for the locale
+//   {name, plural, =0 {…} one {…} other {…}}
+// Plural branches are picked with the locale's plural rules (Arabic has zero,
+// one, two, few, many and other), and `#` inside a branch is the number.
+
+export type MessageValues = { [name: string]: string | number };
+
+type Trim<S extends string> =
+  S extends ` ${infer Rest}` ? Trim<Rest> : S extends `${infer Rest} ` ? Trim<Rest> : S;
+
+type ArgumentType<Format extends string> =
+  Trim<Format> extends 'number' | 'plural' ? number : string | number;
+
+// The name and type of the placeholder whose body starts `Body`.
+type Placeholder<Body extends string> =
+  Body extends `${infer Name},${infer Format}`
+    ? { [K in Trim<Name>]: ArgumentType<Format extends `${infer Kind},${string}` ? Kind : Format> }
+    : { [K in Trim<Body>]: string | number };
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+// Walks a message brace by brace, collecting its top-level placeholders;
+// the nested braces of plural branches are skipped.
+type CollectArgs<S extends string, Depth extends unknown[], Args> =
+  Depth extends []
+    ? S extends `${string}{${infer After}`
+      ? CollectArgs<After, [unknown], Args & (After extends `${infer Body}}${string}` ? Placeholder<Body> : {})>
+      : Args
+    : S extends `${infer Before}}${infer After}`
+      ? Before extends `${string}{${infer Inner}`
+        ? CollectArgs<`${Inner}}${After}`, [...Depth, unknown], Args>
+        : CollectArgs<After, Depth extends [unknown, ...infer Outer] ? Outer : [], Args>
+      : Args;
+
+// The values a message needs, typed from its text: `"{count, plural, …}"`
+// needs `{ count: number }`.
+export type MessageArgs<S extends string> = Simplify<CollectArgs<S, [], {}>>;
+
+// Index of the brace closing the one at `open`, or -1.
+const matchingBrace = (text: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    if (text[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+const formatNumber = (value: number, locale: string): string =>
+  new Intl.NumberFormat(locale).format(value);
+
+// `one {# stop} other {# stops}` as { one: '# stop', other: '# stops' }.
+const parseBranches = (text: string): { [selector: string]: string } => {
+  const branches: { [selector: string]: string } = {};
+  let i = 0;
+  while (i < text.length) {
+    const open = text.indexOf('{', i);
+    if (open === -1) break;
+    const close = matchingBrace(text, open);
+    if (close === -1) break;
+    branches[text.slice(i, open).trim()] = text.slice(open + 1, close);
+    i = close + 1;
+  }
+  return branches;
+};
+
+const formatPlural = (value: number, branchText: string, values: MessageValues, locale: string): string => {
+  const branches = parseBranches(branchText);
+  const branch = branches[`=${value}`] ?? branches[new Intl.PluralRules(locale).select(value)] ?? branches.other ?? '';
+  return formatMessage(branch, values, locale, formatNumber(value, locale));
+};
+
+const formatArgument = (body: string, values: MessageValues, locale: string): string => {
+  const [name, format = '', ...rest] = body.split(',');
+  const value = values[name.trim()];
+  if (value === undefined) return `{${body}}`;
+  if (format.trim() === 'plural') {
+    return formatPlural(Number(value), rest.join(','), values, locale);
+  }
+  return typeof value === 'number' ? formatNumber(value, locale) : value;
+};
+
+// `pound` is what `#` stands for inside a plural branch.
+export const formatMessage = (message: string, values: MessageValues, locale: string, pound?: string): string => {
+  const literal = (text: string) => (pound === undefined ? text : text.split('#').join(pound));
+  let result = '';
+  let i = 0;
+  while (i < message.length) {
+    const open = message.indexOf('{', i);
+    const close = open === -1 ? -1 : matchingBrace(message, open);
+    if (close === -1) {
+      result += literal(message.slice(i));
+      break;
+    }
+    result += literal(message.slice(i, open)) + formatArgument(message.slice(open + 1, close), values, locale);
+    i = close + 1;
+  }
+  return result;
+};
@@ -0,0 +1,171 @@
+import type { LatLngTuple } from 'leaflet';
+import type { MapTarget, Question, QuizResponse } from '../types';
+import { distanceToPolygonEdge, haversineDistance, isPointInPolygon } from './geo';
+
+// Short answers are compared loosely: case, surrounding and repeated
+// whitespace don't make an answer wrong.
+const normalizeAnswer = (value: string): string =>
+  value.trim().replace(/\s+/g, ' ').toLocaleLowerCase();
+
+// Questions are shuffled the same way on every render, and for every learner.
+const seededRandom = (seed: string): (() => number) => {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(state, 31) + seed.charCodeAt(i)) | 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Never returns the list unchanged, so an ordering question can't start solved.
+export const shuffleForQuestion = <T,>(values: T[], seed: string): T[] => {
+  const random = seededRandom(seed);
+  const shuffled = [...values];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  if (shuffled.length > 1 && shuffled.every((value, index) => value === values[index])) {
+    shuffled.push(shuffled.shift() as T);
+  }
+  return shuffled;
+};
+
+// What a learner starts from: ordering questions begin shuffled, the other
+// list types with nothing chosen.
+export const initialResponse = (question: Question): QuizResponse => {
+  switch (question.type) {
+    case 'ordering':
+      return shuffleForQuestion(question.items ?? [], question.id);
+    case 'multi_select':
+      return [];
+    case 'matching':
+      return (question.pairs ?? []).map(() => '');
+    default:
+      return '';
+  }
+};
+
+export const isAnswered = (question: Question, response: QuizResponse): boolean => {
+  if (typeof response === 'string') return response.trim() !== '';
+  if (question.type === 'matching') return response.every(match => match !== '');
+  return response.length > 0;
+};
+
+export const DEFAULT_TARGET_RADIUS = 500;
+
+// Map answers are stored as "lat,lng" so every response stays a string.
+export const formatMapResponse = ([lat, lon]: LatLngTuple): string => `${lat.toFixed(6)},${lon.toFixed(6)}`;
+
+export const parseMapResponse = (response: QuizResponse): LatLngTuple | null => {
+  if (typeof response !== 'string' || !response) return null;
+  const [lat, lon] = response.split(',').map(Number);
+  return Number.isFinite(lat) && Number.isFinite(lon) ? [lat, lon] : null;
+};
+
+// A point target needs its position; a polygon needs at least three corners.
+export const isCompleteTarget = (target: MapTarget | undefined): target is MapTarget =>
+  !!target && (target.type === 'point' || target.coordinates.length >= 3);
+
+// How far outside the target an answer landed, in meters; 0 when it's inside.
+export const distanceFromTarget = (target: MapTarget, point: LatLngTuple): number => {
+  if (target.type === 'point') {
+    return Math.max(0, haversineDistance(target.coordinates, point) - target.radius);
+  }
+  return isPointInPolygon(point, target.coordinates) ? 0 : distanceToPolygonEdge(point, target.coordinates);
+};
+
+// Distance outside the target at which a map answer stops earning credit: three
+// times the radius of a point target, or the span of a polygon.
+const zeroCreditDistance = (target: MapTarget): number => {
+  if (target.type === 'point') return Math.max(target.radius, 1) * 3;
+  const lats = target.coordinates.map(([lat]) => lat);
+  const lons = target.coordinates.map(([, lon]) => lon);
+  return Math.max(
+    haversineDistance([Math.min(...lats), Math.min(...lons)], [Math.max(...lats), Math.max(...lons)]),
+    1
+  );
+};
+
+// Whether an author has filled in everything a question needs to be answerable.
+export const isQuestionComplete = (question: Question): boolean => {
+  const filled = (values: string[] | undefined) => (values ?? []).filter(value => value.trim() !== '');
+  switch (question.type) {
+    case 'map_location':
+      return isCompleteTarget(question.target);
+    case 'multi_select':
+      return filled(question.options).length >= 2 && (question.answers ?? []).length > 0;
+    case 'ordering':
+      return filled(question.items).length >= 2 && filled(question.items).length === (question.items ?? []).length;
+    case 'matching':
+      return (question.pairs ?? []).length >= 2 &&
+        (question.pairs ?? []).every(pair => pair.prompt.trim() !== '' && pair.match.trim() !== '');
+    default:
+      return true;
+  }
+};
+
+const sameSet = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every(value => b.includes(value));
+
+// The share of a question's points an answer earns, from 0 to 1. Map answers
+// inside the target earn full credit, then less the further away they land.
+// Ordering and matching answers earn a share for each item in the right place;
+// multi-select answers need exactly the correct options.
+export const gradeAnswer = (question: Question, response: QuizResponse): number => {
+  if (!isAnswered(question, response)) return 0;
+  if (Array.isArray(response)) {
+    switch (question.type) {
+      case 'multi_select':
+        return sameSet(response, question.answers ?? []) ? 1 : 0;
+      case 'ordering': {
+        const items = question.items ?? [];
+        if (items.length === 0) return 0;
+        return items.filter((item, index) => response[index] === item).length / items.length;
+      }
+      case 'matching': {
+        const pairs = question.pairs ?? [];
+        if (pairs.length === 0) return 0;
+        return pairs.filter((pair, index) => response[index] === pair.match).length / pairs.length;
+      }
+      default:
+        return 0;
+    }
+  }
+  switch (question.type) {
+    case 'map_location': {
+      const point = parseMapResponse(response);
+      if (!point || !isCompleteTarget(question.target)) return 0;
+      const distance = distanceFromTarget(question.target, point);
+      return Math.max(0, 1 - distance / zeroCreditDistance(question.target));
+    }
+    case 'short_answer':
+      return normalizeAnswer(response) === normalizeAnswer(question.answer) ? 1 : 0;
+    default:
+      return response === question.answer ? 1 : 0;
+  }
+};
+
+export const isAnswerCorrect = (question: Question, response: QuizResponse): boolean =>
+  gradeAnswer(question, response) === 1;
+
+export const DEFAULT_QUESTION_POINTS = 1;
+
+export const questionPoints = (question: Question): number => question.points ?? DEFAULT_QUESTION_POINTS;
+
+export interface QuizScore {
+  earned: number;
+  possible: number;
+}
+
+// A quiz with nothing to score counts as full marks.
+export const scorePercent = ({ earned, possible }: QuizScore): number =>
+  possible > 0 ? (earned / possible) * 100 : 100;
+
+// Without a pass mark there is nothing to fail.
+export const hasPassed = (score: QuizScore, passMark: number | null | undefined): boolean =>
+  passMark === null || passMark === undefined || scorePercent(score) >= passMark;
@@ -0,0 +1,128 @@
+import type { Question, QuestionType } from '../types';
+import type { AiSchema, PromptValues } from '../services/ai';
+import { validateQuestion } from './artifactSchema';
+import { isQuestionComplete } from './quiz';
+
+// Map questions need a target drawn by the author, so they aren't generated.
+export const GENERATED_QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'multi_select', 'true_false', 'short_answer', 'ordering', 'matching'];
+
+export const DEFAULT_GENERATED_QUESTION_COUNT = 5;
+
+export interface QuizGenerationInput {
+  title: string;
+  // HTML, as stored on the location.
+  description: string;
+  country: string;
+  // Name of the language to write in, e.g. "Arabic".
+  languageName: string;
+  count?: number;
+}
+
+// Structured output schema handed to the model. Every field but `type` and
+// `text` is optional because each question type uses a different subset.
+export const GENERATED_QUIZ_SCHEMA: AiSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: GENERATED_QUESTION_TYPES },
+          text: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' } },
+          answer: { type: 'string' },
+          answers: { type: 'array', items: { type: 'string' } },
+          items: { type: 'array', items: { type: 'string' } },
+          pairs: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { prompt: { type: 'string' }, match: { type: 'string' } },
+              required: ['prompt', 'match'],
+            },
+          },
+          explanation: { type: 'string' },
+        },
+        required: ['type', 'text'],
+      },
+    },
+  },
+  required: ['questions'],
+};
+
+const htmlToText = (html: string): string =>
+  new DOMParser().parseFromString(html, 'text/html').body.textContent?.trim() ?? '';
+
+// Fills in the quizQuestions prompt template.
+export const quizPromptValues = ({ title, description, country, languageName, count = DEFAULT_GENERATED_QUESTION_COUNT }: QuizGenerationInput): PromptValues<'quizQuestions'> => ({
+  count,
+  title,
+  country: country || 'an unknown country',
+  description: htmlToText(description),
+  types: GENERATED_QUESTION_TYPES.join(', '),
+  language: languageName,
+});
+
+const stringList = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(Boolean) : undefined;
+
+// Whether a proposed question, as generated or after the author's edits, has
+// everything the quiz needs, including a correct answer the learner can give.
+export const isGeneratedQuestionValid = (question: Question): boolean => {
+  if (!question.text.trim() || validateQuestion(question, 0, 'question').length > 0 || !isQuestionComplete(question)) return false;
+  switch (question.type) {
+    case 'short_answer':
+      return question.answer.trim() !== '';
+    case 'true_false':
+      return question.answer === 'true' || question.answer === 'false';
+    case 'multiple_choice':
+      return (question.options ?? []).length >= 2 && (question.options ?? []).includes(question.answer);
+    default:
+      return true;
+  }
+};
+
+// Turns one proposed question into a Question, or null when it's unusable.
+const toQuestion = (raw: any, index: number): Question | null => {
+  if (!raw || typeof raw !== 'object' || !GENERATED_QUESTION_TYPES.includes(raw.type)) return null;
+  const type: QuestionType = raw.type;
+  const text = typeof raw.text === 'string' ? raw.text.trim() : '';
+  const answer = typeof raw.answer === 'string' ? raw.answer.trim() : '';
+  const explanation = typeof raw.explanation === 'string' && raw.explanation.trim() ? raw.explanation.trim() : undefined;
+  const question: Question = {
+    id: `q_${Date.now()}_${index}`,
+    text,
+    type,
+    answer: type === 'true_false' ? answer.toLowerCase() : answer,
+    explanation,
+  };
+  if (type === 'multiple_choice' || type === 'multi_select') question.options = stringList(raw.options);
+  if (type === 'multi_select') question.answers = stringList(raw.answers);
+  if (type === 'ordering') question.items = stringList(raw.items);
+  if (type === 'matching') {
+    question.pairs = Array.isArray(raw.pairs)
+      ? raw.pairs
+          .filter((pair: any) => pair && typeof pair.prompt === 'string' && typeof pair.match === 'string')
+          .map((pair: any) => ({ prompt: pair.prompt.trim(), match: pair.match.trim() }))
+      : undefined;
+  }
+  if (['multi_select', 'ordering', 'matching'].includes(type)) question.answer = '';
+
+  return isGeneratedQuestionValid(question) ? question : null;
+};
+
+export interface GeneratedQuiz {
+  questions: Question[];
+  // Proposals that were dropped because they didn't validate.
+  rejected: number;
+}
+
+// Validates the model's JSON reply. Malformed questions are dropped rather
+// than failing the whole batch.
+export const parseGeneratedQuiz = (json: string): GeneratedQuiz => {
+  const data = JSON.parse(json);
+  const proposals: unknown[] = Array.isArray(data?.questions) ? data.questions : [];
+  const questions = proposals.map(toQuestion).filter((question): question is Question => question !== null);
+  return { questions, rejected: proposals.length - questions.length };
+};
@@ -0,0 +1,57 @@
+import type { Location, Tour } from '../types';
+import { DEFAULT_ROUTING_PROFILE, DEFAULT_TOUR_LANGUAGE } from './artifactSchema';
+
+export const createTour = (fields: Partial<Tour> = {}): Tour => ({
+  id: `tour_${new Date().toISOString()}`,
+  title: '',
+  intro: '',
+  coverImage: '',
+  language: DEFAULT_TOUR_LANGUAGE,
+  translationLanguages: [],
+  routingProfile: DEFAULT_ROUTING_PROFILE,
+  baseLayer: null,
+  passMark: null,
+  locations: [],
+  ...fields,
+});
+
+// Applies `updater` to one tour's locations. The tour list is returned as-is
+// when nothing changed, so history commits stay no-ops.
+export const updateTourLocations = (
+  tours: Tour[],
+  tourId: string,
+  updater: (locations: Location[]) => Location[]
+): Tour[] => {
+  let changed = false;
+  const next = tours.map(tour => {
+    if (tour.id !== tourId) return tour;
+    const locations = updater(tour.locations);
+    if (locations === tour.locations) return tour;
+    changed = true;
+    return { ...tour, locations };
+  });
+  return changed ? next : tours;
+};
+
+// Moves or copies a location to the end of another tour. Copies get a new id
+// so both can be edited independently.
+export const transferLocation = (
+  tours: Tour[],
+  locationId: string,
+  fromTourId: string,
+  toTourId: string,
+  mode: 'move' | 'copy'
+): Tour[] => {
+  const source = tours.find(tour => tour.id === fromTourId);
+  const location = source?.locations.find(loc => loc.id === locationId);
+  if (!location || fromTourId === toTourId) return tours;
+
+  const transferred = mode === 'copy' ? { ...location, id: new Date().toISOString() } : location;
+  return tours.map(tour => {
+    if (tour.id === toTourId) return { ...tour, locations: [...tour.locations, transferred] };
+    if (tour.id === fromTourId && mode === 'move') {
+      return { ...tour, locations: tour.locations.filter(loc => loc.id !== locationId) };
+    }
+    return tour;
+  });
+};
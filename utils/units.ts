@@ -0,0 +1,21 @@
+// Locale-aware "1.2 km" / "350 m".
+export const formatDistance = (meters: number, language: string): string => {
+  if (meters < 1000) {
+    return new Intl.NumberFormat(language, { style: 'unit', unit: 'meter', unitDisplay: 'short', maximumFractionDigits: 0 })
+      .format(Math.round(meters / 10) * 10);
+  }
+  return new Intl.NumberFormat(language, { style: 'unit', unit: 'kilometer', unitDisplay: 'short', maximumFractionDigits: meters < 10000 ? 1 : 0 })
+    .format(meters / 1000);
+};
+
+// Locale-aware "1 hr 20 min" / "5 min", rounded to the minute.
+export const formatDuration = (seconds: number, language: string): string => {
+  const totalMinutes = Math.max(1, Math.round(seconds / 60));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  const format = (value: number, unit: 'hour' | 'minute') =>
+    new Intl.NumberFormat(language, { style: 'unit', unit, unitDisplay: 'short' }).format(value);
+
+  if (hours === 0) return format(minutes, 'minute');
+  return minutes === 0 ? format(hours, 'hour') : `${format(hours, 'hour')} ${format(minutes, 'minute')}`;
+};
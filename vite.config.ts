@@ -11,8 +11,27 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL),
+        'process.env.AI_PROXY_PATH': JSON.stringify(env.AI_PROXY_PATH),
+        // Only bundled when the browser calls Gemini itself; never set
+        // AI_PROVIDER=gemini for a deployed build.
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.AI_PROVIDER === 'gemini' ? env.GEMINI_API_KEY : undefined),
+        'process.env.GEOCODER_PROVIDER': JSON.stringify(env.GEOCODER_PROVIDER),
+        'process.env.GEOCODER_URL': JSON.stringify(env.GEOCODER_URL),
+        'process.env.GEOCODER_API_KEY': JSON.stringify(env.GEOCODER_API_KEY),
+        'process.env.GEOCODER_MIN_INTERVAL_MS': JSON.stringify(env.GEOCODER_MIN_INTERVAL_MS),
+        'process.env.ROUTER_PROVIDER': JSON.stringify(env.ROUTER_PROVIDER),
+        'process.env.ROUTER_URL': JSON.stringify(env.ROUTER_URL),
+        'process.env.TILE_URL': JSON.stringify(env.TILE_URL),
+        'process.env.TILE_NAME': JSON.stringify(env.TILE_NAME),
+        'process.env.TILE_ATTRIBUTION': JSON.stringify(env.TILE_ATTRIBUTION),
+        'process.env.TILE_MAX_ZOOM': JSON.stringify(env.TILE_MAX_ZOOM),
+        'process.env.TILE_SUBDOMAINS': JSON.stringify(env.TILE_SUBDOMAINS),
+        'process.env.BASE_LAYERS': JSON.stringify(env.BASE_LAYERS),
+        'process.env.MEDIA_UPLOAD_PROVIDER': JSON.stringify(env.MEDIA_UPLOAD_PROVIDER),
+        'process.env.MEDIA_UPLOAD_PATH': JSON.stringify(env.MEDIA_UPLOAD_PATH),
+        'process.env.MEDIA_MAX_IMAGE_DIMENSION': JSON.stringify(env.MEDIA_MAX_IMAGE_DIMENSION)
       },
       resolve: {
         alias: {